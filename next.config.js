@@ -3,22 +3,17 @@
  * for Docker builds.
  */
 import "./src/env.js";
+import { IMAGE_HOSTS } from "./src/lib/image-hosts.js";
 
 /** @type {import("next").NextConfig} */
 const config = {
     images: {
         loader: "custom",
-        loaderFile: "./src/lib/wsrvLoader.ts",
-        remotePatterns: [
-            {
-                protocol: "https",
-                hostname: "cdn.lkqcorp.com",
-            },
-            {
-                protocol: "https",
-                hostname: "pypimages.azureedge.net",
-            },
-        ],
+        loaderFile: "./src/lib/imageLoader.ts",
+        remotePatterns: IMAGE_HOSTS.map((hostname) => ({
+            protocol: "https",
+            hostname,
+        })),
     }
 };
 
@@ -0,0 +1,29 @@
+// Service worker for Web Push alerts about saved search matches
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title ?? "New arrivals", {
+      body: data.body,
+      icon: "/favicon.svg",
+      tag: "saved-search-alert",
+      data: { url: data.url ?? "/inbox" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url ?? "/inbox";
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windowClients) => {
+        const existing = windowClients.find((client) => client.url === url);
+        if (existing) return existing.focus();
+        return self.clients.openWindow(url);
+      }),
+  );
+});
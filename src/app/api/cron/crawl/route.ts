@@ -0,0 +1,17 @@
+import { isAuthorizedCronRequest } from "~/server/cron/auth";
+import { runCrawl } from "~/server/inventory/crawler";
+
+// Full-yard crawls walk many pages, so give the job time to finish
+export const maxDuration = 300;
+
+/**
+ * Scheduled job that re-crawls the locations that are due so interactive
+ * searches can be served from warm data
+ */
+export async function GET(req: Request) {
+  if (!isAuthorizedCronRequest(req)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  return Response.json(await runCrawl());
+}
@@ -0,0 +1,32 @@
+import { runAllSavedSearches } from "~/server/alerts/saved-searches";
+import { isAuthorizedCronRequest } from "~/server/cron/auth";
+
+// Saved searches fan out to every location, so give the job time to finish
+export const maxDuration = 300;
+
+/**
+ * Scheduled job that re-runs every saved search, files new matches in the
+ * inbox and sends them out on the configured notification channels
+ */
+export async function GET(req: Request) {
+  if (!isAuthorizedCronRequest(req)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const results = await runAllSavedSearches();
+
+  return Response.json({
+    savedSearches: results.length,
+    newMatches: results.reduce(
+      (total, result) => total + result.newMatches.length,
+      0,
+    ),
+    notificationsSent: results.reduce(
+      (total, result) =>
+        total +
+        result.deliveries.filter((delivery) => delivery.status === "sent")
+          .length,
+      0,
+    ),
+  });
+}
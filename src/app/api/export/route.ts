@@ -0,0 +1,54 @@
+import { getExportFileName } from "~/lib/export";
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportError,
+  exportSearchResults,
+  parseExportRequest,
+} from "~/server/export";
+
+// The XLSX writer needs Node's zlib
+export const runtime = "nodejs";
+// A whole-inventory export may have every yard to read
+export const maxDuration = 300;
+
+/**
+ * Download every result of a search as CSV, JSON or XLSX, streamed a batch
+ * of rows at a time
+ */
+export async function GET(req: Request) {
+  try {
+    const request = parseExportRequest(new URL(req.url).searchParams);
+    const chunks = await exportSearchResults(request, req);
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const chunk = await chunks.next();
+          if (chunk.done) controller.close();
+          else controller.enqueue(chunk.value);
+        } catch (error) {
+          console.error("Error exporting search results:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[request.format],
+        "Content-Disposition": `attachment; filename="${getExportFileName(request.format, new Date())}"`,
+        "Cache-Control": "no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExportError) {
+      return new Response(error.message, { status: error.status });
+    }
+    console.error("Error exporting search results:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  getProxiedImage,
+  ImageProxyError,
+  parseImageRequest,
+} from "~/server/images/proxy";
+
+// sharp needs Node APIs
+export const runtime = "nodejs";
+
+/**
+ * Resize and re-encode a vehicle photo from one of the allow-listed image
+ * hosts, used by the image loader when NEXT_PUBLIC_IMAGE_LOADER is "self"
+ */
+export async function GET(req: Request) {
+  try {
+    const request = parseImageRequest(
+      new URL(req.url).searchParams,
+      req.headers.get("accept"),
+    );
+    const image = await getProxiedImage(request);
+
+    return new Response(new Uint8Array(image), {
+      headers: {
+        "Content-Type": `image/${request.format}`,
+        // A photo URL always shows the same photo
+        "Cache-Control": "public, max-age=31536000, immutable",
+        Vary: "Accept",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImageProxyError) {
+      return new Response(error.message, { status: error.status });
+    }
+    console.error("Error proxying image:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import {
+  ArrowLeft,
+  BellOff,
+  CheckCheck,
+  ExternalLink,
+  Play,
+  Trash2,
+} from "lucide-react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ErrorBoundary } from "~/components/ErrorBoundary";
+import { PushNotificationsToggle } from "~/components/alerts/PushNotificationsToggle";
+import { VehicleCard } from "~/components/search/VehicleCard";
+import { ThemeToggle } from "~/components/theme/theme-toggle";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Skeleton } from "~/components/ui/skeleton";
+import { formatCoordinates } from "~/lib/origin";
+import { serializeSearchParams } from "~/lib/search-params";
+import type { NotificationChannelId, SavedSearch } from "~/lib/types";
+import { cn } from "~/lib/utils";
+import { api } from "~/trpc/react";
+
+/**
+ * Link back to the search page with a saved search's query and filters
+ */
+function getSavedSearchUrl(savedSearch: SavedSearch): string {
+  const { filters } = savedSearch;
+  return serializeSearchParams("/search", {
+    q: savedSearch.query,
+    sort: filters.sort,
+    minYear: filters.minYear,
+    maxYear: filters.maxYear,
+    makes: filters.makes,
+    colors: filters.colors,
+    engines: filters.engines,
+    states: filters.states,
+    yards: filters.salvageYards,
+    models: filters.models,
+    distance: filters.maxDistance,
+    arrived: filters.arrived,
+    arrivedFrom: filters.arrivedFrom ? new Date(filters.arrivedFrom) : null,
+    arrivedTo: filters.arrivedTo ? new Date(filters.arrivedTo) : null,
+    origin: filters.origin
+      ? formatCoordinates(filters.origin.lat, filters.origin.lng)
+      : null,
+  });
+}
+
+/**
+ * Short description of a saved search's filters
+ */
+function describeFilters(filters: SavedSearch["filters"]): string {
+  const parts = [
+    ...filters.makes,
+    ...filters.models,
+    ...filters.colors,
+    ...filters.engines,
+    ...filters.states,
+    ...filters.salvageYards,
+  ];
+  if (filters.minYear !== null || filters.maxYear !== null) {
+    parts.push(`${filters.minYear ?? "any"}-${filters.maxYear ?? "any"}`);
+  }
+  if (filters.maxDistance !== null) {
+    parts.push(`within ${filters.maxDistance} mi`);
+  }
+  if (filters.arrived) {
+    parts.push(
+      filters.arrived === "custom"
+        ? "arrived between set dates"
+        : `arrived within ${filters.arrived}`,
+    );
+  }
+  return parts.length > 0 ? parts.join(", ") : "No filters";
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function SavedSearchesCard() {
+  const utils = api.useUtils();
+  const { data: savedSearches, isLoading } =
+    api.savedSearches.getAll.useQuery();
+
+  const runSavedSearch = api.savedSearches.run.useMutation({
+    onSuccess: ({ newMatches }) => {
+      toast.success(
+        newMatches > 0
+          ? `${newMatches} new ${newMatches === 1 ? "match" : "matches"}`
+          : "No new matches",
+      );
+      void utils.savedSearches.getAll.invalidate();
+      void utils.alerts.invalidate();
+    },
+    onError: (error) => {
+      toast.error("Could not run search", { description: error.message });
+    },
+  });
+
+  const deleteSavedSearch = api.savedSearches.delete.useMutation({
+    onSuccess: () => {
+      void utils.savedSearches.getAll.invalidate();
+      void utils.alerts.invalidate();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Searches</CardTitle>
+        <CardDescription>
+          Re-run on a schedule. New matches land in your inbox.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading &&
+          Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-14 w-full" />
+          ))}
+
+        {savedSearches?.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            No saved searches yet. Use &quot;Save Search&quot; on the search
+            page to add one.
+          </p>
+        )}
+
+        {savedSearches?.map((savedSearch) => (
+          <div
+            key={savedSearch.id}
+            className="flex items-center justify-between gap-4 rounded-md border p-3"
+          >
+            <div className="min-w-0">
+              <p className="truncate font-medium">{savedSearch.name}</p>
+              <p className="text-muted-foreground truncate text-xs">
+                &quot;{savedSearch.query}&quot; ·{" "}
+                {describeFilters(savedSearch.filters)}
+              </p>
+              <p className="text-muted-foreground text-xs">
+                {savedSearch.lastRunAt
+                  ? `Last run ${formatDateTime(savedSearch.lastRunAt)}`
+                  : "Not run yet"}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+              <Button asChild variant="ghost" size="icon">
+                <Link href={getSavedSearchUrl(savedSearch)}>
+                  <ExternalLink className="h-4 w-4" />
+                  <span className="sr-only">Open search</span>
+                </Link>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={runSavedSearch.isPending}
+                onClick={() => runSavedSearch.mutate({ id: savedSearch.id })}
+              >
+                <Play className="h-4 w-4" />
+                <span className="sr-only">Run now</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={deleteSavedSearch.isPending}
+                onClick={() => deleteSavedSearch.mutate({ id: savedSearch.id })}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete</span>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+const CHANNEL_LABELS: Record<NotificationChannelId, string> = {
+  email: "Email",
+  webhook: "Webhook",
+  push: "Push",
+};
+
+function NotificationsCard() {
+  const { data: channels } = api.notifications.getChannels.useQuery();
+  const { data: deliveries, isLoading } =
+    api.notifications.getDeliveries.useQuery({ limit: 20 });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          {channels && channels.length > 0
+            ? `New matches are sent by ${channels
+                .map((channel) => CHANNEL_LABELS[channel].toLowerCase())
+                .join(", ")}.`
+            : "No notification channels are configured."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {channels?.includes("push") && <PushNotificationsToggle />}
+
+        {isLoading && <Skeleton className="h-14 w-full" />}
+
+        {deliveries?.length === 0 && (
+          <p className="text-muted-foreground text-sm">Nothing sent yet.</p>
+        )}
+
+        {deliveries?.map((delivery) => (
+          <div key={delivery.id} className="rounded-md border p-3 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <Badge
+                variant={
+                  delivery.status === "sent" ? "secondary" : "destructive"
+                }
+              >
+                {CHANNEL_LABELS[delivery.channel]} · {delivery.status}
+              </Badge>
+              <span className="text-muted-foreground">
+                {formatDateTime(delivery.createdAt)}
+              </span>
+            </div>
+            <p className="mt-2 truncate font-medium">{delivery.title}</p>
+            <p className="text-muted-foreground truncate">{delivery.target}</p>
+            {delivery.error && (
+              <p className="text-destructive truncate">
+                {delivery.error} ({delivery.attempts}{" "}
+                {delivery.attempts === 1 ? "attempt" : "attempts"})
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AlertsList() {
+  const utils = api.useUtils();
+  const { data: alerts, isLoading } = api.alerts.getAll.useQuery({});
+
+  const markRead = api.alerts.markRead.useMutation({
+    onSuccess: () => {
+      void utils.alerts.invalidate();
+    },
+  });
+
+  const unreadCount = alerts?.filter((alert) => !alert.readAt).length ?? 0;
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-foreground flex items-center gap-2 text-2xl font-black">
+          New Arrivals
+          {unreadCount > 0 && <Badge variant="secondary">{unreadCount}</Badge>}
+        </h2>
+        {unreadCount > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={markRead.isPending}
+            onClick={() => markRead.mutate({})}
+          >
+            <CheckCheck className="h-4 w-4" />
+            Mark all read
+          </Button>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          {Array.from({ length: 2 }).map((_, index) => (
+            <Skeleton key={index} className="h-96 w-full" />
+          ))}
+        </div>
+      )}
+
+      {alerts?.length === 0 && (
+        <div className="py-12 text-center">
+          <div className="bg-muted mx-auto mb-4 flex h-24 w-24 items-center justify-center rounded-full">
+            <BellOff className="text-muted-foreground h-12 w-12" />
+          </div>
+          <p className="text-muted-foreground">No new arrivals yet.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {alerts?.map((alert) => (
+          <div
+            key={alert.id}
+            className={cn(
+              "rounded-xl",
+              !alert.readAt && "ring-primary ring-2 ring-offset-2",
+            )}
+          >
+            <div className="text-muted-foreground mb-2 flex items-center justify-between px-1 text-xs">
+              <span>
+                {alert.savedSearchName} · {formatDateTime(alert.createdAt)}
+              </span>
+              {!alert.readAt && (
+                <button
+                  type="button"
+                  className="text-primary underline hover:no-underline"
+                  onClick={() => markRead.mutate({ ids: [alert.id] })}
+                >
+                  Mark read
+                </button>
+              )}
+            </div>
+            <VehicleCard vehicle={alert.vehicle} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function InboxPage() {
+  return (
+    <ErrorBoundary>
+      <div className="bg-background min-h-screen">
+        {/* Header */}
+        <header className="bg-card border-b shadow-sm">
+          <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+            <div className="flex h-16 items-center">
+              <div className="flex items-center space-x-4">
+                <Button asChild variant="ghost" size="icon">
+                  <Link href="/search">
+                    <ArrowLeft className="h-4 w-4" />
+                    <span className="sr-only">Back to search</span>
+                  </Link>
+                </Button>
+                <h1 className="text-foreground text-xl font-bold">Inbox</h1>
+              </div>
+              <div className="ml-auto">
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="mx-auto grid max-w-7xl gap-8 px-4 py-8 sm:px-6 lg:grid-cols-[1fr_20rem] lg:px-8">
+          <AlertsList />
+          <div className="space-y-8">
+            <SavedSearchesCard />
+            <NotificationsCard />
+          </div>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
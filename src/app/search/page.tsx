@@ -6,18 +6,32 @@ import {
   Calendar,
   Filter,
   MapPin,
+  RefreshCw,
   Search,
+  Star,
+  Warehouse,
 } from "lucide-react";
+import { keepPreviousData } from "@tanstack/react-query";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useQueryState, useQueryStates } from "nuqs";
 import {
-  parseAsArrayOf,
-  parseAsInteger,
-  parseAsString,
-  useQueryState,
-} from "nuqs";
-import { Suspense, useCallback, useMemo, useState } from "react";
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useDebounce } from "use-debounce";
+import { InboxButton } from "~/components/alerts/InboxButton";
 import { ErrorBoundary } from "~/components/ErrorBoundary";
+import { DefaultFiltersMenu } from "~/components/search/DefaultFiltersMenu";
+import { ExportDialog } from "~/components/search/ExportDialog";
+import { MakeModelPicker } from "~/components/search/MakeModelPicker";
 import { MobileFiltersDrawer } from "~/components/search/MobileFiltersDrawer";
+import { OriginPicker } from "~/components/search/OriginPicker";
+import { SaveSearchDialog } from "~/components/search/SaveSearchDialog";
 import { SearchInput } from "~/components/search/SearchInput";
 import {
   SearchResults,
@@ -25,6 +39,7 @@ import {
 } from "~/components/search/SearchResults";
 import { Sidebar } from "~/components/search/Sidebar";
 import { ThemeToggle } from "~/components/theme/theme-toggle";
+import { TripButton } from "~/components/trip/TripButton";
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
@@ -36,13 +51,52 @@ import {
   SelectValue,
 } from "~/components/ui/select";
 import { Skeleton } from "~/components/ui/skeleton";
+import { WatchlistButton } from "~/components/watchlist/WatchlistButton";
+import { useFavoriteYards } from "~/hooks/use-favorite-yards";
 import { useIsMobile } from "~/hooks/use-media-query";
+import { useSearchHistory } from "~/hooks/use-search-history";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
 import { ERROR_MESSAGES, SEARCH_CONFIG } from "~/lib/constants";
-import type { Vehicle } from "~/lib/types";
-import { api } from "~/trpc/react";
+import { resolveOrigin } from "~/lib/origin";
+import { getArrivalRange } from "~/lib/search-filters";
+import {
+  loadSearchFilters,
+  searchFilterParsers,
+  searchParamsParsers,
+  serializeSearchParams,
+} from "~/lib/search-params";
+import {
+  getSyncedFilters,
+  hasSyncedClauses,
+  parseSearchQuery,
+  withSyncedFilters,
+} from "~/lib/search-query";
+import type {
+  ArrivalWindow,
+  FacetBucket,
+  LocationScope,
+  SearchFacets,
+  SearchResult,
+  SearchSort,
+  SearchStreamChunk,
+  SyncedSearchFilters,
+} from "~/lib/types";
+import { calculateDistance } from "~/lib/utils";
+import { api, type RouterInputs } from "~/trpc/react";
+
+// Facets shown before the first page of results arrives
+const EMPTY_FACETS: SearchFacets = {
+  makes: [],
+  models: [],
+  colors: [],
+  engines: [],
+  states: [],
+  salvageYards: [],
+  years: [],
+};
 
 function SearchPageContent() {
-  const [query, setQuery] = useQueryState("q", { defaultValue: "" });
+  const [query, setQuery] = useQueryState("q", searchParamsParsers.q);
   const currentYear = new Date().getFullYear();
   const isMobile = useIsMobile();
 
@@ -50,10 +104,7 @@ function SearchPageContent() {
   const [showFilters, setShowFilters] = useState(false);
 
   // Sort state - should be in URL for shareability
-  const [sortBy, setSortBy] = useQueryState(
-    "sort",
-    parseAsString.withDefault("newest"),
-  );
+  const [sortBy, setSortBy] = useQueryState("sort", searchParamsParsers.sort);
 
   // Get the appropriate icon for the current sort option
   const getSortIcon = useCallback((sortOption: string) => {
@@ -74,66 +125,353 @@ function SearchPageContent() {
   // URL state for year range using built-in integer parser
   const [minYearParam, setMinYearParam] = useQueryState(
     "minYear",
-    parseAsInteger,
+    searchParamsParsers.minYear,
   );
   const [maxYearParam, setMaxYearParam] = useQueryState(
     "maxYear",
-    parseAsInteger,
+    searchParamsParsers.maxYear,
   );
 
   // Individual filter states using nuqs built-in parsers
-  const [makes, setMakes] = useQueryState(
-    "makes",
-    parseAsArrayOf(parseAsString).withDefault([]),
-  );
+  const [makes, setMakes] = useQueryState("makes", searchParamsParsers.makes);
   const [colors, setColors] = useQueryState(
     "colors",
-    parseAsArrayOf(parseAsString).withDefault([]),
+    searchParamsParsers.colors,
+  );
+  const [engines, setEngines] = useQueryState(
+    "engines",
+    searchParamsParsers.engines,
   );
   const [states, setStates] = useQueryState(
     "states",
-    parseAsArrayOf(parseAsString).withDefault([]),
+    searchParamsParsers.states,
   );
   const [salvageYards, setSalvageYards] = useQueryState(
     "yards",
-    parseAsArrayOf(parseAsString).withDefault([]),
+    searchParamsParsers.yards,
+  );
+  const [models, setModels] = useQueryState(
+    "models",
+    searchParamsParsers.models,
+  );
+  const [maxDistance, setMaxDistance] = useQueryState(
+    "distance",
+    searchParamsParsers.distance,
+  );
+  const [arrivedWithin, setArrivedWithin] = useQueryState(
+    "arrived",
+    searchParamsParsers.arrived,
+  );
+  const [arrivedFrom, setArrivedFrom] = useQueryState(
+    "arrivedFrom",
+    searchParamsParsers.arrivedFrom,
+  );
+  const [arrivedTo, setArrivedTo] = useQueryState(
+    "arrivedTo",
+    searchParamsParsers.arrivedTo,
+  );
+  const [originParam, setOriginParam] = useQueryState(
+    "origin",
+    searchParamsParsers.origin,
+  );
+  // Every filter at once, for remembering and pinning them
+  const [searchFilters, setSearchFilters] = useQueryStates(searchFilterParsers);
+  const serializedFilters = serializeSearchParams(searchFilters);
+
+  // Where distances are measured from; the server locates the request
+  // when no origin is picked
+  const { preferences } = useUserPreferences();
+  const origin = useMemo(
+    () => resolveOrigin(originParam, preferences),
+    [originParam, preferences],
+  );
+
+  // Compared by time so a re-parsed but equal date doesn't start a new search
+  const arrivedFromTime = arrivedFrom?.getTime() ?? null;
+  const arrivedToTime = arrivedTo?.getTime() ?? null;
+  const arrivalRange = useMemo(
+    () =>
+      getArrivalRange(arrivedWithin, [
+        arrivedFromTime !== null ? new Date(arrivedFromTime) : null,
+        arrivedToTime !== null ? new Date(arrivedToTime) : null,
+      ]),
+    [arrivedWithin, arrivedFromTime, arrivedToTime],
   );
 
   // Debounce the query for search API calls
   const [debouncedQuery] = useDebounce(query, SEARCH_CONFIG.DEBOUNCE_DELAY);
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  const debouncedQueryIsValid = useMemo(
+    () => parseSearchQuery(debouncedQuery).errors.length === 0,
+    [debouncedQuery],
+  );
+
+  // Make, color, state and year filters live both in the search box (as
+  // `make:`, `color:`, `state:` and year range clauses) and in the URL
+  // params the sidebar reads
+  const syncedFilters = useMemo(
+    (): SyncedSearchFilters => ({
+      makes,
+      colors,
+      states,
+      minYear: minYearParam,
+      maxYear: maxYearParam,
+    }),
+    [makes, colors, states, minYearParam, maxYearParam],
+  );
+
+  const setSyncedParams = useCallback(
+    (filters: SyncedSearchFilters) => {
+      void setMakes(filters.makes);
+      void setColors(filters.colors);
+      void setStates(filters.states);
+      void setMinYearParam(filters.minYear);
+      void setMaxYearParam(filters.maxYear);
+    },
+    [setMakes, setColors, setStates, setMinYearParam, setMaxYearParam],
+  );
+
+  // Sidebar changes rewrite the matching clauses in the search box
+  const updateSyncedFilters = useCallback(
+    (changes: Partial<SyncedSearchFilters>) => {
+      const next = { ...syncedFilters, ...changes };
+      setSyncedParams(next);
+      void setQuery(withSyncedFilters(query, next));
+    },
+    [syncedFilters, setSyncedParams, setQuery, query],
+  );
+
+  // Edits to the search box update the params once typing settles and the
+  // query parses. Links that only carry params, like saved searches opened
+  // from the inbox, write their filters into the box on first load instead.
+  const hasSyncedQuery = useRef(false);
+  useEffect(() => {
+    if (debouncedQuery !== query || parsedQuery.errors.length > 0) return;
+
+    if (!hasSyncedQuery.current) {
+      hasSyncedQuery.current = true;
+      if (!hasSyncedClauses(parsedQuery)) {
+        const fromParams = withSyncedFilters(query, syncedFilters);
+        if (fromParams !== query) void setQuery(fromParams);
+        return;
+      }
+    }
+
+    const fromQuery = getSyncedFilters(parsedQuery);
+    if (JSON.stringify(fromQuery) !== JSON.stringify(syncedFilters)) {
+      setSyncedParams(fromQuery);
+    }
+  }, [
+    query,
+    debouncedQuery,
+    parsedQuery,
+    syncedFilters,
+    setSyncedParams,
+    setQuery,
+  ]);
+
+  const {
+    recentSearches,
+    defaultFilters,
+    recordSearch,
+    clearRecentSearches,
+    pinDefaultFilters,
+  } = useSearchHistory();
+
+  // Pinned default filters fill in a fresh load whose URL has none. They're
+  // read once preferences load, which is only after hydration.
+  const searchParams = useSearchParams();
+  const loadedWithFilters = useRef(
+    Object.keys(searchFilterParsers).some((key) => searchParams.has(key)),
+  );
+  const hasCheckedDefaults = useRef(false);
+  useEffect(() => {
+    if (hasCheckedDefaults.current || !defaultFilters) return;
+    hasCheckedDefaults.current = true;
+    if (loadedWithFilters.current) return;
 
-  // Perform search with debounced query - filtering is done client-side
+    // Written into the search box like the filters of a link
+    hasSyncedQuery.current = false;
+    void setSearchFilters(
+      loadSearchFilters(new URLSearchParams(defaultFilters)),
+    );
+  }, [defaultFilters, setSearchFilters]);
+
+  // Favorite yards are asked first, or are the only ones asked in
+  // "My yards only" mode
+  const [myYardsOnly, setMyYardsOnly] = useQueryState(
+    "myYards",
+    searchParamsParsers.myYards,
+  );
+  const { favoriteLocations } = useFavoriteYards();
+  const onlyFavorites = myYardsOnly && favoriteLocations.length > 0;
+
+  // Picking states or yards, "My yards only" and the distance filter limit
+  // which yards are searched at all. Yards are picked by name but scoped by
+  // code, so their codes are looked up.
+  const { data: allLocations } = api.locations.getAll.useQuery(undefined, {
+    enabled: states.length > 0 || salvageYards.length > 0,
+  });
+  const originLat = origin?.lat;
+  const originLng = origin?.lng;
+  const locationScope = useMemo((): LocationScope | undefined => {
+    const near =
+      maxDistance !== null && originLat !== undefined && originLng !== undefined
+        ? { lat: originLat, lng: originLng, radius: maxDistance }
+        : undefined;
+    if (
+      states.length === 0 &&
+      salvageYards.length === 0 &&
+      !onlyFavorites &&
+      !near
+    ) {
+      return undefined;
+    }
+
+    return {
+      states: states.length > 0 ? states : undefined,
+      // Picked yards that aren't favorites are still filtered out of the
+      // results, so they needn't be asked in "My yards only" mode
+      locationCodes: onlyFavorites
+        ? favoriteLocations
+        : salvageYards.length > 0
+          ? allLocations
+              ?.filter((location) => salvageYards.includes(location.name))
+              .map((location) => location.locationCode)
+          : undefined,
+      near,
+    };
+  }, [
+    states,
+    salvageYards,
+    allLocations,
+    onlyFavorites,
+    favoriteLocations,
+    maxDistance,
+    originLat,
+    originLng,
+  ]);
+
+  // Query that was last refreshed live instead of served from crawled data
+  const [liveQuery, setLiveQuery] = useState<string | null>(null);
+  const forceRefresh = liveQuery === debouncedQuery;
+
+  // The search as it's run, which an export runs again in full
+  const searchInput: RouterInputs["vehicles"]["search"] = {
+    query: debouncedQuery,
+    makes,
+    colors,
+    engines,
+    states,
+    salvageYards,
+    models,
+    yearRange:
+      minYearParam !== null || maxYearParam !== null
+        ? [minYearParam ?? 0, maxYearParam ?? currentYear + 1]
+        : undefined,
+    dateRange: arrivalRange,
+    maxDistance: maxDistance ?? undefined,
+    origin: origin ? { lat: origin.lat, lng: origin.lng } : undefined,
+    locations: locationScope,
+    favoriteLocations,
+    sortBy,
+  };
+
+  // Filtering, sorting and paging all happen on the server. Progress
+  // streams in as the yards answer, and the first page once the last one
+  // has.
   const {
-    data: searchResults,
-    isLoading: searchLoading,
+    data: searchChunks,
+    fetchStatus: searchFetchStatus,
     error: searchError,
     refetch: refetchSearch,
-  } = api.vehicles.search.useQuery(
+    isPlaceholderData,
+  } = api.vehicles.searchStream.useQuery(
+    { ...searchInput, forceRefresh },
     {
-      query: debouncedQuery,
-      makes: undefined,
-      colors: undefined,
-      states: undefined,
-      yearRange: undefined,
-    },
-    {
-      enabled: debouncedQuery.length > 0,
+      enabled:
+        debouncedQuery.length > 0 &&
+        debouncedQueryIsValid &&
+        (salvageYards.length === 0 || allLocations !== undefined),
+      // Keep showing the current results while a filter change loads
+      placeholderData: keepPreviousData,
       refetchOnWindowFocus: false,
       refetchOnReconnect: false,
     },
   );
+  const isSearching = searchFetchStatus === "fetching";
+  const searchProgress = isPlaceholderData
+    ? undefined
+    : searchChunks?.[searchChunks.length - 1];
+
+  // The last complete first page stays up while the next search streams
+  const latestPage = searchChunks?.[searchChunks.length - 1]?.result;
+  const [firstPage, setFirstPage] = useState<SearchResult | undefined>();
+  useEffect(() => {
+    if (latestPage) setFirstPage(latestPage);
+  }, [latestPage]);
+
+  // Later pages follow the complete first page's cursor, and are only
+  // asked for once "Load more" is
+  const [moreCursor, setMoreCursor] = useState<string | null>(null);
+  const showMore =
+    !isSearching && moreCursor !== null && moreCursor === firstPage?.nextCursor;
+  const {
+    data: morePages,
+    fetchNextPage,
+    hasNextPage,
+    isFetching: isFetchingMore,
+  } = api.vehicles.search.useInfiniteQuery(searchInput, {
+    enabled: showMore,
+    initialCursor: moreCursor,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
 
-  // Calculate minimum year from search results
-  const dataMinYear = useMemo(() => {
-    if (!searchResults?.vehicles || searchResults.vehicles.length === 0) {
-      return 1900; // Fallback only when no data
+  // Join the pages loaded so far into a single result
+  const searchResults = useMemo((): SearchResult | undefined => {
+    if (!firstPage) return undefined;
+    const pages = [firstPage, ...(showMore ? (morePages?.pages ?? []) : [])];
+
+    return {
+      ...pages[pages.length - 1]!,
+      vehicles: pages.flatMap((page) => page.vehicles),
+    };
+  }, [firstPage, showMore, morePages]);
+  const hasMorePages =
+    showMore && morePages ? hasNextPage : firstPage?.hasMore === true;
+
+  const loadMore = () => {
+    if (showMore) {
+      void fetchNextPage();
+    } else if (firstPage?.nextCursor) {
+      setMoreCursor(firstPage.nextCursor);
     }
+  };
 
-    const years = searchResults.vehicles.map(
-      (vehicle: Vehicle) => vehicle.year,
-    );
-    return Math.min(...years);
-  }, [searchResults?.vehicles]);
+  // Remember each search once its results arrive
+  const searchedParams = serializeSearchParams({
+    ...searchFilters,
+    q: debouncedQuery,
+  });
+  useEffect(() => {
+    if (searchChunks && !isPlaceholderData) {
+      recordSearch(debouncedQuery, searchedParams);
+    }
+  }, [
+    searchChunks,
+    isPlaceholderData,
+    debouncedQuery,
+    searchedParams,
+    recordSearch,
+  ]);
+
+  // Only show skeletons until the first yard answers
+  const searchLoading = isSearching && !searchResults;
+
+  // Oldest model year the query matched, before the year filter
+  const dataMinYear = searchResults?.facets.years[0]?.year ?? 1900;
 
   // Year range from URL state (user interacts with this directly)
   const yearRange = useMemo(
@@ -144,31 +482,40 @@ function SearchPageContent() {
     [minYearParam, maxYearParam, dataMinYear, currentYear],
   );
 
-  // Custom year range setters that clear URL params when at defaults
-  const setMinYear = useCallback(
-    (value: number | null) => {
-      if (value === dataMinYear) {
-        void setMinYearParam(null);
-      } else {
-        void setMinYearParam(value);
-      }
-    },
-    [dataMinYear, setMinYearParam],
-  );
+  // Ends of the range left at their defaults are cleared from the URL
+  const handleYearRangeChange = (range: [number, number]) => {
+    updateSyncedFilters({
+      minYear: range[0] === dataMinYear ? null : range[0],
+      maxYear: range[1] === currentYear ? null : range[1],
+    });
+  };
 
-  const setMaxYear = useCallback(
-    (value: number | null) => {
-      if (value === currentYear) {
-        void setMaxYearParam(null);
-      } else {
-        void setMaxYearParam(value);
-      }
-    },
-    [currentYear, setMaxYearParam],
-  );
+  // Leaving the custom window drops its dates from the URL
+  const handleArrivedWithinChange = (window: ArrivalWindow | null) => {
+    void setArrivedWithin(window);
+    if (window !== "custom") {
+      void setArrivedFrom(null);
+      void setArrivedTo(null);
+    }
+  };
+
+  const handleArrivalDatesChange = ([from, to]: [Date | null, Date | null]) => {
+    void setArrivedFrom(from);
+    void setArrivedTo(to);
+  };
 
   const handleSearch = () => {
-    void refetchSearch();
+    if (parsedQuery.errors.length === 0) {
+      void refetchSearch();
+    }
+  };
+
+  const handleLiveRefresh = () => {
+    if (forceRefresh) {
+      void refetchSearch();
+    } else {
+      setLiveQuery(debouncedQuery);
+    }
   };
 
   const handleQueryChange = useCallback(
@@ -178,59 +525,88 @@ function SearchPageContent() {
     [setQuery],
   );
 
-  // Calculate filter options from search results
-  const filterOptions = useMemo(() => {
-    if (!searchResults?.vehicles || searchResults.vehicles.length === 0) {
-      return {
-        makes: [],
-        colors: [],
-        states: [],
-        salvageYards: [],
-      };
-    }
+  // Option counts for the sidebar, each computed against the other filters.
+  // Yards that picked states or yards kept out of the search have no counts;
+  // their states and names are still offered, so picking one widens the
+  // search to them rather than every yard being asked just to count.
+  const queriedLocations = searchResults?.queriedLocations;
+  const facets = useMemo((): SearchFacets => {
+    const searched = searchResults?.facets ?? EMPTY_FACETS;
+    if (!allLocations || !queriedLocations || !locationScope) return searched;
 
-    const makes = [
-      ...new Set(
-        searchResults.vehicles.map((vehicle: Vehicle) => vehicle.make),
-      ),
-    ].sort();
-    const colors = [
-      ...new Set(
-        searchResults.vehicles.map((vehicle: Vehicle) => vehicle.color),
-      ),
-    ].sort();
-
-    // Show all states and yards (no cross-filtering)
-    const allStates = Array.from(
-      new Set(
-        searchResults.vehicles.map(
-          (vehicle: Vehicle) => vehicle.location.state,
-        ),
-      ),
-    ).sort();
-    const allSalvageYards = Array.from(
-      new Set(
-        searchResults.vehicles.map((vehicle: Vehicle) => vehicle.location.name),
-      ),
-    ).sort();
+    const unsearched = allLocations.filter(
+      (location) =>
+        !queriedLocations.includes(location.locationCode) &&
+        (!onlyFavorites || favoriteLocations.includes(location.locationCode)) &&
+        (!locationScope.near ||
+          calculateDistance(
+            locationScope.near.lat,
+            locationScope.near.lng,
+            location.lat,
+            location.lng,
+          ) <= locationScope.near.radius),
+    );
+    const withUnsearched = (buckets: FacetBucket[], values: string[]) =>
+      [
+        ...buckets,
+        ...[...new Set(values)]
+          .filter((value) => !buckets.some((bucket) => bucket.value === value))
+          .map((value) => ({ value, count: null })),
+      ].sort((a, b) => a.value.localeCompare(b.value));
 
     return {
-      makes,
-      colors,
-      states: allStates,
-      salvageYards: allSalvageYards,
+      ...searched,
+      // Each is offered where the other location filter would let it in
+      states: withUnsearched(
+        searched.states,
+        unsearched
+          .filter(
+            (location) =>
+              salvageYards.length === 0 || salvageYards.includes(location.name),
+          )
+          .map((location) => location.state),
+      ),
+      salvageYards: withUnsearched(
+        searched.salvageYards,
+        unsearched
+          .filter(
+            (location) =>
+              states.length === 0 ||
+              states.includes(location.state) ||
+              states.includes(location.stateAbbr),
+          )
+          .map((location) => location.name),
+      ),
     };
-  }, [searchResults?.vehicles]);
+  }, [
+    searchResults?.facets,
+    allLocations,
+    queriedLocations,
+    locationScope,
+    onlyFavorites,
+    favoriteLocations,
+    states,
+    salvageYards,
+  ]);
 
   const clearAllFilters = () => {
-    void setMakes([]);
-    void setColors([]);
-    void setStates([]);
+    void setEngines([]);
     void setSalvageYards([]);
+    void setModels([]);
+    void setMaxDistance(null);
+    void setMyYardsOnly(false);
+    void setArrivedWithin(null);
+    void setArrivedFrom(null);
+    void setArrivedTo(null);
 
-    // Clear URL parameters when user explicitly clears all filters
-    void setMinYearParam(null);
-    void setMaxYearParam(null);
+    // Clears the matching clauses from the search box too
+    updateSyncedFilters({
+      makes: [],
+      colors: [],
+      states: [],
+      minYear: null,
+      maxYear: null,
+    });
     void setSortBy("newest"); // Reset sort to default
     setShowFilters(false); // Close sidebar
   };
@@ -245,8 +621,13 @@ function SearchPageContent() {
     return (
       makes.length +
       colors.length +
+      engines.length +
       states.length +
       salvageYards.length +
+      models.length +
+      (maxDistance !== null ? 1 : 0) +
+      (onlyFavorites ? 1 : 0) +
+      (arrivalRange ? 1 : 0) +
       (yearRange &&
       (yearRange[0] !== dataYearRange[0] || yearRange[1] !== dataYearRange[1])
         ? 1
@@ -255,100 +636,19 @@ function SearchPageContent() {
   }, [
     makes,
     colors,
+    engines,
     states,
     salvageYards,
+    models,
+    maxDistance,
+    onlyFavorites,
+    arrivalRange,
     yearRange,
     currentYear,
     searchResults?.vehicles,
     dataMinYear,
   ]);
 
-  // Comprehensive filtering logic - all client-side, no server filtering
-  const filteredVehicles = useMemo(() => {
-    if (!searchResults?.vehicles) return [];
-
-    return searchResults.vehicles.filter((vehicle: Vehicle) => {
-      // Year range filter
-      if (
-        yearRange &&
-        (vehicle.year < yearRange[0] || vehicle.year > yearRange[1])
-      ) {
-        return false;
-      }
-
-      // Make filter
-      if (makes.length > 0 && !makes.includes(vehicle.make)) {
-        return false;
-      }
-
-      // Color filter
-      if (colors.length > 0 && !colors.includes(vehicle.color)) {
-        return false;
-      }
-
-      // State filter
-      if (states.length > 0 && !states.includes(vehicle.location.state)) {
-        return false;
-      }
-
-      // Salvage yard filter
-      if (
-        salvageYards.length > 0 &&
-        !salvageYards.includes(vehicle.location.name)
-      ) {
-        return false;
-      }
-
-      return true;
-    });
-  }, [searchResults?.vehicles, makes, colors, states, salvageYards, yearRange]);
-
-  // Sorting function
-  const sortVehicles = useCallback(
-    (vehicles: Vehicle[], sortOption: string) => {
-      const sorted = [...vehicles];
-
-      switch (sortOption) {
-        case "newest":
-          return sorted.sort(
-            (a, b) =>
-              new Date(b.availableDate).getTime() -
-              new Date(a.availableDate).getTime(),
-          );
-        case "oldest":
-          return sorted.sort(
-            (a, b) =>
-              new Date(a.availableDate).getTime() -
-              new Date(b.availableDate).getTime(),
-          );
-        case "year-desc":
-          return sorted.sort((a, b) => b.year - a.year);
-        case "year-asc":
-          return sorted.sort((a, b) => a.year - b.year);
-        case "distance":
-          return sorted.sort(
-            (a, b) => a.location.distance - b.location.distance,
-          );
-        default:
-          return sorted;
-      }
-    },
-    [],
-  );
-
-  // Create filtered and sorted search result
-  const filteredSearchResult = useMemo(() => {
-    if (!searchResults) return null;
-
-    const sortedVehicles = sortVehicles(filteredVehicles, sortBy);
-
-    return {
-      ...searchResults,
-      vehicles: sortedVehicles,
-      totalCount: sortedVehicles.length,
-    };
-  }, [searchResults, filteredVehicles, sortBy, sortVehicles]);
-
   return (
     <div className="bg-background min-h-screen">
       {/* Header */}
@@ -363,7 +663,21 @@ function SearchPageContent() {
                 Search across all locations
               </span>
             </div>
-            <div className="ml-auto">
+            <div className="ml-auto flex items-center gap-2">
+              <OriginPicker
+                value={originParam}
+                origin={origin}
+                onChange={(value) => void setOriginParam(value)}
+              />
+              <TripButton origin={originParam} />
+              <WatchlistButton />
+              <Button asChild variant="outline" size="icon">
+                <Link href="/yards">
+                  <Warehouse className="h-[1.2rem] w-[1.2rem]" />
+                  <span className="sr-only">Yards</span>
+                </Link>
+              </Button>
+              <InboxButton />
               <ThemeToggle />
             </div>
           </div>
@@ -378,8 +692,17 @@ function SearchPageContent() {
             onChange={handleQueryChange}
             onSearch={handleSearch}
             placeholder="Enter year, make, model (e.g., '2018 Honda Civic' or 'Toyota')"
-            isLoading={searchLoading}
+            isLoading={isSearching}
+            errors={debouncedQuery === query ? parsedQuery.errors : []}
+            recentSearches={recentSearches}
+            onClearRecentSearches={clearRecentSearches}
           />
+          <div className="mt-3">
+            <MakeModelPicker
+              state={states.length === 1 ? states[0] : undefined}
+              onSelect={handleQueryChange}
+            />
+          </div>
         </div>
 
         <div className="relative flex w-full gap-6">
@@ -393,18 +716,25 @@ function SearchPageContent() {
                 clearAllFilters={clearAllFilters}
                 makes={makes}
                 colors={colors}
+                engines={engines}
                 states={states}
                 salvageYards={salvageYards}
+                models={models}
+                maxDistance={maxDistance}
+                arrivedWithin={arrivedWithin}
+                arrivalDates={[arrivedFrom, arrivedTo]}
                 yearRange={yearRange}
-                filterOptions={filterOptions}
-                onMakesChange={setMakes}
-                onColorsChange={setColors}
-                onStatesChange={setStates}
+                facets={facets}
+                onMakesChange={(makes) => updateSyncedFilters({ makes })}
+                onColorsChange={(colors) => updateSyncedFilters({ colors })}
+                onEnginesChange={setEngines}
+                onStatesChange={(states) => updateSyncedFilters({ states })}
                 onSalvageYardsChange={setSalvageYards}
-                onYearRangeChange={(range: [number, number]) => {
-                  setMinYear(range[0]);
-                  setMaxYear(range[1]);
-                }}
+                onModelsChange={setModels}
+                onMaxDistanceChange={setMaxDistance}
+                onArrivedWithinChange={handleArrivedWithinChange}
+                onArrivalDatesChange={handleArrivalDatesChange}
+                onYearRangeChange={handleYearRangeChange}
                 yearRangeLimits={{
                   min: dataMinYear,
                   max: currentYear,
@@ -416,9 +746,9 @@ function SearchPageContent() {
           {/* Main Content */}
           <div className="w-full flex-1">
             {/* Search Results Header */}
-            {searchLoading && !filteredSearchResult ? (
-              <SearchResultsHeaderSkeleton />
-            ) : filteredSearchResult ? (
+            {searchLoading && !searchResults ? (
+              <SearchResultsHeaderSkeleton progress={searchProgress} />
+            ) : searchResults ? (
               <div className="mb-6">
                 <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
                   <div>
@@ -426,24 +756,91 @@ function SearchPageContent() {
                       Search Results
                     </h2>
                     <p className="text-muted-foreground">
-                      {filteredSearchResult.totalCount.toLocaleString()}{" "}
-                      vehicles found
-                      {filteredSearchResult.totalCount !==
-                        searchResults?.totalCount && (
-                        <span className="text-muted-foreground text-sm">
-                          {" "}
-                          (filtered from{" "}
-                          {searchResults?.totalCount.toLocaleString()})
-                        </span>
-                      )}
+                      {searchResults.totalCount.toLocaleString()} vehicles found
                     </p>
+                    {searchResults.rewrite && (
+                      <p className="text-muted-foreground text-sm">
+                        Showing results for{" "}
+                        {searchResults.rewrite.queries.map(
+                          (rewrittenQuery, index) => (
+                            <span key={rewrittenQuery}>
+                              {index > 0 && " or "}
+                              <span className="text-foreground font-medium">
+                                {rewrittenQuery}
+                              </span>
+                            </span>
+                          ),
+                        )}
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-4">
+                    <SaveSearchDialog
+                      query={query}
+                      filters={{
+                        makes,
+                        colors,
+                        engines,
+                        states,
+                        salvageYards,
+                        models,
+                        minYear: minYearParam,
+                        maxYear: maxYearParam,
+                        maxDistance,
+                        arrived: arrivedWithin,
+                        arrivedFrom:
+                          arrivedFrom?.toISOString().slice(0, 10) ?? null,
+                        arrivedTo:
+                          arrivedTo?.toISOString().slice(0, 10) ?? null,
+                        sort: sortBy,
+                        origin: origin
+                          ? { lat: origin.lat, lng: origin.lng }
+                          : null,
+                      }}
+                    />
+                    {favoriteLocations.length > 0 ? (
+                      <Button
+                        variant={myYardsOnly ? "secondary" : "outline"}
+                        className="flex items-center gap-2"
+                        aria-pressed={myYardsOnly}
+                        onClick={() => void setMyYardsOnly(!myYardsOnly)}
+                      >
+                        <Star
+                          className={
+                            myYardsOnly ? "h-4 w-4 fill-current" : "h-4 w-4"
+                          }
+                        />
+                        <span className="hidden sm:inline">My yards only</span>
+                      </Button>
+                    ) : (
+                      <Button
+                        asChild
+                        variant="outline"
+                        className="flex items-center gap-2 bg-transparent"
+                      >
+                        <Link href="/yards">
+                          <Star className="h-4 w-4" />
+                          <span className="hidden sm:inline">
+                            Pick my yards
+                          </span>
+                        </Link>
+                      </Button>
+                    )}
+                    <ExportDialog
+                      input={searchInput}
+                      totalCount={searchResults.totalCount}
+                    />
+                    <DefaultFiltersMenu
+                      filters={serializedFilters}
+                      pinned={defaultFilters}
+                      onPin={pinDefaultFilters}
+                    />
+
                     {/* Sort */}
                     <Select
                       value={sortBy}
-                      onValueChange={(value) => setSortBy(value)}
+                      onValueChange={(value) => setSortBy(value as SearchSort)}
                     >
                       <SelectTrigger className="w-fit">
                         <div className="flex items-center gap-2">
@@ -478,18 +875,31 @@ function SearchPageContent() {
                         clearAllFilters={clearAllFilters}
                         makes={makes}
                         colors={colors}
+                        engines={engines}
                         states={states}
                         salvageYards={salvageYards}
+                        models={models}
+                        maxDistance={maxDistance}
+                        arrivedWithin={arrivedWithin}
+                        arrivalDates={[arrivedFrom, arrivedTo]}
                         yearRange={yearRange}
-                        filterOptions={filterOptions}
-                        onMakesChange={setMakes}
-                        onColorsChange={setColors}
-                        onStatesChange={setStates}
+                        facets={facets}
+                        onMakesChange={(makes) =>
+                          updateSyncedFilters({ makes })
+                        }
+                        onColorsChange={(colors) =>
+                          updateSyncedFilters({ colors })
+                        }
+                        onEnginesChange={setEngines}
+                        onStatesChange={(states) =>
+                          updateSyncedFilters({ states })
+                        }
                         onSalvageYardsChange={setSalvageYards}
-                        onYearRangeChange={(range: [number, number]) => {
-                          setMinYear(range[0]);
-                          setMaxYear(range[1]);
-                        }}
+                        onModelsChange={setModels}
+                        onMaxDistanceChange={setMaxDistance}
+                        onArrivedWithinChange={handleArrivedWithinChange}
+                        onArrivalDatesChange={handleArrivalDatesChange}
+                        onYearRangeChange={handleYearRangeChange}
                         yearRangeLimits={{
                           min: dataMinYear,
                           max: currentYear,
@@ -515,10 +925,24 @@ function SearchPageContent() {
 
                 {/* Search Stats */}
                 <div className="text-muted-foreground mb-6 flex items-center justify-between text-sm">
-                  <span>
-                    Searched {searchResults?.locationsCovered} locations in{" "}
-                    {searchResults?.searchTime}ms
-                  </span>
+                  {isSearching ? (
+                    <SearchProgress progress={searchProgress} />
+                  ) : (
+                    <>
+                      <span>
+                        Searched {searchResults?.locationsCovered} locations in{" "}
+                        {searchResults?.searchTime}ms
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleLiveRefresh}
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                        Refresh live
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
             ) : null}
@@ -551,17 +975,23 @@ function SearchPageContent() {
             )}
 
             {/* Search Results */}
-            {(filteredSearchResult ?? searchLoading) && (
+            {(searchResults ?? searchLoading) && (
               <SearchResults
                 searchResult={
-                  filteredSearchResult ?? {
+                  searchResults ?? {
                     vehicles: [],
                     totalCount: 0,
                     page: 1,
                     hasMore: false,
                     searchTime: 0,
                     locationsCovered: 0,
+                    queriedLocations: [],
                     locationsWithErrors: [],
+                    pagesFetched: 0,
+                    truncatedLocations: [],
+                    rewrite: null,
+                    nextCursor: null,
+                    facets,
                   }
                 }
                 isLoading={searchLoading}
@@ -569,10 +999,23 @@ function SearchPageContent() {
               />
             )}
 
+            {/* Load More */}
+            {hasMorePages && !isSearching && (
+              <div className="mt-6 flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={loadMore}
+                  disabled={isFetchingMore}
+                >
+                  {isFetchingMore ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
+
             {/* No Results */}
             {debouncedQuery &&
-              filteredSearchResult?.totalCount === 0 &&
-              !searchLoading && (
+              searchResults?.totalCount === 0 &&
+              !isSearching && (
                 <div className="py-12 text-center">
                   <div className="bg-muted mx-auto mb-4 flex h-24 w-24 items-center justify-center rounded-full">
                     <AlertCircle className="text-muted-foreground h-12 w-12" />
@@ -581,7 +1024,7 @@ function SearchPageContent() {
                     No vehicles found
                   </h2>
                   <p className="text-muted-foreground mx-auto mb-6 max-w-md">
-                    {searchResults?.totalCount === 0
+                    {activeFilterCount === 0
                       ? "No vehicles match your search. Try different search terms."
                       : "No vehicles match your current filters. Try adjusting your filters."}
                   </p>
@@ -595,15 +1038,31 @@ function SearchPageContent() {
           </div>
         </div>
 
-        {filteredSearchResult && (
-          <SearchSummary searchResult={filteredSearchResult} />
-        )}
+        {searchResults && <SearchSummary searchResult={searchResults} />}
       </div>
     </div>
   );
 }
 
-function SearchResultsHeaderSkeleton() {
+function SearchProgress({
+  progress,
+}: {
+  progress: SearchStreamChunk | undefined;
+}) {
+  return (
+    <span>
+      {progress?.locationsSearched ?? 0} of {progress?.totalLocations ?? "?"}{" "}
+      yards searched, {(progress?.vehiclesFound ?? 0).toLocaleString()} vehicles
+      so far
+    </span>
+  );
+}
+
+function SearchResultsHeaderSkeleton({
+  progress,
+}: {
+  progress: SearchStreamChunk | undefined;
+}) {
   return (
     <div className="mb-6">
       <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -616,8 +1075,12 @@ function SearchResultsHeaderSkeleton() {
           <Skeleton className="h-10 w-24" />
         </div>
       </div>
-      <div className="mb-6 flex items-center justify-between text-sm">
-        <Skeleton className="h-4 w-48" />
+      <div className="text-muted-foreground mb-6 flex items-center justify-between text-sm">
+        {progress ? (
+          <SearchProgress progress={progress} />
+        ) : (
+          <Skeleton className="h-4 w-48" />
+        )}
       </div>
     </div>
   );
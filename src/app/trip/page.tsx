@@ -0,0 +1,263 @@
+"use client";
+
+import {
+  ArrowLeft,
+  ExternalLink,
+  Flag,
+  MapPin,
+  Navigation,
+  Route,
+  Trash2,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { useQueryState } from "nuqs";
+import { Suspense, useMemo } from "react";
+import { ErrorBoundary } from "~/components/ErrorBoundary";
+import { OriginPicker } from "~/components/search/OriginPicker";
+import { ThemeToggle } from "~/components/theme/theme-toggle";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { useTrip } from "~/hooks/use-trip";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
+import { HOME_ORIGIN, resolveOrigin } from "~/lib/origin";
+import { searchParamsParsers } from "~/lib/search-params";
+import { getVehicleKey, planTrip } from "~/lib/trip";
+import type { TripStop, Vehicle } from "~/lib/types";
+
+function formatMiles(miles: number): string {
+  return `${Math.round(miles).toLocaleString("en-US")} mi`;
+}
+
+function formatYardPosition(vehicle: Vehicle): string {
+  const { section, row, space } = vehicle.yardLocation;
+  return (
+    [
+      section && `Section ${section}`,
+      row && `Row ${row}`,
+      space && `Space ${space}`,
+    ]
+      .filter(Boolean)
+      .join(" · ") || "Position unknown"
+  );
+}
+
+interface TripStopCardProps {
+  stop: TripStop;
+  number: number;
+  onRemove: (vehicle: Vehicle) => void;
+}
+
+function TripStopCard({ stop, number, onRemove }: TripStopCardProps) {
+  const { location } = stop;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="flex items-center gap-2">
+              <Badge className="h-6 min-w-6 rounded-full tabular-nums">
+                {number}
+              </Badge>
+              {location.displayName}, {location.stateAbbr}
+            </CardTitle>
+            <CardDescription className="mt-1">
+              {location.address}, {location.city} ·{" "}
+              {formatMiles(stop.milesFromPrevious)} from the last stop
+            </CardDescription>
+          </div>
+          <Button asChild variant="outline" size="sm" className="shrink-0">
+            <Link
+              href={location.urls.directions}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Navigation className="h-4 w-4" />
+              Directions
+            </Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {stop.vehicles.map((vehicle) => (
+          <div
+            key={getVehicleKey(vehicle)}
+            className="flex items-center justify-between gap-4 rounded-md border p-3"
+          >
+            <div className="min-w-0">
+              <p className="truncate font-medium">
+                {vehicle.year} {vehicle.make} {vehicle.model}
+              </p>
+              <p className="text-muted-foreground text-xs">
+                {formatYardPosition(vehicle)} · Stock #{vehicle.stockNumber}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+              <Button asChild variant="ghost" size="icon">
+                <Link
+                  href={vehicle.detailsUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  <span className="sr-only">View details</span>
+                </Link>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(vehicle)}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove from trip</span>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TripPageContent() {
+  const [originParam, setOriginParam] = useQueryState(
+    "origin",
+    searchParamsParsers.origin,
+  );
+  const { preferences } = useUserPreferences();
+  const { vehicles, toggleVehicle, clearTrip } = useTrip();
+
+  // Trips start from the saved home unless another origin is picked
+  const origin = useMemo(
+    () =>
+      resolveOrigin(
+        originParam ?? (preferences.location ? HOME_ORIGIN : null),
+        preferences,
+      ),
+    [originParam, preferences],
+  );
+  const plan = useMemo(
+    () => (origin ? planTrip(origin, vehicles) : null),
+    [origin, vehicles],
+  );
+
+  return (
+    <div className="bg-background min-h-screen">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <div className="flex items-center space-x-4">
+              <Button asChild variant="ghost" size="icon">
+                <Link
+                  href={
+                    originParam
+                      ? `/search?origin=${encodeURIComponent(originParam)}`
+                      : "/search"
+                  }
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  <span className="sr-only">Back to search</span>
+                </Link>
+              </Button>
+              <h1 className="text-foreground text-xl font-bold">Trip</h1>
+            </div>
+            <div className="ml-auto flex items-center gap-2">
+              <OriginPicker
+                value={originParam}
+                origin={origin}
+                onChange={(value) => void setOriginParam(value)}
+              />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-3xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {vehicles.length === 0 && (
+          <div className="py-12 text-center">
+            <div className="bg-muted mx-auto mb-4 flex h-24 w-24 items-center justify-center rounded-full">
+              <Route className="text-muted-foreground h-12 w-12" />
+            </div>
+            <p className="text-muted-foreground">
+              No vehicles on this trip yet. Use &quot;Add to Trip&quot; on
+              search results to plan a route.
+            </p>
+          </div>
+        )}
+
+        {vehicles.length > 0 && !plan && (
+          <Alert>
+            <MapPin className="h-4 w-4" />
+            <AlertTitle>Where are you starting from?</AlertTitle>
+            <AlertDescription>
+              Set a location in the header to order the yards on this trip.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {vehicles.length > 0 && plan && origin && (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-foreground text-2xl font-black">
+                  {formatMiles(plan.totalMiles)}
+                </h2>
+                <p className="text-muted-foreground text-sm">
+                  {vehicles.length}{" "}
+                  {vehicles.length === 1 ? "vehicle" : "vehicles"} at{" "}
+                  {plan.stops.length}{" "}
+                  {plan.stops.length === 1 ? "yard" : "yards"}, as the crow
+                  flies. Driving is longer.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={clearTrip}>
+                <Trash2 className="h-4 w-4" />
+                Clear trip
+              </Button>
+            </div>
+
+            <div className="text-muted-foreground flex items-center gap-2 text-sm">
+              <MapPin className="h-4 w-4" />
+              Start at {origin.label}
+            </div>
+
+            {plan.stops.map((stop, index) => (
+              <TripStopCard
+                key={`${stop.location.source}:${stop.location.locationCode}`}
+                stop={stop}
+                number={index + 1}
+                onRemove={toggleVehicle}
+              />
+            ))}
+
+            <div className="text-muted-foreground flex items-center gap-2 text-sm">
+              <Flag className="h-4 w-4" />
+              Back to {origin.label} · {formatMiles(plan.returnMiles)}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TripPage() {
+  return (
+    <ErrorBoundary>
+      <Suspense>
+        <TripPageContent />
+      </Suspense>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import {
+  ArrowLeft,
+  CarFront,
+  ExternalLink,
+  Navigation,
+  Phone,
+  Store,
+} from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, use, useState } from "react";
+import { ErrorBoundary } from "~/components/ErrorBoundary";
+import {
+  getImageLabel,
+  ImageLightbox,
+} from "~/components/search/ImageLightbox";
+import { VehicleCard } from "~/components/search/VehicleCard";
+import { ThemeToggle } from "~/components/theme/theme-toggle";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Skeleton } from "~/components/ui/skeleton";
+import imageLoader from "~/lib/imageLoader";
+import type { Vehicle, VehicleImage } from "~/lib/types";
+import { getEngineLabel } from "~/lib/vin";
+import { api } from "~/trpc/react";
+
+// Gallery sections, in the order they're shown
+const IMAGE_GROUPS: Array<{ label: string; types: VehicleImage["type"][] }> = [
+  {
+    label: "Exterior",
+    types: [
+      "CAR-FRONT-LEFT",
+      "CAR-FRONT",
+      "CAR-FRONT-RIGHT",
+      "CAR-RIGHT",
+      "CAR-BACK-RIGHT",
+      "CAR-BACK",
+      "CAR-BACK-LEFT",
+      "CAR-LEFT",
+    ],
+  },
+  { label: "Engine", types: ["ENGINE"] },
+  { label: "Interior", types: ["INTERIOR"] },
+  { label: "Other", types: ["OTHER"] },
+];
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return isNaN(date.getTime())
+    ? "Date unknown"
+    : date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      });
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="text-right">{value}</span>
+    </div>
+  );
+}
+
+function VehicleGallery({ vehicle }: { vehicle: Vehicle }) {
+  const title = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+  const groups = IMAGE_GROUPS.map((group) => ({
+    label: group.label,
+    images: group.types.flatMap((type) =>
+      vehicle.images.filter((image) => image.type === type),
+    ),
+  })).filter((group) => group.images.length > 0);
+  // The lightbox steps through the photos in the order they're shown
+  const orderedImages = groups.flatMap((group) => group.images);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  if (groups.length === 0) {
+    return (
+      <div className="bg-muted flex aspect-video items-center justify-center rounded-xl">
+        <p className="text-muted-foreground text-sm">No Images Available</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <section key={group.label}>
+          <h2 className="text-foreground mb-3 text-lg font-semibold">
+            {group.label}
+          </h2>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {group.images.map((image) => (
+              <button
+                key={image.url}
+                type="button"
+                onClick={() => setLightboxIndex(orderedImages.indexOf(image))}
+                className="bg-muted relative aspect-video cursor-zoom-in overflow-hidden rounded-lg"
+              >
+                <Image
+                  loader={imageLoader}
+                  src={image.url}
+                  alt={`${title}, ${getImageLabel(image.type).toLowerCase()}`}
+                  fill
+                  className="object-cover"
+                  sizes="(max-width: 640px) 100vw, 33vw"
+                />
+              </button>
+            ))}
+          </div>
+        </section>
+      ))}
+      <ImageLightbox
+        images={orderedImages}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        title={title}
+      />
+    </div>
+  );
+}
+
+function SimilarVehicles({ vehicle }: { vehicle: Vehicle }) {
+  const { data: similar } = api.vehicles.getSimilar.useQuery({
+    source: vehicle.source,
+    locationCode: vehicle.location.locationCode,
+    vehicleId: vehicle.id,
+    make: vehicle.make,
+    model: vehicle.model,
+    year: vehicle.year,
+  });
+
+  if (!similar || similar.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-foreground mb-4 text-2xl font-black">
+        Similar at {vehicle.location.displayName}
+      </h2>
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
+        {similar.map((other) => (
+          <VehicleCard key={other.id} vehicle={other} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function VehicleDetails({ vehicle }: { vehicle: Vehicle }) {
+  const { location, decoded, yardLocation } = vehicle;
+  const { data: history } = api.vehicles.getHistory.useQuery({
+    source: vehicle.source,
+    locationCode: location.locationCode,
+    stockNumber: vehicle.stockNumber || vehicle.id,
+  });
+
+  const decodedRows = [
+    ["Engine", getEngineLabel(decoded)],
+    ["Body", decoded?.body],
+    ["Trim", decoded?.trim],
+    ["Manufacturer", decoded?.manufacturer],
+    ["Built in", [decoded?.plant, decoded?.country].filter(Boolean).join(", ")],
+  ].filter((row): row is [string, string] => Boolean(row[1]));
+
+  return (
+    <div className="space-y-8">
+      {history?.removedAt && (
+        <Alert variant="destructive">
+          <CarFront className="h-4 w-4" />
+          <AlertTitle>No longer on the lot</AlertTitle>
+          <AlertDescription>
+            The yard stopped listing this vehicle on{" "}
+            {formatDate(history.removedAt)}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-8 lg:grid-cols-[1fr_22rem]">
+        <VehicleGallery vehicle={vehicle} />
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Where to find it</CardTitle>
+              <CardDescription>
+                {location.displayName}, {location.stateAbbr}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {(
+                  [
+                    ["Section", yardLocation.section],
+                    ["Row", yardLocation.row],
+                    ["Space", yardLocation.space],
+                  ] as const
+                ).map(([label, value]) => (
+                  <div key={label} className="rounded-md border p-2">
+                    <p className="text-muted-foreground text-xs">{label}</p>
+                    <p className="text-lg font-bold">{value || "?"}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Vehicle</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <DetailRow label="Stock #" value={vehicle.stockNumber} />
+              <DetailRow label="VIN" value={vehicle.vin || "N/A"} />
+              <DetailRow label="Color" value={vehicle.color} />
+              <DetailRow
+                label="Available"
+                value={formatDate(vehicle.availableDate)}
+              />
+              {vehicle.firstSeenAt && (
+                <DetailRow
+                  label="First seen"
+                  value={formatDate(vehicle.firstSeenAt)}
+                />
+              )}
+              {decodedRows.map(([label, value]) => (
+                <DetailRow key={label} label={label} value={value} />
+              ))}
+              {decoded && !decoded.checkDigitValid && (
+                <p className="text-destructive text-xs">
+                  VIN check digit doesn&apos;t match, decoded details may be
+                  wrong
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Yard</CardTitle>
+              <CardDescription>
+                {location.address}, {location.city}, {location.stateAbbr}{" "}
+                {location.zip}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-2">
+              {location.phone && (
+                <Button asChild variant="outline" className="justify-start">
+                  <a href={`tel:${location.phone}`}>
+                    <Phone className="h-4 w-4" />
+                    {location.phone}
+                  </a>
+                </Button>
+              )}
+              <Button asChild variant="outline" className="justify-start">
+                <Link
+                  href={location.urls.directions}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Navigation className="h-4 w-4" />
+                  Directions
+                </Link>
+              </Button>
+              <Button asChild variant="outline" className="justify-start">
+                <Link
+                  href={location.urls.store}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Store className="h-4 w-4" />
+                  Hours and store info
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>On LKQ</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-2">
+              {(
+                [
+                  ["Vehicle listing", vehicle.detailsUrl],
+                  ["Find parts", vehicle.partsUrl],
+                  ["Part prices", vehicle.pricesUrl],
+                ] as const
+              ).map(([label, href]) => (
+                <Button
+                  key={label}
+                  asChild
+                  variant="outline"
+                  className="justify-start"
+                >
+                  <Link href={href} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                    {label}
+                  </Link>
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <SimilarVehicles vehicle={vehicle} />
+    </div>
+  );
+}
+
+function VehiclePageContent({
+  locationCode,
+  id,
+}: {
+  locationCode: string;
+  id: string;
+}) {
+  const source = useSearchParams().get("source") ?? undefined;
+  const { data: vehicle, isLoading } = api.vehicles.getById.useQuery({
+    locationCode,
+    vehicleId: id,
+    source,
+  });
+
+  return (
+    <div className="bg-background min-h-screen">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <div className="flex min-w-0 items-center space-x-4">
+              <Button asChild variant="ghost" size="icon">
+                <Link href="/search">
+                  <ArrowLeft className="h-4 w-4" />
+                  <span className="sr-only">Back to search</span>
+                </Link>
+              </Button>
+              <h1 className="text-foreground truncate text-xl font-bold">
+                {vehicle
+                  ? `${vehicle.year} ${vehicle.make} ${vehicle.model}`
+                  : "Vehicle"}
+              </h1>
+            </div>
+            <div className="ml-auto">
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {isLoading && (
+          <div className="grid gap-8 lg:grid-cols-[1fr_22rem]">
+            <Skeleton className="aspect-video w-full" />
+            <Skeleton className="h-96 w-full" />
+          </div>
+        )}
+
+        {!isLoading && !vehicle && (
+          <div className="py-12 text-center">
+            <div className="bg-muted mx-auto mb-4 flex h-24 w-24 items-center justify-center rounded-full">
+              <CarFront className="text-muted-foreground h-12 w-12" />
+            </div>
+            <p className="text-muted-foreground">
+              We couldn&apos;t find this vehicle at this yard.
+            </p>
+          </div>
+        )}
+
+        {vehicle && <VehicleDetails vehicle={vehicle} />}
+      </div>
+    </div>
+  );
+}
+
+export default function VehiclePage({
+  params,
+}: {
+  params: Promise<{ locationCode: string; id: string }>;
+}) {
+  const { locationCode, id } = use(params);
+
+  return (
+    <ErrorBoundary>
+      <Suspense>
+        <VehiclePageContent locationCode={locationCode} id={id} />
+      </Suspense>
+    </ErrorBoundary>
+  );
+}
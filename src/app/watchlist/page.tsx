@@ -0,0 +1,268 @@
+"use client";
+
+import {
+  ArrowLeft,
+  CarFront,
+  Copy,
+  RefreshCw,
+  Star,
+  Trash2,
+} from "lucide-react";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { ErrorBoundary } from "~/components/ErrorBoundary";
+import { VehicleCard } from "~/components/search/VehicleCard";
+import { ThemeToggle } from "~/components/theme/theme-toggle";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { useWatchlist } from "~/hooks/use-watchlist";
+import type { WatchStatus } from "~/lib/types";
+import { getWatchKey, getWatchRef } from "~/lib/watchlist";
+import { api } from "~/trpc/react";
+
+const STATUS_BADGES: Record<
+  WatchStatus,
+  { label: string; variant: "default" | "destructive" | "outline" }
+> = {
+  listed: { label: "Still listed", variant: "default" },
+  gone: { label: "Gone", variant: "destructive" },
+  unknown: { label: "Couldn't check", variant: "outline" },
+};
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+interface SyncCodeFormProps {
+  syncCode: string;
+  onUseCode: (syncCode: string) => void;
+}
+
+/**
+ * This browser's sync code, to copy to other devices, and a field to
+ * join the list of another device instead
+ */
+function SyncCodeForm({ syncCode, onUseCode }: SyncCodeFormProps) {
+  const [otherCode, setOtherCode] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onUseCode(otherCode.trim());
+    setOtherCode("");
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="watchlist-sync-code">Sync code</Label>
+        <div className="flex gap-2">
+          <Input id="watchlist-sync-code" value={syncCode} readOnly />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => {
+              void navigator.clipboard.writeText(syncCode).then(() => {
+                toast.success("Sync code copied", {
+                  description:
+                    "Enter it on your other devices to share this watchlist. Keep it private.",
+                });
+              });
+            }}
+          >
+            <Copy className="h-4 w-4" />
+            <span className="sr-only">Copy sync code</span>
+          </Button>
+        </div>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Label htmlFor="watchlist-other-code">
+          Sync code from another device
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            id="watchlist-other-code"
+            value={otherCode}
+            onChange={(e) => setOtherCode(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!otherCode.trim()}>
+            Use code
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function WatchlistPageContent() {
+  const {
+    watchlist,
+    syncWatchlist,
+    watchlistSyncCode,
+    clearWatchlist,
+    setSyncWatchlist,
+    loadSyncedWatchlist,
+  } = useWatchlist();
+
+  // Pick up what other devices starred
+  const { data: synced } = api.watchlist.getAll.useQuery(
+    { syncCode: watchlistSyncCode ?? "" },
+    { enabled: syncWatchlist && !!watchlistSyncCode },
+  );
+  useEffect(() => {
+    if (synced) loadSyncedWatchlist(synced);
+  }, [synced, loadSyncedWatchlist]);
+
+  const refs = useMemo(
+    () => watchlist.map(({ vehicle }) => getWatchRef(vehicle)),
+    [watchlist],
+  );
+  const {
+    data: checks,
+    isFetching: isChecking,
+    refetch: checkAgain,
+  } = api.watchlist.check.useQuery(
+    { vehicles: refs },
+    { enabled: refs.length > 0 },
+  );
+  const statuses = useMemo(
+    () => new Map(checks?.map((check) => [getWatchKey(check), check.status])),
+    [checks],
+  );
+  const goneCount = checks?.filter((check) => check.status === "gone").length;
+
+  return (
+    <div className="bg-background min-h-screen">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <div className="flex items-center space-x-4">
+              <Button asChild variant="ghost" size="icon">
+                <Link href="/search">
+                  <ArrowLeft className="h-4 w-4" />
+                  <span className="sr-only">Back to search</span>
+                </Link>
+              </Button>
+              <h1 className="text-foreground text-xl font-bold">Watchlist</h1>
+            </div>
+            <div className="ml-auto">
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-7xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="sync-watchlist"
+              checked={syncWatchlist}
+              onCheckedChange={(checked) =>
+                void setSyncWatchlist(checked === true)
+              }
+            />
+            <Label htmlFor="sync-watchlist" className="text-sm">
+              Sync this watchlist to the server
+            </Label>
+          </div>
+          {watchlist.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isChecking}
+                onClick={() => void checkAgain()}
+              >
+                <RefreshCw
+                  className={isChecking ? "h-4 w-4 animate-spin" : "h-4 w-4"}
+                />
+                Check again
+              </Button>
+              <Button variant="outline" size="sm" onClick={clearWatchlist}>
+                <Trash2 className="h-4 w-4" />
+                Clear watchlist
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {syncWatchlist && watchlistSyncCode && (
+          <SyncCodeForm
+            syncCode={watchlistSyncCode}
+            onUseCode={(code) => void setSyncWatchlist(true, code)}
+          />
+        )}
+
+        {watchlist.length === 0 && (
+          <div className="py-12 text-center">
+            <div className="bg-muted mx-auto mb-4 flex h-24 w-24 items-center justify-center rounded-full">
+              <Star className="text-muted-foreground h-12 w-12" />
+            </div>
+            <p className="text-muted-foreground">
+              No watched vehicles yet. Star vehicles in search results to keep
+              an eye on them.
+            </p>
+          </div>
+        )}
+
+        {!!goneCount && (
+          <Alert variant="destructive">
+            <CarFront className="h-4 w-4" />
+            <AlertTitle>
+              {goneCount} watched{" "}
+              {goneCount === 1 ? "vehicle is" : "vehicles are"} gone
+            </AlertTitle>
+            <AlertDescription>
+              Their yards no longer list them. Unstar them to tidy up.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {watchlist.map(({ vehicle, addedAt }) => {
+            const key = getWatchKey(getWatchRef(vehicle));
+            const status = statuses.get(key);
+
+            return (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    Starred {formatDate(addedAt)}
+                  </span>
+                  {status ? (
+                    <Badge variant={STATUS_BADGES[status].variant}>
+                      {STATUS_BADGES[status].label}
+                    </Badge>
+                  ) : (
+                    isChecking && <Badge variant="outline">Checking…</Badge>
+                  )}
+                </div>
+                <div className={status === "gone" ? "opacity-60" : undefined}>
+                  <VehicleCard vehicle={vehicle} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function WatchlistPage() {
+  return (
+    <ErrorBoundary>
+      <WatchlistPageContent />
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { ArrowLeft, Navigation, Phone, Search, Star } from "lucide-react";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { ErrorBoundary } from "~/components/ErrorBoundary";
+import { ThemeToggle } from "~/components/theme/theme-toggle";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Skeleton } from "~/components/ui/skeleton";
+import { useFavoriteYards } from "~/hooks/use-favorite-yards";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
+import { serializeSearchParams } from "~/lib/search-params";
+import type { Location } from "~/lib/types";
+import { calculateDistance, cn } from "~/lib/utils";
+import { api } from "~/trpc/react";
+
+interface YardRowProps {
+  location: Location;
+  favorite: boolean;
+  onToggleFavorite: (locationCode: string) => void;
+  home?: [number, number]; // Saved home, to show how far away the yard is
+}
+
+function YardRow({ location, favorite, onToggleFavorite, home }: YardRowProps) {
+  const miles = home
+    ? calculateDistance(home[0], home[1], location.lat, location.lng)
+    : null;
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="shrink-0"
+        aria-pressed={favorite}
+        onClick={() => onToggleFavorite(location.locationCode)}
+      >
+        <Star
+          className={cn(
+            "h-5 w-5",
+            favorite && "fill-yellow-400 text-yellow-400",
+          )}
+        />
+        <span className="sr-only">
+          {favorite ? "Remove from my yards" : "Add to my yards"}
+        </span>
+      </Button>
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium">
+          {location.displayName}, {location.stateAbbr}
+        </p>
+        <p className="text-muted-foreground truncate text-xs">
+          {location.address}, {location.city} {location.zip}
+          {miles !== null && ` · ${Math.round(miles).toLocaleString()} mi`}
+        </p>
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        <Button asChild variant="ghost" size="icon">
+          <Link
+            href={serializeSearchParams("/search", { yards: [location.name] })}
+          >
+            <Search className="h-4 w-4" />
+            <span className="sr-only">Search this yard</span>
+          </Link>
+        </Button>
+        {location.phone && (
+          <Button asChild variant="ghost" size="icon">
+            <a href={`tel:${location.phone}`}>
+              <Phone className="h-4 w-4" />
+              <span className="sr-only">Call {location.phone}</span>
+            </a>
+          </Button>
+        )}
+        <Button asChild variant="ghost" size="icon">
+          <Link
+            href={location.urls.directions}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <Navigation className="h-4 w-4" />
+            <span className="sr-only">Directions</span>
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function YardsPageContent() {
+  const { data: locations, isLoading } = api.locations.getAll.useQuery();
+  const { favoriteLocations, isFavorite, toggleFavorite } = useFavoriteYards();
+  const { preferences } = useUserPreferences();
+  const [filter, setFilter] = useState("");
+
+  // Yards matching the filter, grouped by state in alphabetical order
+  const { favorites, byState } = useMemo(() => {
+    const typed = filter.trim().toLowerCase();
+    const matching = (locations ?? [])
+      .filter((location) =>
+        [location.displayName, location.city, location.state, location.zip]
+          .join(" ")
+          .toLowerCase()
+          .includes(typed),
+      )
+      .sort(
+        (a, b) =>
+          a.state.localeCompare(b.state) ||
+          a.displayName.localeCompare(b.displayName),
+      );
+
+    const groups = new Map<string, Location[]>();
+    matching.forEach((location) => {
+      groups.set(location.state, [
+        ...(groups.get(location.state) ?? []),
+        location,
+      ]);
+    });
+    return {
+      favorites: matching.filter((location) =>
+        isFavorite(location.locationCode),
+      ),
+      byState: [...groups],
+    };
+  }, [locations, filter, isFavorite]);
+
+  const renderRow = (location: Location) => (
+    <YardRow
+      key={`${location.source}:${location.locationCode}`}
+      location={location}
+      favorite={isFavorite(location.locationCode)}
+      onToggleFavorite={toggleFavorite}
+      home={preferences.location}
+    />
+  );
+
+  return (
+    <div className="bg-background min-h-screen">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <div className="flex items-center space-x-4">
+              <Button asChild variant="ghost" size="icon">
+                <Link href="/search">
+                  <ArrowLeft className="h-4 w-4" />
+                  <span className="sr-only">Back to search</span>
+                </Link>
+              </Button>
+              <h1 className="text-foreground text-xl font-bold">Yards</h1>
+            </div>
+            <div className="ml-auto">
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-3xl space-y-8 px-4 py-8 sm:px-6 lg:px-8">
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by name, city, state or ZIP"
+          aria-label="Filter yards"
+        />
+
+        {isLoading && (
+          <div className="space-y-2">
+            {Array.from({ length: 6 }, (_, index) => (
+              <Skeleton key={index} className="h-16 w-full" />
+            ))}
+          </div>
+        )}
+
+        <section className="space-y-2">
+          <h2 className="text-foreground text-2xl font-black">My yards</h2>
+          {favorites.map(renderRow)}
+          {favoriteLocations.length === 0 && (
+            <p className="text-muted-foreground text-sm">
+              Star the yards you drive to. They&apos;re searched first, and
+              &quot;My yards only&quot; on the search page searches just them.
+            </p>
+          )}
+        </section>
+
+        {byState.map(([state, stateLocations]) => (
+          <section key={state} className="space-y-2">
+            <h2 className="text-foreground text-lg font-semibold">{state}</h2>
+            {stateLocations.map(renderRow)}
+          </section>
+        ))}
+
+        {!isLoading && byState.length === 0 && (
+          <p className="text-muted-foreground py-12 text-center">
+            No yards match &quot;{filter}&quot;.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function YardsPage() {
+  return (
+    <ErrorBoundary>
+      <YardsPageContent />
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { Bell } from "lucide-react";
+import Link from "next/link";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { api } from "~/trpc/react";
+
+export function InboxButton() {
+  const { data: unreadCount } = api.alerts.getUnreadCount.useQuery(undefined, {
+    refetchInterval: 60 * 1000, // Pick up alerts from the scheduled job
+  });
+
+  return (
+    <Button asChild variant="outline" size="icon" className="relative">
+      <Link href="/inbox">
+        <Bell className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">Inbox</span>
+        {!!unreadCount && unreadCount > 0 && (
+          <Badge className="absolute -top-1 -right-1 h-5 min-w-5 rounded-full px-1 text-xs tabular-nums">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </Badge>
+        )}
+      </Link>
+    </Button>
+  );
+}
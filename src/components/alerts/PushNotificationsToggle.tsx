@@ -0,0 +1,130 @@
+"use client";
+
+import { BellRing, BellOff } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import { env } from "~/env";
+import { api } from "~/trpc/react";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Convert the base64url VAPID public key into the bytes PushManager expects
+ */
+function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let index = 0; index < raw.length; index++) {
+    bytes[index] = raw.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+export function PushNotificationsToggle() {
+  const vapidPublicKey = env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const [subscription, setSubscription] = useState<PushSubscription | null>(
+    null,
+  );
+  const [isSupported, setIsSupported] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const subscribePush = api.notifications.subscribePush.useMutation();
+  const unsubscribePush = api.notifications.unsubscribePush.useMutation();
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    setIsSupported(true);
+
+    void navigator.serviceWorker
+      .getRegistration(SERVICE_WORKER_URL)
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((existing) => setSubscription(existing ?? null));
+  }, []);
+
+  if (!vapidPublicKey || !isSupported) return null;
+
+  const enable = async () => {
+    setIsWorking(true);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        toast.error("Notifications are blocked in this browser");
+        return;
+      }
+
+      const registration =
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const newSubscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+      });
+
+      const { endpoint, keys } = newSubscription.toJSON();
+      await subscribePush.mutateAsync({
+        endpoint: endpoint!,
+        keys: { p256dh: keys!.p256dh!, auth: keys!.auth! },
+      });
+      setSubscription(newSubscription);
+      toast.success("Push notifications enabled");
+    } catch (error) {
+      console.error("Error enabling push notifications:", error);
+      toast.error("Could not enable push notifications");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const disable = async () => {
+    if (!subscription) return;
+    setIsWorking(true);
+    try {
+      const { endpoint, keys } = subscription.toJSON();
+      await unsubscribePush.mutateAsync({
+        endpoint: endpoint!,
+        auth: keys!.auth!,
+      });
+      await subscription.unsubscribe();
+      setSubscription(null);
+    } catch (error) {
+      console.error("Error disabling push notifications:", error);
+      toast.error("Could not disable push notifications");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return subscription ? (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={isWorking}
+      onClick={() => void disable()}
+    >
+      <BellOff className="h-4 w-4" />
+      Disable push
+    </Button>
+  ) : (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={isWorking}
+      onClick={() => void enable()}
+    >
+      <BellRing className="h-4 w-4" />
+      Enable push
+    </Button>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { Pin, PinOff } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+
+interface DefaultFiltersMenuProps {
+  filters: string; // Current filters, serialized
+  pinned: string; // Pinned default filters, serialized, "" for none
+  onPin: (filters: string) => void;
+}
+
+/**
+ * Pin the current filters as the ones a fresh search page starts with
+ */
+export function DefaultFiltersMenu({
+  filters,
+  pinned,
+  onPin,
+}: DefaultFiltersMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2 bg-transparent"
+        >
+          <Pin className={pinned ? "h-4 w-4 fill-current" : "h-4 w-4"} />
+          <span className="hidden sm:inline">Defaults</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          disabled={!filters || filters === pinned}
+          onClick={() => {
+            onPin(filters);
+            toast.success("Filters pinned as default", {
+              description:
+                "They're applied whenever search opens without filters in the link.",
+            });
+          }}
+        >
+          <Pin className="h-4 w-4" />
+          Pin current filters
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!pinned} onClick={() => onPin("")}>
+          <PinOff className="h-4 w-4" />
+          Unpin default filters
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
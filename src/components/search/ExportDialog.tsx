@@ -0,0 +1,168 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useLocalStorage } from "~/hooks/use-local-storage";
+import { EXPORT_FORMATS } from "~/lib/constants";
+import {
+  EXPORT_COLUMN_IDS,
+  EXPORT_COLUMNS,
+  getExportColumns,
+  getExportUrl,
+} from "~/lib/export";
+import type { ExportFormat } from "~/lib/types";
+import type { RouterInputs } from "~/trpc/react";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  xlsx: "Excel (XLSX)",
+};
+
+const ALL_COLUMNS: string[] = EXPORT_COLUMN_IDS;
+const DEFAULT_FORMAT: ExportFormat = "csv";
+
+interface ExportDialogProps {
+  input: Omit<RouterInputs["vehicles"]["search"], "cursor" | "limit">;
+  totalCount: number;
+}
+
+/**
+ * Download every result of the current search, with the columns picked
+ * here; the file is written on the server as the results are read
+ */
+export function ExportDialog({ input, totalCount }: ExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [columns, setColumns] = useLocalStorage("export-columns", ALL_COLUMNS);
+  const [format, setFormat] = useLocalStorage("export-format", DEFAULT_FORMAT);
+
+  // Stored ids in their usual order, without any that no longer exist
+  const selectedColumns = getExportColumns(columns).map((column) => column.id);
+
+  const toggleColumn = (id: string, checked: boolean) => {
+    setColumns((current) =>
+      checked
+        ? [...current.filter((other) => other !== id), id]
+        : current.filter((other) => other !== id),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2 bg-transparent"
+          disabled={totalCount === 0}
+        >
+          <Download className="h-4 w-4" />
+          <span className="hidden sm:inline">Export</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export results</DialogTitle>
+          <DialogDescription>
+            All {totalCount.toLocaleString()} vehicles, filtered and sorted as
+            they are now.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="export-format">Format</Label>
+          <Select
+            value={format}
+            onValueChange={(value) => setFormat(() => value as ExportFormat)}
+          >
+            <SelectTrigger id="export-format" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_FORMATS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {FORMAT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <fieldset className="space-y-2">
+          <div className="flex items-center justify-between">
+            <legend className="text-sm font-medium">Columns</legend>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() =>
+                setColumns(() =>
+                  selectedColumns.length === ALL_COLUMNS.length
+                    ? []
+                    : ALL_COLUMNS,
+                )
+              }
+            >
+              {selectedColumns.length === ALL_COLUMNS.length
+                ? "Select none"
+                : "Select all"}
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_COLUMNS.map((column) => (
+              <div key={column.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`export-column-${column.id}`}
+                  checked={selectedColumns.includes(column.id)}
+                  onCheckedChange={(checked) =>
+                    toggleColumn(column.id, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`export-column-${column.id}`}
+                  className="text-sm font-normal"
+                >
+                  {column.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          {selectedColumns.length > 0 ? (
+            <Button asChild>
+              <a
+                href={getExportUrl(format, selectedColumns, input)}
+                download
+                onClick={() => setOpen(false)}
+              >
+                Download
+              </a>
+            </Button>
+          ) : (
+            <Button disabled>Download</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from "lucide-react";
+import Image from "next/image";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import imageLoader from "~/lib/imageLoader";
+import type { VehicleImage } from "~/lib/types";
+import { cn } from "~/lib/utils";
+
+// Width the lightbox shows images at until zoomed, and prefetches
+// neighboring images at
+const DISPLAY_WIDTH = 1280;
+// Horizontal finger travel, in pixels, that counts as a swipe
+const SWIPE_DISTANCE = 50;
+const ZOOM_SCALE = 2.5;
+
+/**
+ * Short name of the angle an image was taken from, e.g. "FRONT-LEFT"
+ */
+export function getImageLabel(type: VehicleImage["type"]): string {
+  return type.replace(/^CAR-/, "");
+}
+
+function getDisplayUrl(image: VehicleImage): string {
+  return imageLoader({ src: image.url, width: DISPLAY_WIDTH });
+}
+
+interface ImageLightboxProps {
+  images: VehicleImage[];
+  index: number | null; // Image being shown, closed when null
+  onIndexChange: (index: number | null) => void;
+  title?: string;
+}
+
+/**
+ * Full-screen image viewer, navigated with the arrow keys, by swiping or
+ * from the thumbnail strip
+ *
+ * Zooming (click the image or press Z) swaps in the original full-size
+ * image and pans with the pointer.
+ */
+export function ImageLightbox({
+  images,
+  index,
+  onIndexChange,
+  title,
+}: ImageLightboxProps) {
+  const [zoomed, setZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState("50% 50%");
+  const touchStartX = useRef<number | null>(null);
+  const image = index !== null ? images[index] : undefined;
+
+  const go = useCallback(
+    (step: number) => {
+      if (index === null || images.length === 0) return;
+      setZoomed(false);
+      onIndexChange((index + step + images.length) % images.length);
+    },
+    [index, images.length, onIndexChange],
+  );
+
+  // Escape is left to the dialog, which closes on it
+  useEffect(() => {
+    if (index === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") go(-1);
+      else if (e.key === "ArrowRight") go(1);
+      else if (e.key === "z" || e.key === "Z") setZoomed((zoom) => !zoom);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [index, go]);
+
+  // Load the images either side, so stepping through doesn't wait on each
+  useEffect(() => {
+    if (index === null || images.length < 2) return;
+    [index - 1, index + 1].forEach((neighbor) => {
+      const next = images[(neighbor + images.length) % images.length];
+      if (next) new window.Image().src = getDisplayUrl(next);
+    });
+  }, [index, images]);
+
+  // Zoom into the point under the pointer
+  const updateZoomOrigin = (e: React.MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  return (
+    <Dialog
+      open={index !== null && image !== undefined}
+      onOpenChange={(open) => {
+        if (!open) {
+          setZoomed(false);
+          onIndexChange(null);
+        }
+      }}
+    >
+      <DialogContent className="flex max-h-[95vh] flex-col gap-3 p-3 sm:max-w-5xl">
+        <DialogTitle className="pr-8 text-base">
+          {title ?? "Photos"}
+        </DialogTitle>
+        <DialogDescription className="sr-only">
+          Use the arrow keys or swipe to move between photos, and Z to zoom.
+        </DialogDescription>
+
+        {image && index !== null && (
+          <>
+            <div
+              className={cn(
+                "bg-muted relative aspect-video w-full overflow-hidden rounded-md",
+                zoomed ? "cursor-zoom-out" : "cursor-zoom-in",
+              )}
+              onClick={(e) => {
+                updateZoomOrigin(e);
+                setZoomed((zoom) => !zoom);
+              }}
+              onPointerMove={zoomed ? updateZoomOrigin : undefined}
+              onTouchStart={(e) => {
+                touchStartX.current = e.touches[0]?.clientX ?? null;
+              }}
+              onTouchEnd={(e) => {
+                const startX = touchStartX.current;
+                const endX = e.changedTouches[0]?.clientX;
+                touchStartX.current = null;
+                if (zoomed || startX === null || endX === undefined) return;
+                if (Math.abs(endX - startX) >= SWIPE_DISTANCE) {
+                  go(endX < startX ? 1 : -1);
+                }
+              }}
+            >
+              <Image
+                key={zoomed ? image.url : getDisplayUrl(image)}
+                src={zoomed ? image.url : getDisplayUrl(image)}
+                alt={getImageLabel(image.type)}
+                fill
+                unoptimized
+                className="object-contain transition-transform"
+                style={
+                  zoomed
+                    ? {
+                        transform: `scale(${ZOOM_SCALE})`,
+                        transformOrigin: zoomOrigin,
+                      }
+                    : undefined
+                }
+                sizes="100vw"
+              />
+
+              {images.length > 1 && !zoomed && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-1/2 left-2 -translate-y-1/2 rounded-full opacity-80"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      go(-1);
+                    }}
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                    <span className="sr-only">Previous photo</span>
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-1/2 right-2 -translate-y-1/2 rounded-full opacity-80"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      go(1);
+                    }}
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                    <span className="sr-only">Next photo</span>
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="text-muted-foreground flex items-center justify-between text-sm">
+              <span>
+                {getImageLabel(image.type)} · {index + 1} of {images.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setZoomed((zoom) => !zoom)}
+              >
+                {zoomed ? (
+                  <ZoomOut className="h-4 w-4" />
+                ) : (
+                  <ZoomIn className="h-4 w-4" />
+                )}
+                {zoomed ? "Zoom out" : "Zoom in"}
+              </Button>
+            </div>
+
+            {/* Thumbnails */}
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {images.map((thumbnail, thumbnailIndex) => (
+                <button
+                  key={`${thumbnail.url}-${thumbnailIndex}`}
+                  type="button"
+                  onClick={() => {
+                    setZoomed(false);
+                    onIndexChange(thumbnailIndex);
+                  }}
+                  className={cn(
+                    "shrink-0 overflow-hidden rounded-md border-2 text-left",
+                    thumbnailIndex === index
+                      ? "border-primary"
+                      : "border-transparent opacity-70 hover:opacity-100",
+                  )}
+                >
+                  <div className="bg-muted relative h-14 w-24">
+                    <Image
+                      src={thumbnail.thumbnailUrl || thumbnail.url}
+                      alt=""
+                      fill
+                      unoptimized
+                      className="object-cover"
+                      sizes="96px"
+                    />
+                  </div>
+                  <span className="block truncate px-1 text-[10px] font-medium">
+                    {getImageLabel(thumbnail.type)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
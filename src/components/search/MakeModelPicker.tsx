@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { api } from "~/trpc/react";
+
+interface MakeModelPickerProps {
+  state?: string; // Only count vehicles in this state
+  onSelect: (query: string) => void;
+}
+
+/**
+ * Make and model pickers built from what's actually on the lots, with
+ * vehicle counts. Picking either one replaces the search query.
+ */
+export function MakeModelPicker({ state, onSelect }: MakeModelPickerProps) {
+  const [make, setMake] = useState<string | null>(null);
+
+  const { data: makes } = api.vehicles.getPopularMakes.useQuery({ state });
+  const { data: models } = api.vehicles.getModelsForMake.useQuery(
+    { make: make ?? "", state },
+    { enabled: make !== null },
+  );
+
+  if (!makes || makes.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select
+        value={make ?? ""}
+        onValueChange={(value) => {
+          setMake(value);
+          onSelect(value);
+        }}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Browse makes" />
+        </SelectTrigger>
+        <SelectContent>
+          {makes.map(({ make, count }) => (
+            <SelectItem key={make} value={make}>
+              {make}
+              <span className="text-muted-foreground">
+                {count.toLocaleString()}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        key={make}
+        disabled={!make || !models || models.length === 0}
+        onValueChange={(model) => onSelect(`${make} ${model}`)}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Browse models" />
+        </SelectTrigger>
+        <SelectContent>
+          {models?.map(({ model, count }) => (
+            <SelectItem key={model} value={model}>
+              {model}
+              <span className="text-muted-foreground">
+                {count.toLocaleString()}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { Home, LocateFixed, MapPin } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
+import { formatCoordinates, HOME_ORIGIN, resolveOrigin } from "~/lib/origin";
+import { isPostalCode } from "~/lib/postal-codes";
+import type { Origin } from "~/lib/types";
+
+interface OriginPickerProps {
+  value: string | null; // The `origin` URL param
+  origin: Origin | null; // `value` resolved, null when it's unset or unknown
+  onChange: (value: string | null) => void;
+}
+
+export function OriginPicker({ value, origin, onChange }: OriginPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [postalCode, setPostalCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const { preferences, updatePreferences } = useUserPreferences();
+  const home = resolveOrigin(HOME_ORIGIN, preferences);
+
+  const choose = (next: string | null) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = postalCode.trim().toUpperCase();
+    if (!isPostalCode(code)) {
+      setError("Enter a US ZIP code or a Canadian postal code");
+    } else if (!resolveOrigin(code)) {
+      setError(`We don't know where ${code} is`);
+    } else {
+      choose(code);
+    }
+  };
+
+  const handleUseCurrentLocation = () => {
+    if (!("geolocation" in navigator)) {
+      setError("This browser can't share its location");
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        choose(
+          formatCoordinates(
+            position.coords.latitude,
+            position.coords.longitude,
+          ),
+        );
+      },
+      (positionError) => {
+        setIsLocating(false);
+        setError(
+          positionError.code === positionError.PERMISSION_DENIED
+            ? "Location access was denied, enter a postal code instead"
+            : "Could not find your location, enter a postal code instead",
+        );
+      },
+      { maximumAge: 10 * 60 * 1000, timeout: 10 * 1000 },
+    );
+  };
+
+  const handleSaveAsHome = () => {
+    if (!origin) return;
+    updatePreferences((current) => ({
+      ...current,
+      location: [origin.lat, origin.lng],
+      locationLabel: origin.label,
+    }));
+    toast.success("Saved as home", { description: origin.label });
+    choose(HOME_ORIGIN);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) {
+          setPostalCode(value && isPostalCode(value) ? value : "");
+          setError(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <MapPin className="h-4 w-4" />
+          <span className="hidden max-w-48 truncate sm:inline">
+            {origin?.label ?? "Set location"}
+          </span>
+          <span className="sr-only sm:hidden">Distances from</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Distances from</DialogTitle>
+            <DialogDescription>
+              {origin
+                ? `Distances are measured from ${origin.label}.`
+                : "Distances are measured from roughly where your connection comes from, which may be far off."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="origin-postal-code">ZIP or postal code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="origin-postal-code"
+                value={postalCode}
+                onChange={(e) => {
+                  setPostalCode(e.target.value);
+                  setError(null);
+                }}
+                placeholder="60601 or M5V 2T6"
+                maxLength={10}
+                autoFocus
+              />
+              <Button type="submit">Use</Button>
+            </div>
+            {error && <p className="text-destructive text-sm">{error}</p>}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="justify-start gap-2"
+              onClick={handleUseCurrentLocation}
+              disabled={isLocating}
+            >
+              <LocateFixed className="h-4 w-4" />
+              {isLocating ? "Finding you..." : "Use my current location"}
+            </Button>
+            {home && value !== HOME_ORIGIN && (
+              <Button
+                type="button"
+                variant="outline"
+                className="justify-start gap-2"
+                onClick={() => choose(HOME_ORIGIN)}
+              >
+                <Home className="h-4 w-4" />
+                Use home ({home.label})
+              </Button>
+            )}
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => choose(null)}
+              disabled={!value}
+            >
+              Clear
+            </Button>
+            {origin && value !== HOME_ORIGIN && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleSaveAsHome}
+              >
+                Save as home
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
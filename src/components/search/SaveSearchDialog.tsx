@@ -0,0 +1,96 @@
+"use client";
+
+import { BookmarkPlus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import type { SavedSearch } from "~/lib/types";
+import { api } from "~/trpc/react";
+
+interface SaveSearchDialogProps {
+  query: string;
+  filters: SavedSearch["filters"];
+}
+
+export function SaveSearchDialog({ query, filters }: SaveSearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const utils = api.useUtils();
+
+  const createSavedSearch = api.savedSearches.create.useMutation({
+    onSuccess: (savedSearch) => {
+      toast.success(`Saved "${savedSearch.name}"`, {
+        description: "New matches will show up in your inbox.",
+      });
+      void utils.savedSearches.getAll.invalidate();
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast.error("Could not save search", { description: error.message });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createSavedSearch.mutate({ name: name.trim() || query, query, filters });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) setName(query);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2 bg-transparent"
+          disabled={!query.trim()}
+        >
+          <BookmarkPlus className="h-4 w-4" />
+          <span className="hidden sm:inline">Save Search</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save search</DialogTitle>
+            <DialogDescription>
+              This search and its current filters will be re-run on a schedule.
+              New arrivals show up in your inbox.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={query}
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={createSavedSearch.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
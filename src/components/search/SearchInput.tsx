@@ -1,33 +1,103 @@
 "use client";
 
-import { Search } from "lucide-react";
+import { History, Search } from "lucide-react";
 import Link from "next/link";
-import { useCallback } from "react";
-import type { SearchInputProps } from "~/lib/types";
+import { useRouter } from "next/navigation";
+import { useCallback, useMemo, useState } from "react";
+import {
+  describeSearchFilters,
+  getRecentSearchUrl,
+} from "~/lib/search-history";
+import type { SearchInputProps, SearchQueryError } from "~/lib/types";
+import { cn } from "~/lib/utils";
+
+/**
+ * Split a query into plain and erroneous parts for display
+ */
+function highlightErrors(value: string, errors: SearchQueryError[]) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  [...errors]
+    .sort((a, b) => a.start - b.start)
+    .forEach((error) => {
+      if (error.start < position) return;
+      parts.push(value.slice(position, error.start));
+      parts.push(
+        <mark
+          key={error.start}
+          className="text-destructive decoration-destructive bg-transparent underline decoration-wavy"
+        >
+          {value.slice(error.start, error.end) || " "}
+        </mark>,
+      );
+      position = error.end;
+    });
+  parts.push(value.slice(position));
+
+  return parts;
+}
 
 export function SearchInput({
   value,
   onChange,
   onSearch,
   placeholder = "Enter year, make, model...",
+  errors = [],
+  recentSearches = [],
+  onClearRecentSearches,
 }: SearchInputProps) {
+  const router = useRouter();
+  const [showRecent, setShowRecent] = useState(false);
+  // Recent search picked with the arrow keys, -1 for none
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Narrowed down to the ones containing what's been typed
+  const matchingSearches = useMemo(() => {
+    const typed = value.trim().toLowerCase();
+    return recentSearches.filter((search) =>
+      search.query.toLowerCase().includes(typed),
+    );
+  }, [recentSearches, value]);
+  const recentOpen = showRecent && matchingSearches.length > 0;
+
+  const closeRecent = useCallback(() => {
+    setShowRecent(false);
+    setActiveIndex(-1);
+  }, []);
+
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const newValue = e.target.value;
       // Update URL immediately, no debounce
       onChange(newValue);
+      setShowRecent(true);
+      setActiveIndex(-1);
     },
     [onChange],
   );
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
-      if (e.key === "Enter") {
+      if (recentOpen && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
         e.preventDefault();
-        onSearch();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        // Steps through the searches and back to none, wrapping around
+        const positions = matchingSearches.length + 1;
+        setActiveIndex(
+          (index) => ((index + 1 + step + positions) % positions) - 1,
+        );
+      } else if (e.key === "Escape") {
+        closeRecent();
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        const picked = recentOpen ? matchingSearches[activeIndex] : undefined;
+        closeRecent();
+        if (picked) router.push(getRecentSearchUrl(picked));
+        else onSearch();
       }
     },
-    [onSearch],
+    [recentOpen, matchingSearches, activeIndex, closeRecent, router, onSearch],
   );
 
   const handleSubmit = useCallback(
@@ -52,34 +122,97 @@ export function SearchInput({
           value={value}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
+          onFocus={() => setShowRecent(true)}
+          onBlur={closeRecent}
           placeholder={placeholder}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={recentOpen}
+          aria-controls="recent-searches"
+          aria-activedescendant={
+            recentOpen && activeIndex >= 0
+              ? `recent-search-${activeIndex}`
+              : undefined
+          }
+          aria-invalid={errors.length > 0}
+          aria-describedby={errors.length > 0 ? "search-errors" : undefined}
           className="file:text-foreground placeholder:text-muted-foreground selection:bg-primary selection:text-primary-foreground dark:bg-input/30 border-input focus-visible:border-ring focus-visible:ring-ring/50 aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive bg-background flex h-10 w-full min-w-0 rounded-md border px-3 py-1 pl-10 text-base shadow-none transition-[color,box-shadow] outline-none file:inline-flex file:h-7 file:border-0 file:bg-transparent file:text-sm file:font-medium focus-visible:ring-[3px] disabled:pointer-events-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
         />
         <Search className="pointer-events-none absolute top-1/2 left-3 size-4 -translate-y-1/2 opacity-50 select-none" />
-      </div>
 
-      {/* Search Suggestions */}
-      <div className="text-muted-foreground mt-2 text-xs">
-        <span>Try: </span>
-        <Link
-          href="/search?q=Honda+Civic"
-          className="text-primary mr-3 underline hover:no-underline"
-        >
-          Honda Civic
-        </Link>
-        <Link
-          href="/search?q=2020+Toyota"
-          className="text-primary mr-3 underline hover:no-underline"
-        >
-          2020 Toyota
-        </Link>
-        <Link
-          href="/search?q=Ford+F-150"
-          className="text-primary underline hover:no-underline"
-        >
-          Ford F-150
-        </Link>
+        {/* Recent searches; mouse presses keep focus in the input so the
+            dropdown is still open when the click lands */}
+        {recentOpen && (
+          <div
+            className="bg-popover text-popover-foreground absolute top-full right-0 left-0 z-20 mt-1 overflow-hidden rounded-md border shadow-md"
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            <ul
+              id="recent-searches"
+              role="listbox"
+              aria-label="Recent searches"
+            >
+              {matchingSearches.map((search, index) => {
+                const description = describeSearchFilters(search.params);
+                return (
+                  <li
+                    key={search.params}
+                    id={`recent-search-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                  >
+                    <Link
+                      href={getRecentSearchUrl(search)}
+                      onClick={closeRecent}
+                      className={cn(
+                        "hover:bg-accent flex items-center gap-2 px-3 py-2",
+                        index === activeIndex && "bg-accent",
+                      )}
+                    >
+                      <History className="text-muted-foreground size-4 shrink-0" />
+                      <span className="truncate">{search.query}</span>
+                      {description && (
+                        <span className="text-muted-foreground ml-auto truncate text-xs">
+                          {description}
+                        </span>
+                      )}
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+            {onClearRecentSearches && (
+              <button
+                type="button"
+                onClick={() => {
+                  onClearRecentSearches();
+                  closeRecent();
+                }}
+                className="text-muted-foreground hover:text-foreground w-full border-t px-3 py-2 text-left text-xs"
+              >
+                Clear history
+              </button>
+            )}
+          </div>
+        )}
       </div>
+
+      {/* Parse errors, with the offending parts of the query underlined */}
+      {errors.length > 0 && (
+        <div id="search-errors" className="mt-2 space-y-1 text-xs">
+          <p className="font-mono whitespace-pre-wrap">
+            {highlightErrors(value, errors)}
+          </p>
+          {errors.map((error) => (
+            <p
+              key={`${error.start}-${error.message}`}
+              className="text-destructive"
+            >
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
     </form>
   );
 }
@@ -1,5 +1,6 @@
 "use client";
 
+import { useCallback, useState } from "react";
 import {
   Card,
   CardContent,
@@ -8,7 +9,8 @@ import {
 } from "~/components/ui/card";
 import { Skeleton } from "~/components/ui/skeleton";
 import { useIsMobile } from "~/hooks/use-media-query";
-import type { SearchResult } from "~/lib/types";
+import type { SearchResult, VehicleImage } from "~/lib/types";
+import { ImageLightbox } from "./ImageLightbox";
 import { VehicleCard } from "./VehicleCard";
 
 interface SearchSummaryProps {
@@ -32,6 +34,12 @@ export function SearchSummary({ searchResult }: SearchSummaryProps) {
           {searchResult.locationsWithErrors.length} locations had errors
         </p>
       )}
+      {searchResult.truncatedLocations.length > 0 && (
+        <p className="mt-1 text-xs">
+          {searchResult.truncatedLocations.length} locations had more results
+          than the page limit allows. Try a more specific search.
+        </p>
+      )}
     </div>
   );
 }
@@ -50,6 +58,14 @@ export function SearchResults({
   const isMobile = useIsMobile();
   const amountOfSkeletons = isMobile ? 1 : 6;
 
+  // Photos of the vehicle whose image was last clicked
+  const [lightboxImages, setLightboxImages] = useState<VehicleImage[]>([]);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const openLightbox = useCallback((images: VehicleImage[], index: number) => {
+    setLightboxImages(images);
+    setLightboxIndex(index);
+  }, []);
+
   if (isLoading) {
     return (
       <div
@@ -99,8 +115,14 @@ export function SearchResults({
         <VehicleCard
           key={`${vehicle.location.locationCode}-${vehicle.id}`}
           vehicle={vehicle}
+          onImageClick={openLightbox}
         />
       ))}
+      <ImageLightbox
+        images={lightboxImages}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+      />
     </div>
   );
 }
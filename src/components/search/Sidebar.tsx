@@ -2,15 +2,9 @@ import { X } from "lucide-react";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import type { ArrivalWindow, SearchFacets } from "~/lib/types";
 import { SidebarContent } from "./SidebarContent";
 
-interface FilterOptions {
-  makes: string[];
-  colors: string[];
-  states: string[];
-  salvageYards: string[];
-}
-
 interface SidebarProps {
   showFilters: boolean;
   setShowFilters: (show: boolean) => void;
@@ -18,14 +12,24 @@ interface SidebarProps {
   clearAllFilters: () => void;
   makes: string[];
   colors: string[];
+  engines: string[];
   states: string[];
   salvageYards: string[];
+  models: string[];
+  maxDistance: number | null; // Miles
+  arrivedWithin: ArrivalWindow | null;
+  arrivalDates: [Date | null, Date | null]; // Used when arrivedWithin is "custom"
   yearRange: [number, number];
-  filterOptions: FilterOptions;
+  facets: SearchFacets;
   onMakesChange: (makes: string[]) => void;
   onColorsChange: (colors: string[]) => void;
+  onEnginesChange: (engines: string[]) => void;
   onStatesChange: (states: string[]) => void;
   onSalvageYardsChange: (salvageYards: string[]) => void;
+  onModelsChange: (models: string[]) => void;
+  onMaxDistanceChange: (maxDistance: number | null) => void;
+  onArrivedWithinChange: (arrivedWithin: ArrivalWindow | null) => void;
+  onArrivalDatesChange: (dates: [Date | null, Date | null]) => void;
   onYearRangeChange: (range: [number, number]) => void;
   yearRangeLimits?: {
     min: number;
@@ -40,14 +44,24 @@ export function Sidebar({
   clearAllFilters,
   makes,
   colors,
+  engines,
   states,
   salvageYards,
+  models,
+  maxDistance,
+  arrivedWithin,
+  arrivalDates,
   yearRange,
-  filterOptions,
+  facets,
   onMakesChange,
   onColorsChange,
+  onEnginesChange,
   onStatesChange,
   onSalvageYardsChange,
+  onModelsChange,
+  onMaxDistanceChange,
+  onArrivedWithinChange,
+  onArrivalDatesChange,
   onYearRangeChange,
   yearRangeLimits,
 }: SidebarProps) {
@@ -99,14 +113,24 @@ export function Sidebar({
               <SidebarContent
                 makes={makes}
                 colors={colors}
+                engines={engines}
                 states={states}
                 salvageYards={salvageYards}
+                models={models}
+                maxDistance={maxDistance}
+                arrivedWithin={arrivedWithin}
+                arrivalDates={arrivalDates}
                 yearRange={yearRange}
-                filterOptions={filterOptions}
+                facets={facets}
                 onMakesChange={onMakesChange}
                 onColorsChange={onColorsChange}
+                onEnginesChange={onEnginesChange}
                 onStatesChange={onStatesChange}
                 onSalvageYardsChange={onSalvageYardsChange}
+                onModelsChange={onModelsChange}
+                onMaxDistanceChange={onMaxDistanceChange}
+                onArrivedWithinChange={onArrivedWithinChange}
+                onArrivalDatesChange={onArrivalDatesChange}
                 onYearRangeChange={onYearRangeChange}
                 yearRangeLimits={yearRangeLimits}
               />
@@ -5,27 +5,151 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "~/components/ui/collapsible";
+import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import { Slider } from "~/components/ui/slider";
+import { ARRIVAL_WINDOWS, DISTANCE_OPTIONS } from "~/lib/constants";
+import type {
+  ArrivalWindow,
+  FacetBucket,
+  SearchFacets,
+  YearBin,
+} from "~/lib/types";
 
-interface FilterOptions {
-  makes: string[];
-  colors: string[];
-  states: string[];
-  salvageYards: string[];
+// prettier-ignore
+const ARRIVAL_WINDOW_LABELS: Record<ArrivalWindow, string> = {
+  "24h": "Last 24 hours", "3d": "Last 3 days", "7d": "Last 7 days",
+  "30d": "Last 30 days", custom: "Custom range",
+};
+
+// Select items can't have an empty value, so "no filter" gets its own
+const ANY = "any";
+
+// Dates in the URL are whole days at UTC midnight, as date inputs use
+function toDateInputValue(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
+
+function fromDateInputValue(value: string): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Options worth offering: those with results under the other filters or
+ * at yards that weren't searched, plus whatever is already selected even
+ * if it has none
+ */
+function getVisibleBuckets(
+  buckets: FacetBucket[],
+  selected: string[],
+): FacetBucket[] {
+  const missing = selected
+    .filter((value) => !buckets.some((bucket) => bucket.value === value))
+    .map((value) => ({ value, count: 0 }));
+
+  return [
+    ...buckets.filter(
+      (bucket) => bucket.count !== 0 || selected.includes(bucket.value),
+    ),
+    ...missing,
+  ];
+}
+
+interface FacetCheckboxesProps {
+  name: string; // Prefix for the checkbox ids
+  buckets: FacetBucket[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function FacetCheckboxes({
+  name,
+  buckets,
+  selected,
+  onChange,
+}: FacetCheckboxesProps) {
+  return buckets.map(({ value, count }) => (
+    <div key={value} className="flex items-center space-x-2 pr-3 pl-3">
+      <Checkbox
+        id={`${name}-${value}`}
+        checked={selected.includes(value)}
+        onCheckedChange={() => {
+          if (selected.includes(value)) {
+            onChange(selected.filter((v) => v !== value));
+          } else {
+            onChange([...selected, value]);
+          }
+        }}
+      />
+      <Label htmlFor={`${name}-${value}`} className="flex-1 text-sm">
+        {value}
+        <span className="text-muted-foreground ml-auto text-xs">
+          {count === null ? "not searched" : count.toLocaleString()}
+        </span>
+      </Label>
+    </div>
+  ));
+}
+
+interface YearHistogramProps {
+  bins: YearBin[];
+  yearRange: [number, number];
+}
+
+/**
+ * Bars for the number of results per model year, with the years outside
+ * the selected range dimmed
+ */
+function YearHistogram({ bins, yearRange }: YearHistogramProps) {
+  const maxCount = Math.max(0, ...bins.map((bin) => bin.count));
+  if (maxCount === 0) return null;
+
+  return (
+    <div className="mb-2 flex h-10 items-end gap-px" aria-hidden>
+      {bins.map(({ year, count }) => (
+        <div
+          key={year}
+          title={`${year}: ${count.toLocaleString()}`}
+          className={`flex-1 rounded-t-sm ${
+            year >= yearRange[0] && year <= yearRange[1]
+              ? "bg-primary"
+              : "bg-muted"
+          }`}
+          style={{ height: `${(count / maxCount) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
 }
 
 interface SidebarContentProps {
   makes: string[];
   colors: string[];
+  engines: string[];
   states: string[];
   salvageYards: string[];
+  models: string[];
+  maxDistance: number | null; // Miles
+  arrivedWithin: ArrivalWindow | null;
+  arrivalDates: [Date | null, Date | null]; // Used when arrivedWithin is "custom"
   yearRange: [number, number];
-  filterOptions: FilterOptions;
+  facets: SearchFacets;
   onMakesChange: (makes: string[]) => void;
   onColorsChange: (colors: string[]) => void;
+  onEnginesChange: (engines: string[]) => void;
   onStatesChange: (states: string[]) => void;
   onSalvageYardsChange: (salvageYards: string[]) => void;
+  onModelsChange: (models: string[]) => void;
+  onMaxDistanceChange: (maxDistance: number | null) => void;
+  onArrivedWithinChange: (arrivedWithin: ArrivalWindow | null) => void;
+  onArrivalDatesChange: (dates: [Date | null, Date | null]) => void;
   onYearRangeChange: (range: [number, number]) => void;
   yearRangeLimits?: {
     min: number;
@@ -36,45 +160,69 @@ interface SidebarContentProps {
 export function SidebarContent({
   makes,
   colors,
+  engines,
   states,
   salvageYards,
+  models,
+  maxDistance,
+  arrivedWithin,
+  arrivalDates,
   yearRange,
-  filterOptions,
+  facets,
   onMakesChange,
   onColorsChange,
+  onEnginesChange,
   onStatesChange,
   onSalvageYardsChange,
+  onModelsChange,
+  onMaxDistanceChange,
+  onArrivedWithinChange,
+  onArrivalDatesChange,
   onYearRangeChange,
   yearRangeLimits,
 }: SidebarContentProps) {
+  const visibleMakes = getVisibleBuckets(facets.makes, makes);
+  const visibleEngines = getVisibleBuckets(facets.engines, engines);
+  // Models are only offered once a make narrows them down
+  const visibleModels =
+    makes.length > 0 || models.length > 0
+      ? getVisibleBuckets(facets.models, models)
+      : [];
+
   return (
     <div className="space-y-6">
       {/* Make Filter - Only show if there are multiple makes available */}
-      {filterOptions.makes.length > 1 && (
+      {visibleMakes.length > 1 && (
         <Collapsible defaultOpen>
           <CollapsibleTrigger className="hover:bg-accent flex w-full items-center justify-between rounded p-2">
             <span className="font-medium">Make</span>
             <ChevronDown className="h-4 w-4" />
           </CollapsibleTrigger>
           <CollapsibleContent className="mt-2 space-y-2">
-            {filterOptions.makes.map((make) => (
-              <div key={make} className="flex items-center space-x-2 pr-3 pl-3">
-                <Checkbox
-                  id={`make-${make}`}
-                  checked={makes.includes(make)}
-                  onCheckedChange={() => {
-                    if (makes.includes(make)) {
-                      onMakesChange(makes.filter((m) => m !== make));
-                    } else {
-                      onMakesChange([...makes, make]);
-                    }
-                  }}
-                />
-                <Label htmlFor={`make-${make}`} className="text-sm">
-                  {make}
-                </Label>
-              </div>
-            ))}
+            <FacetCheckboxes
+              name="make"
+              buckets={visibleMakes}
+              selected={makes}
+              onChange={onMakesChange}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
+      {/* Model Filter - Only show once a make is selected */}
+      {visibleModels.length > 0 && (
+        <Collapsible defaultOpen>
+          <CollapsibleTrigger className="hover:bg-accent flex w-full items-center justify-between rounded p-2">
+            <span className="font-medium">Model</span>
+            <ChevronDown className="h-4 w-4" />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 space-y-2">
+            <FacetCheckboxes
+              name="model"
+              buckets={visibleModels}
+              selected={models}
+              onChange={onModelsChange}
+            />
           </CollapsibleContent>
         </Collapsible>
       )}
@@ -87,6 +235,7 @@ export function SidebarContent({
         </CollapsibleTrigger>
         <CollapsibleContent className="mt-2 space-y-4">
           <div className="px-2">
+            <YearHistogram bins={facets.years} yearRange={yearRange} />
             <div className="text-muted-foreground mb-2 flex justify-between text-sm">
               <span>{yearRange?.[0]}</span>
               <span>{yearRange?.[1]}</span>
@@ -122,27 +271,33 @@ export function SidebarContent({
           <ChevronDown className="h-4 w-4" />
         </CollapsibleTrigger>
         <CollapsibleContent className="mt-2 space-y-2">
-          {filterOptions.colors.map((color) => (
-            <div key={color} className="flex items-center space-x-2 pr-3 pl-3">
-              <Checkbox
-                id={`color-${color}`}
-                checked={colors.includes(color)}
-                onCheckedChange={() => {
-                  if (colors.includes(color)) {
-                    onColorsChange(colors.filter((c) => c !== color));
-                  } else {
-                    onColorsChange([...colors, color]);
-                  }
-                }}
-              />
-              <Label htmlFor={`color-${color}`} className="text-sm">
-                {color}
-              </Label>
-            </div>
-          ))}
+          <FacetCheckboxes
+            name="color"
+            buckets={getVisibleBuckets(facets.colors, colors)}
+            selected={colors}
+            onChange={onColorsChange}
+          />
         </CollapsibleContent>
       </Collapsible>
 
+      {/* Engine Filter - Only show if any VINs decoded to an engine */}
+      {visibleEngines.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger className="hover:bg-accent flex w-full items-center justify-between rounded p-2">
+            <span className="font-medium">Engine</span>
+            <ChevronDown className="h-4 w-4" />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 space-y-2">
+            <FacetCheckboxes
+              name="engine"
+              buckets={visibleEngines}
+              selected={engines}
+              onChange={onEnginesChange}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
       {/* Location Filter */}
       <Collapsible>
         <CollapsibleTrigger className="hover:bg-accent flex w-full items-center justify-between rounded p-2">
@@ -150,24 +305,12 @@ export function SidebarContent({
           <ChevronDown className="h-4 w-4" />
         </CollapsibleTrigger>
         <CollapsibleContent className="mt-2 space-y-2">
-          {filterOptions.states.map((state) => (
-            <div key={state} className="flex items-center space-x-2 pr-3 pl-3">
-              <Checkbox
-                id={`state-${state}`}
-                checked={states.includes(state)}
-                onCheckedChange={() => {
-                  if (states.includes(state)) {
-                    onStatesChange(states.filter((s) => s !== state));
-                  } else {
-                    onStatesChange([...states, state]);
-                  }
-                }}
-              />
-              <Label htmlFor={`state-${state}`} className="text-sm">
-                {state}
-              </Label>
-            </div>
-          ))}
+          <FacetCheckboxes
+            name="state"
+            buckets={getVisibleBuckets(facets.states, states)}
+            selected={states}
+            onChange={onStatesChange}
+          />
         </CollapsibleContent>
       </Collapsible>
 
@@ -178,26 +321,115 @@ export function SidebarContent({
           <ChevronDown className="h-4 w-4" />
         </CollapsibleTrigger>
         <CollapsibleContent className="mt-2 space-y-2">
-          {filterOptions.salvageYards.map((yard) => (
-            <div key={yard} className="flex items-center space-x-2 pr-3 pl-3">
-              <Checkbox
-                id={`yard-${yard}`}
-                checked={salvageYards.includes(yard)}
-                onCheckedChange={() => {
-                  if (salvageYards.includes(yard)) {
-                    onSalvageYardsChange(
-                      salvageYards.filter((y) => y !== yard),
-                    );
-                  } else {
-                    onSalvageYardsChange([...salvageYards, yard]);
+          <FacetCheckboxes
+            name="yard"
+            buckets={getVisibleBuckets(facets.salvageYards, salvageYards)}
+            selected={salvageYards}
+            onChange={onSalvageYardsChange}
+          />
+        </CollapsibleContent>
+      </Collapsible>
+
+      {/* Distance Filter */}
+      <Collapsible>
+        <CollapsibleTrigger className="hover:bg-accent flex w-full items-center justify-between rounded p-2">
+          <span className="font-medium">Distance</span>
+          <ChevronDown className="h-4 w-4" />
+        </CollapsibleTrigger>
+        <CollapsibleContent className="mt-2 px-2">
+          <Select
+            value={maxDistance !== null ? String(maxDistance) : ANY}
+            onValueChange={(value) =>
+              onMaxDistanceChange(value === ANY ? null : Number(value))
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any distance</SelectItem>
+              {/* Keep a radius from a shared link selectable */}
+              {[
+                ...new Set<number>(
+                  maxDistance !== null
+                    ? [...DISTANCE_OPTIONS, maxDistance]
+                    : DISTANCE_OPTIONS,
+                ),
+              ]
+                .sort((a, b) => a - b)
+                .map((miles) => (
+                  <SelectItem key={miles} value={String(miles)}>
+                    Within {miles} miles
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </CollapsibleContent>
+      </Collapsible>
+
+      {/* Arrival Filter */}
+      <Collapsible>
+        <CollapsibleTrigger className="hover:bg-accent flex w-full items-center justify-between rounded p-2">
+          <span className="font-medium">Arrived</span>
+          <ChevronDown className="h-4 w-4" />
+        </CollapsibleTrigger>
+        <CollapsibleContent className="mt-2 space-y-2 px-2">
+          <Select
+            value={arrivedWithin ?? ANY}
+            onValueChange={(value) =>
+              onArrivedWithinChange(
+                value === ANY ? null : (value as ArrivalWindow),
+              )
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any time</SelectItem>
+              {ARRIVAL_WINDOWS.map((window) => (
+                <SelectItem key={window} value={window}>
+                  {ARRIVAL_WINDOW_LABELS[window]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {arrivedWithin === "custom" && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="arrived-from" className="text-xs">
+                  From
+                </Label>
+                <Input
+                  id="arrived-from"
+                  type="date"
+                  value={toDateInputValue(arrivalDates[0])}
+                  onChange={(e) =>
+                    onArrivalDatesChange([
+                      fromDateInputValue(e.target.value),
+                      arrivalDates[1],
+                    ])
                   }
-                }}
-              />
-              <Label htmlFor={`yard-${yard}`} className="text-sm">
-                {yard}
-              </Label>
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="arrived-to" className="text-xs">
+                  To
+                </Label>
+                <Input
+                  id="arrived-to"
+                  type="date"
+                  value={toDateInputValue(arrivalDates[1])}
+                  onChange={(e) =>
+                    onArrivalDatesChange([
+                      arrivalDates[0],
+                      fromDateInputValue(e.target.value),
+                    ])
+                  }
+                />
+              </div>
             </div>
-          ))}
+          )}
         </CollapsibleContent>
       </Collapsible>
     </div>
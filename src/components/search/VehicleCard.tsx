@@ -1,6 +1,14 @@
 "use client";
 
-import { Eye, ImageIcon, MapPin, Settings } from "lucide-react";
+import {
+  Check,
+  Eye,
+  ImageIcon,
+  MapPin,
+  Route,
+  Settings,
+  Star,
+} from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import { memo } from "react";
@@ -12,15 +20,32 @@ import {
   CardFooter,
   CardHeader,
 } from "~/components/ui/card";
-import type { VehicleCardProps } from "~/lib/types";
-import wsrvLoader from "~/lib/wsrvLoader";
+import { useTrip } from "~/hooks/use-trip";
+import { useWatchlist } from "~/hooks/use-watchlist";
+import imageLoader from "~/lib/imageLoader";
+import type { Vehicle, VehicleCardProps } from "~/lib/types";
+import { cn } from "~/lib/utils";
+import { getEngineLabel } from "~/lib/vin";
+
+/**
+ * Link to the vehicle's page in this app
+ */
+export function getVehiclePageUrl(vehicle: Vehicle): string {
+  return `/vehicle/${encodeURIComponent(vehicle.location.locationCode)}/${encodeURIComponent(vehicle.id)}?source=${encodeURIComponent(vehicle.source)}`;
+}
 
-function VehicleCardComponent({
-  vehicle,
-  onImageClick: _onImageClick,
-}: VehicleCardProps) {
+function VehicleCardComponent({ vehicle, onImageClick }: VehicleCardProps) {
+  const { isOnTrip, toggleVehicle } = useTrip();
+  const onTrip = isOnTrip(vehicle);
+  const { isWatched, toggleWatched } = useWatchlist();
+  const watched = isWatched(vehicle);
   const primaryImage = vehicle.images[0];
   const hasMultipleImages = vehicle.images.length > 1;
+  const { decoded } = vehicle;
+  const engineLabel = getEngineLabel(decoded);
+  const bodyAndTrim = [decoded?.body, decoded?.trim]
+    .filter(Boolean)
+    .join(" · ");
 
   // Format date for display
   const formatDate = (dateString: string) => {
@@ -36,14 +61,32 @@ function VehicleCardComponent({
     }
   };
 
+  // Days on lot, counted from the earliest of the yard's arrival date and
+  // the first time our snapshot store saw the vehicle
+  const daysOnLot = (() => {
+    const arrival = Math.min(
+      ...[vehicle.availableDate, vehicle.firstSeenAt]
+        .filter((date): date is string => Boolean(date))
+        .map((date) => new Date(date).getTime())
+        .filter((time) => !isNaN(time)),
+    );
+    if (!isFinite(arrival)) return null;
+    return Math.max(0, Math.floor((Date.now() - arrival) / 86_400_000));
+  })();
+
   return (
-    <Card className="group overflow-hidden py-0 transition-shadow hover:shadow-lg">
+    <Card
+      className={cn(
+        "group overflow-hidden py-0 transition-shadow hover:shadow-lg",
+        watched && "ring-2 ring-yellow-400",
+      )}
+    >
       <CardHeader className="p-0">
         {/* Vehicle Image */}
         <div className="bg-muted relative aspect-video overflow-hidden">
           {primaryImage ? (
             <Image
-              loader={wsrvLoader}
+              loader={imageLoader}
               src={primaryImage.url}
               alt={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
               fill
@@ -58,6 +101,16 @@ function VehicleCardComponent({
             </div>
           )}
 
+          {primaryImage && onImageClick && (
+            <button
+              type="button"
+              className="absolute inset-0 cursor-zoom-in"
+              onClick={() => onImageClick(vehicle.images, 0)}
+            >
+              <span className="sr-only">View photos</span>
+            </button>
+          )}
+
           {/* Image Count Badge */}
           {hasMultipleImages && (
             <Badge
@@ -78,13 +131,32 @@ function VehicleCardComponent({
 
       <CardContent className="p-4">
         {/* Year Make Model */}
-        <div className="mb-3">
-          <h3 className="text-foreground text-lg font-semibold">
-            {vehicle.year} {vehicle.make} {vehicle.model}
-          </h3>
-          <p className="text-muted-foreground text-sm">
-            Color: {vehicle.color}
-          </p>
+        <div className="mb-3 flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="text-foreground text-lg font-semibold">
+              {vehicle.year} {vehicle.make} {vehicle.model}
+            </h3>
+            <p className="text-muted-foreground text-sm">
+              Color: {vehicle.color}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="-mt-1 -mr-2 shrink-0"
+            aria-pressed={watched}
+            onClick={() => toggleWatched(vehicle)}
+          >
+            <Star
+              className={cn(
+                "h-5 w-5",
+                watched && "fill-yellow-400 text-yellow-400",
+              )}
+            />
+            <span className="sr-only">
+              {watched ? "Remove from watchlist" : "Add to watchlist"}
+            </span>
+          </Button>
         </div>
 
         {/* Vehicle Details */}
@@ -94,6 +166,35 @@ function VehicleCardComponent({
             <span className="font-mono text-xs">{vehicle.vin || "N/A"}</span>
           </div>
 
+          {decoded && !decoded.checkDigitValid && (
+            <p className="text-destructive text-xs">
+              VIN check digit doesn&apos;t match, decoded details may be wrong
+            </p>
+          )}
+
+          {engineLabel && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Engine:</span>
+              <span className="text-xs">{engineLabel}</span>
+            </div>
+          )}
+
+          {bodyAndTrim && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Body:</span>
+              <span className="text-xs">{bodyAndTrim}</span>
+            </div>
+          )}
+
+          {decoded?.plant && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Built in:</span>
+              <span className="text-xs">
+                {[decoded.plant, decoded.country].filter(Boolean).join(", ")}
+              </span>
+            </div>
+          )}
+
           {(vehicle.yardLocation.section ||
             vehicle.yardLocation.row ||
             vehicle.yardLocation.space) && (
@@ -115,6 +216,13 @@ function VehicleCardComponent({
             <span className="text-muted-foreground">Available:</span>
             <span className="text-xs">{formatDate(vehicle.availableDate)}</span>
           </div>
+
+          {daysOnLot !== null && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Days on lot:</span>
+              <span className="text-xs">{daysOnLot}</span>
+            </div>
+          )}
         </div>
 
         {/* Location */}
@@ -130,11 +238,7 @@ function VehicleCardComponent({
         {/* Action Buttons */}
         <div className="flex w-full gap-2">
           <Button asChild className="flex-1" variant="default">
-            <Link
-              href={vehicle.detailsUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-            >
+            <Link href={getVehiclePageUrl(vehicle)}>
               <Eye className="mr-1.5 h-4 w-4" />
               View Details
             </Link>
@@ -151,6 +255,19 @@ function VehicleCardComponent({
             </Link>
           </Button>
         </div>
+
+        <Button
+          className="w-full"
+          variant={onTrip ? "secondary" : "ghost"}
+          onClick={() => toggleVehicle(vehicle)}
+        >
+          {onTrip ? (
+            <Check className="mr-1.5 h-4 w-4" />
+          ) : (
+            <Route className="mr-1.5 h-4 w-4" />
+          )}
+          {onTrip ? "On Trip" : "Add to Trip"}
+        </Button>
       </CardFooter>
     </Card>
   );
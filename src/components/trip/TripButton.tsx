@@ -0,0 +1,31 @@
+"use client";
+
+import { Route } from "lucide-react";
+import Link from "next/link";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { useTrip } from "~/hooks/use-trip";
+
+interface TripButtonProps {
+  origin: string | null; // `origin` URL param, carried over to the trip
+}
+
+export function TripButton({ origin }: TripButtonProps) {
+  const { vehicles } = useTrip();
+
+  return (
+    <Button asChild variant="outline" size="icon" className="relative">
+      <Link
+        href={origin ? `/trip?origin=${encodeURIComponent(origin)}` : "/trip"}
+      >
+        <Route className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">Trip</span>
+        {vehicles.length > 0 && (
+          <Badge className="absolute -top-1 -right-1 h-5 min-w-5 rounded-full px-1 text-xs tabular-nums">
+            {vehicles.length}
+          </Badge>
+        )}
+      </Link>
+    </Button>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { Star } from "lucide-react";
+import Link from "next/link";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { useWatchlist } from "~/hooks/use-watchlist";
+
+export function WatchlistButton() {
+  const { watchlist } = useWatchlist();
+
+  return (
+    <Button asChild variant="outline" size="icon" className="relative">
+      <Link href="/watchlist">
+        <Star className="h-[1.2rem] w-[1.2rem]" />
+        <span className="sr-only">Watchlist</span>
+        {watchlist.length > 0 && (
+          <Badge className="absolute -top-1 -right-1 h-5 min-w-5 rounded-full px-1 text-xs tabular-nums">
+            {watchlist.length}
+          </Badge>
+        )}
+      </Link>
+    </Button>
+  );
+}
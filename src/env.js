@@ -8,6 +8,41 @@ export const env = createEnv({
    */
   server: {
     NODE_ENV: z.enum(["development", "test", "production"]),
+    // Comma separated inventory source ids, e.g. "lkq" or "lkq,fake"
+    INVENTORY_SOURCES: z.string().default("lkq"),
+    // libsql connection string: a local file or a remote libsql/Turso database
+    DATABASE_URL: z.string().default("file:db.sqlite"),
+    DATABASE_AUTH_TOKEN: z.string().optional(),
+    // Bearer token required by the scheduled job routes under /api/cron and
+    // crawler settings; without it those are refused
+    CRON_SECRET: z.string().optional(),
+    // Public URL of the app, used for links in outbound notifications
+    APP_URL: z.string().url().optional(),
+    // Set by Vercel to the deployment's host, the fallback for APP_URL
+    VERCEL_URL: z.string().optional(),
+    // Port the local server listens on, for links when neither is set
+    PORT: z.coerce.number().int().default(3000),
+    // SMTP server for email alerts; point it at a local catcher (e.g. Mailpit) in dev
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().int().default(587),
+    SMTP_SECURE: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((value) => value === "true"),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    SMTP_FROM: z.string().default("Junkyard Search <alerts@localhost>"),
+    // Comma separated recipients of email alerts
+    ALERT_EMAIL_TO: z.string().optional(),
+    // Comma separated URLs that receive signed JSON alert webhooks
+    ALERT_WEBHOOK_URLS: z.string().optional(),
+    ALERT_WEBHOOK_SECRET: z.string().optional(),
+    // VAPID keys for Web Push, generate with `npx web-push generate-vapid-keys`
+    VAPID_PRIVATE_KEY: z.string().optional(),
+    VAPID_SUBJECT: z.string().default("mailto:alerts@localhost"),
+    // Where the image proxy keeps resized photos, and how big that may grow
+    IMAGE_CACHE_DIR: z.string().default(".next/cache/image-proxy"),
+    IMAGE_CACHE_MAX_MB: z.coerce.number().positive().default(512),
   },
 
   /**
@@ -16,7 +51,9 @@ export const env = createEnv({
    * `NEXT_PUBLIC_`.
    */
   client: {
-    // NEXT_PUBLIC_CLIENTVAR: z.string(),
+    NEXT_PUBLIC_VAPID_PUBLIC_KEY: z.string().optional(),
+    // "wsrv" resizes photos through wsrv.nl, "self" through /api/image
+    NEXT_PUBLIC_IMAGE_LOADER: z.enum(["wsrv", "self"]).default("wsrv"),
   },
 
   /**
@@ -25,7 +62,28 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
-    // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
+    INVENTORY_SOURCES: process.env.INVENTORY_SOURCES,
+    DATABASE_URL: process.env.DATABASE_URL,
+    DATABASE_AUTH_TOKEN: process.env.DATABASE_AUTH_TOKEN,
+    CRON_SECRET: process.env.CRON_SECRET,
+    APP_URL: process.env.APP_URL,
+    VERCEL_URL: process.env.VERCEL_URL,
+    PORT: process.env.PORT,
+    SMTP_HOST: process.env.SMTP_HOST,
+    SMTP_PORT: process.env.SMTP_PORT,
+    SMTP_SECURE: process.env.SMTP_SECURE,
+    SMTP_USER: process.env.SMTP_USER,
+    SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+    SMTP_FROM: process.env.SMTP_FROM,
+    ALERT_EMAIL_TO: process.env.ALERT_EMAIL_TO,
+    ALERT_WEBHOOK_URLS: process.env.ALERT_WEBHOOK_URLS,
+    ALERT_WEBHOOK_SECRET: process.env.ALERT_WEBHOOK_SECRET,
+    VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+    VAPID_SUBJECT: process.env.VAPID_SUBJECT,
+    IMAGE_CACHE_DIR: process.env.IMAGE_CACHE_DIR,
+    IMAGE_CACHE_MAX_MB: process.env.IMAGE_CACHE_MAX_MB,
+    NEXT_PUBLIC_VAPID_PUBLIC_KEY: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
+    NEXT_PUBLIC_IMAGE_LOADER: process.env.NEXT_PUBLIC_IMAGE_LOADER,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
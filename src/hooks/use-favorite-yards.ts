@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback } from "react";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
+
+/**
+ * Location codes of the yards starred as favorites, kept in this browser's
+ * preferences
+ */
+export function useFavoriteYards() {
+  const { preferences, updatePreferences } = useUserPreferences();
+  const { favoriteLocations } = preferences;
+
+  const isFavorite = useCallback(
+    (locationCode: string) => favoriteLocations.includes(locationCode),
+    [favoriteLocations],
+  );
+
+  // Stars the yard, or unstars it if it's already a favorite
+  const toggleFavorite = useCallback(
+    (locationCode: string) => {
+      updatePreferences((current) => ({
+        ...current,
+        favoriteLocations: current.favoriteLocations.includes(locationCode)
+          ? current.favoriteLocations.filter((code) => code !== locationCode)
+          : [...current.favoriteLocations, locationCode],
+      }));
+    },
+    [updatePreferences],
+  );
+
+  return { favoriteLocations, isFavorite, toggleFavorite };
+}
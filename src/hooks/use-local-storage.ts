@@ -0,0 +1,65 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+
+// Fired on this tab's own writes; "storage" only fires in other tabs
+const CHANGE_EVENT = "local-storage-change";
+
+// Parsed values by key, reused until the stored JSON changes so snapshots
+// stay referentially stable
+const cache = new Map<string, { json: string | null; value: unknown }>();
+
+function read<T>(key: string, fallback: T): T {
+  const json = window.localStorage.getItem(key);
+  const cached = cache.get(key);
+  if (cached?.json === json) return cached.value as T;
+
+  let value = fallback;
+  try {
+    if (json) value = JSON.parse(json) as T;
+  } catch {
+    // Keep the fallback for values that aren't valid JSON
+  }
+  cache.set(key, { json, value });
+  return value;
+}
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+/**
+ * A JSON value kept in this browser's local storage, shared by every
+ * component that reads the same key and across tabs
+ *
+ * `fallback` is used until something is stored, and during server
+ * rendering, so it should be a stable reference.
+ */
+export function useLocalStorage<T>(
+  key: string,
+  fallback: T,
+): [T, (update: (current: T) => T) => void] {
+  const value = useSyncExternalStore(
+    subscribe,
+    () => read(key, fallback),
+    () => fallback,
+  );
+
+  const setValue = useCallback(
+    (update: (current: T) => T) => {
+      window.localStorage.setItem(
+        key,
+        JSON.stringify(update(read(key, fallback))),
+      );
+      window.dispatchEvent(new Event(CHANGE_EVENT));
+    },
+    [key, fallback],
+  );
+
+  return [value, setValue];
+}
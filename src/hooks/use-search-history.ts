@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback } from "react";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
+import { addRecentSearch } from "~/lib/search-history";
+
+/**
+ * Recent searches and the pinned default filters, kept in this browser's
+ * preferences
+ */
+export function useSearchHistory() {
+  const { preferences, updatePreferences } = useUserPreferences();
+  const { recentSearches, defaultFilters } = preferences;
+
+  // `params` is the serialized query and filters the search ran with
+  const recordSearch = useCallback(
+    (query: string, params: string) => {
+      updatePreferences((current) => ({
+        ...current,
+        recentSearches: addRecentSearch(current.recentSearches, {
+          query,
+          params,
+          searchedAt: new Date().toISOString(),
+        }),
+      }));
+    },
+    [updatePreferences],
+  );
+
+  const clearRecentSearches = useCallback(() => {
+    updatePreferences((current) => ({ ...current, recentSearches: [] }));
+  }, [updatePreferences]);
+
+  // `params` is the serialized filters, "" unpins the current default
+  const pinDefaultFilters = useCallback(
+    (params: string) => {
+      updatePreferences((current) => ({ ...current, defaultFilters: params }));
+    },
+    [updatePreferences],
+  );
+
+  return {
+    recentSearches,
+    defaultFilters,
+    recordSearch,
+    clearRecentSearches,
+    pinDefaultFilters,
+  };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useLocalStorage } from "~/hooks/use-local-storage";
+import { getVehicleKey } from "~/lib/trip";
+import type { Vehicle } from "~/lib/types";
+
+const NO_VEHICLES: Vehicle[] = [];
+
+/**
+ * Vehicles picked for a trip, kept in this browser's local storage
+ */
+export function useTrip() {
+  const [vehicles, setVehicles] = useLocalStorage("trip", NO_VEHICLES);
+  const keys = useMemo(() => new Set(vehicles.map(getVehicleKey)), [vehicles]);
+
+  const isOnTrip = useCallback(
+    (vehicle: Vehicle) => keys.has(getVehicleKey(vehicle)),
+    [keys],
+  );
+
+  // Adds the vehicle, or takes it off if it's already on the trip
+  const toggleVehicle = useCallback(
+    (vehicle: Vehicle) => {
+      const key = getVehicleKey(vehicle);
+      setVehicles((current) =>
+        current.some((other) => getVehicleKey(other) === key)
+          ? current.filter((other) => getVehicleKey(other) !== key)
+          : [...current, vehicle],
+      );
+    },
+    [setVehicles],
+  );
+
+  const clearTrip = useCallback(() => setVehicles(() => []), [setVehicles]);
+
+  return { vehicles, isOnTrip, toggleVehicle, clearTrip };
+}
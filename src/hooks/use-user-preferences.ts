@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useLocalStorage } from "~/hooks/use-local-storage";
+import type { UserPreferences } from "~/lib/types";
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  favoriteLocations: [],
+  recentSearches: [],
+  defaultFilters: "",
+  watchlist: [],
+};
+
+// Fill in fields added since the preferences were stored
+function withDefaults(stored: UserPreferences): UserPreferences {
+  return { ...DEFAULT_PREFERENCES, ...stored };
+}
+
+/**
+ * Preferences kept in this browser's local storage
+ */
+export function useUserPreferences() {
+  const [stored, setStored] = useLocalStorage<UserPreferences>(
+    "user-preferences",
+    DEFAULT_PREFERENCES,
+  );
+  const preferences = useMemo(() => withDefaults(stored), [stored]);
+
+  const updatePreferences = useCallback(
+    (update: (current: UserPreferences) => UserPreferences) =>
+      setStored((current) => update(withDefaults(current))),
+    [setStored],
+  );
+
+  return { preferences, updatePreferences };
+}
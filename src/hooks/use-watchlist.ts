@@ -0,0 +1,139 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import { useUserPreferences } from "~/hooks/use-user-preferences";
+import type { Vehicle, WatchedVehicle } from "~/lib/types";
+import {
+  createWatchlistSyncCode,
+  getWatchKey,
+  getWatchRef,
+  MAX_WATCHED_VEHICLES,
+  mergeWatchlists,
+} from "~/lib/watchlist";
+import { api } from "~/trpc/react";
+
+/**
+ * Starred vehicles, kept in this browser's preferences and, when sync is
+ * turned on, pushed to the server after every change
+ */
+export function useWatchlist() {
+  const { preferences, updatePreferences } = useUserPreferences();
+  const { watchlist, syncWatchlist = false, watchlistSyncCode } = preferences;
+  const utils = api.useUtils();
+  const { mutate: pushWatchlist } = api.watchlist.save.useMutation({
+    onError: (error) => {
+      toast.error("Could not sync watchlist", { description: error.message });
+    },
+  });
+
+  const keys = useMemo(
+    () =>
+      new Set(
+        watchlist.map(({ vehicle }) => getWatchKey(getWatchRef(vehicle))),
+      ),
+    [watchlist],
+  );
+
+  const isWatched = useCallback(
+    (vehicle: Vehicle) => keys.has(getWatchKey(getWatchRef(vehicle))),
+    [keys],
+  );
+
+  // Stores the new list and pushes it under the sync code when syncing
+  const setWatchlist = useCallback(
+    (
+      update: (current: WatchedVehicle[]) => WatchedVehicle[],
+      syncCode = syncWatchlist ? watchlistSyncCode : undefined,
+    ) => {
+      let next: WatchedVehicle[] = [];
+      updatePreferences((current) => {
+        next = update(current.watchlist);
+        return {
+          ...current,
+          watchlist: next,
+          syncWatchlist: !!syncCode,
+          watchlistSyncCode: syncCode ?? current.watchlistSyncCode,
+        };
+      });
+      if (syncCode) pushWatchlist({ syncCode, watchlist: next });
+    },
+    [syncWatchlist, watchlistSyncCode, updatePreferences, pushWatchlist],
+  );
+
+  // Stars the vehicle, or unstars it if it's already watched
+  const toggleWatched = useCallback(
+    (vehicle: Vehicle) => {
+      const key = getWatchKey(getWatchRef(vehicle));
+      if (!keys.has(key) && keys.size >= MAX_WATCHED_VEHICLES) {
+        toast.error("Your watchlist is full", {
+          description: `Unstar a vehicle to make room, up to ${MAX_WATCHED_VEHICLES} can be watched.`,
+        });
+        return;
+      }
+
+      setWatchlist((current) =>
+        current.some(
+          (watched) => getWatchKey(getWatchRef(watched.vehicle)) === key,
+        )
+          ? current.filter(
+              (watched) => getWatchKey(getWatchRef(watched.vehicle)) !== key,
+            )
+          : [{ vehicle, addedAt: new Date().toISOString() }, ...current],
+      );
+    },
+    [keys, setWatchlist],
+  );
+
+  const clearWatchlist = useCallback(
+    () => setWatchlist(() => []),
+    [setWatchlist],
+  );
+
+  // Turning sync on merges in what the server already has under the sync
+  // code, so starring on another device first loses nothing. Passing the
+  // code from another device joins its list; otherwise this browser's own
+  // code is used, made on first use.
+  const setSyncWatchlist = useCallback(
+    async (enabled: boolean, syncCode?: string) => {
+      const code = enabled
+        ? (syncCode ?? watchlistSyncCode ?? createWatchlistSyncCode())
+        : undefined;
+      let synced: WatchedVehicle[] = [];
+      try {
+        if (code)
+          synced = await utils.watchlist.getAll.fetch({ syncCode: code });
+      } catch (error) {
+        toast.error("Could not sync watchlist", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+        return;
+      }
+      setWatchlist(
+        (current) =>
+          mergeWatchlists(current, synced).slice(0, MAX_WATCHED_VEHICLES),
+        code,
+      );
+    },
+    [utils, watchlistSyncCode, setWatchlist],
+  );
+
+  // While syncing, the server's copy is the latest of every device's
+  const loadSyncedWatchlist = useCallback(
+    (synced: WatchedVehicle[]) => {
+      updatePreferences((current) => ({ ...current, watchlist: synced }));
+    },
+    [updatePreferences],
+  );
+
+  return {
+    watchlist,
+    syncWatchlist,
+    watchlistSyncCode,
+    isWatched,
+    toggleWatched,
+    clearWatchlist,
+    setSyncWatchlist,
+    loadSyncedWatchlist,
+  };
+}
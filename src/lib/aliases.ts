@@ -0,0 +1,87 @@
+import { SEARCH_CONFIG } from "~/lib/constants";
+import { canonicalizeMake } from "~/lib/makes";
+import type { QueryRewrite } from "~/lib/types";
+
+// Shorthand people type, mapped to the spellings the yards list. Makes
+// the make dictionary already knows (CHEVY, VW, ...) don't need an entry;
+// ambiguous shorthand fans out to every spelling it could mean.
+// prettier-ignore
+const WORD_ALIASES: Record<string, string[]> = {
+  // Makes
+  BENZ: ["MERCEDES-BENZ"], BIMMER: ["BMW"], BEEMER: ["BMW"],
+  CADDY: ["CADILLAC"], MERC: ["MERCURY", "MERCEDES-BENZ"],
+  OLDS: ["OLDSMOBILE"], VOLKS: ["VOLKSWAGEN"],
+  // Models
+  CRV: ["CR-V"], HRV: ["HR-V"], CRZ: ["CR-Z"],
+  CX3: ["CX-3"], CX5: ["CX-5"], CX7: ["CX-7"], CX9: ["CX-9"],
+  MX5: ["MX-5", "MX-5 MIATA"], RX7: ["RX-7"], RX8: ["RX-8"],
+  F150: ["F-150"], F250: ["F-250"], F350: ["F-350"],
+  E150: ["E-150"], E250: ["E-250"], E350: ["E-350"],
+  S10: ["S-10"], ES350: ["ES 350"], RX350: ["RX 350"],
+  RAV: ["RAV4"], FJ: ["FJ CRUISER"],
+};
+
+/**
+ * Every spelling a single typed word should match, canonical first
+ */
+export function getWordSpellings(word: string): string[] {
+  const upper = word.toUpperCase();
+  const aliases = WORD_ALIASES[upper];
+  if (aliases) return aliases;
+
+  const make = canonicalizeMake(upper);
+  return [make ?? upper];
+}
+
+/**
+ * Expand the aliases in a plain-text query into the queries to search
+ *
+ * Each word is swapped for its listed spelling, so "chevy silverado"
+ * becomes "CHEVROLET SILVERADO". Ambiguous words multiply the number of
+ * queries, which is capped so one search can't fan out too far.
+ */
+export function expandAliases(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+
+  return words.reduce<string[]>(
+    (queries, word) =>
+      [
+        ...new Set(
+          queries.flatMap((query) =>
+            getWordSpellings(word).map((spelling) => {
+              // "mercedes benz" shouldn't become "MERCEDES-BENZ MERCEDES-BENZ"
+              if (query.split(" ").includes(spelling)) return query;
+              return query ? `${query} ${spelling}` : spelling;
+            }),
+          ),
+        ),
+      ].slice(0, SEARCH_CONFIG.MAX_QUERY_VARIANTS),
+    [""],
+  );
+}
+
+/**
+ * Expand the aliases of every upstream query of a search, without repeats
+ */
+export function expandUpstreamQueries(texts: string[]): string[] {
+  return [...new Set(texts.flatMap(expandAliases))];
+}
+
+/**
+ * Describe how a query's aliases were rewritten, or null when it was
+ * searched as typed
+ */
+export function getQueryRewrite(texts: string[]): QueryRewrite | null {
+  const queries = expandUpstreamQueries(texts);
+  const asTyped = texts.map((text) =>
+    text.split(/\s+/).filter(Boolean).join(" ").toUpperCase(),
+  );
+  if (
+    queries.length === asTyped.length &&
+    queries.every((query, index) => query === asTyped[index])
+  ) {
+    return null;
+  }
+
+  return { original: texts.join(" | "), queries };
+}
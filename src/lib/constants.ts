@@ -7,16 +7,58 @@ export const SEARCH_CONFIG = {
   MAX_RETRIES: 3,
   BASE_RETRY_DELAY: 1000,
   MAX_RETRY_DELAY: 10000,
+  MAX_PAGES_PER_LOCATION: 10, // Upper bound on inventory pages walked per yard
+  MAX_QUERY_VARIANTS: 4, // Alias spellings searched for one query
+  PAGE_SIZE: 48, // Vehicles per page of search results
+  MAX_PAGE_SIZE: 200,
 } as const;
 
-// API endpoints
-export const API_ENDPOINTS = {
-  LKQ_BASE: "https://www.lkqpickyourpart.com",
-  VEHICLE_INVENTORY:
-    "/DesktopModules/pyp_vehicleInventory/getVehicleInventory.aspx",
-  LOCATION_PAGE: "/inventory/",
+// Orders search results can be sorted in
+export const SORT_OPTIONS = [
+  "newest",
+  "oldest",
+  "year-desc",
+  "year-asc",
+  "distance",
+] as const;
+
+// Background crawler configuration
+export const CRAWLER_CONFIG = {
+  DEFAULT_INTERVAL_MINUTES: 120, // How often a yard is re-crawled unless overridden
+  JITTER_MINUTES: 15, // Random +/- spread so yards don't all come due together
+  MAX_PAGES: 100, // Page cap for a full-yard crawl
+  MAX_LOCATIONS_PER_RUN: 8, // The rest of the due yards wait for the next run
+  RUN_TIME_LIMIT: 240_000, // Milliseconds a run may spend paging, under the cron route's 300 s limit
+  MAX_CONCURRENT_LOCATIONS: 2,
+  WARM_DATA_MAX_INTERVALS: 2, // Serve crawled data until it's this many intervals old
 } as const;
 
+// Radius choices for the distance filter, in miles
+export const DISTANCE_OPTIONS = [25, 50, 100, 250, 500] as const;
+
+// Choices for the "arrived within" filter; "custom" uses a date range
+export const ARRIVAL_WINDOWS = ["24h", "3d", "7d", "30d", "custom"] as const;
+
+// File formats search results can be exported to
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+
+// US state names by postal abbreviation
+// prettier-ignore
+export const US_STATE_NAMES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", DC: "District of Columbia",
+  FL: "Florida", GA: "Georgia", HI: "Hawaii", ID: "Idaho", IL: "Illinois",
+  IN: "Indiana", IA: "Iowa", KS: "Kansas", KY: "Kentucky", LA: "Louisiana",
+  ME: "Maine", MD: "Maryland", MA: "Massachusetts", MI: "Michigan",
+  MN: "Minnesota", MS: "Mississippi", MO: "Missouri", MT: "Montana",
+  NE: "Nebraska", NV: "Nevada", NH: "New Hampshire", NJ: "New Jersey",
+  NM: "New Mexico", NY: "New York", NC: "North Carolina", ND: "North Dakota",
+  OH: "Ohio", OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania",
+  RI: "Rhode Island", SC: "South Carolina", SD: "South Dakota",
+  TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont", VA: "Virginia",
+  WA: "Washington", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+};
+
 // Error messages
 export const ERROR_MESSAGES = {
   SEARCH_FAILED: "Search failed. Please try again.",
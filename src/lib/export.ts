@@ -0,0 +1,94 @@
+import superjson from "superjson";
+import type { ExportFormat, Vehicle } from "~/lib/types";
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (vehicle: Vehicle) => string | number;
+}
+
+// Columns an export can have, in the order they're written
+export const EXPORT_COLUMNS = [
+  { id: "year", label: "Year", value: (vehicle) => vehicle.year },
+  { id: "make", label: "Make", value: (vehicle) => vehicle.make },
+  { id: "model", label: "Model", value: (vehicle) => vehicle.model },
+  { id: "color", label: "Color", value: (vehicle) => vehicle.color },
+  { id: "vin", label: "VIN", value: (vehicle) => vehicle.vin },
+  {
+    id: "stockNumber",
+    label: "Stock #",
+    value: (vehicle) => vehicle.stockNumber,
+  },
+  {
+    id: "section",
+    label: "Section",
+    value: (vehicle) => vehicle.yardLocation.section,
+  },
+  { id: "row", label: "Row", value: (vehicle) => vehicle.yardLocation.row },
+  {
+    id: "space",
+    label: "Space",
+    value: (vehicle) => vehicle.yardLocation.space,
+  },
+  {
+    id: "availableDate",
+    label: "Available",
+    value: (vehicle) => vehicle.availableDate,
+  },
+  {
+    id: "yard",
+    label: "Yard",
+    value: (vehicle) => vehicle.location.displayName,
+  },
+  {
+    id: "state",
+    label: "State",
+    value: (vehicle) => vehicle.location.stateAbbr,
+  },
+  {
+    id: "distance",
+    label: "Distance (mi)",
+    value: (vehicle) => Math.round(vehicle.location.distance * 10) / 10,
+  },
+  {
+    id: "detailsUrl",
+    label: "Details URL",
+    value: (vehicle) => vehicle.detailsUrl,
+  },
+] as const satisfies readonly ExportColumn[];
+
+export type ExportColumnId = (typeof EXPORT_COLUMNS)[number]["id"];
+
+export const EXPORT_COLUMN_IDS = EXPORT_COLUMNS.map((column) => column.id);
+
+/**
+ * The columns to export, in their usual order whatever order they were
+ * picked in
+ */
+export function getExportColumns(ids: readonly string[]): ExportColumn[] {
+  return EXPORT_COLUMNS.filter((column) => ids.includes(column.id));
+}
+
+/**
+ * Name of the downloaded file, dated so repeated exports don't collide
+ */
+export function getExportFileName(format: ExportFormat, date: Date): string {
+  return `vehicles-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Link that downloads every result of a search, given the input the
+ * search page runs `vehicles.search` with
+ */
+export function getExportUrl(
+  format: ExportFormat,
+  columns: readonly string[],
+  input: object,
+): string {
+  const params = new URLSearchParams({
+    format,
+    columns: columns.join(","),
+    input: superjson.stringify(input),
+  });
+  return `/api/export?${params.toString()}`;
+}
@@ -0,0 +1,5 @@
+/**
+ * Hosts vehicle photos are served from, and the only hosts next/image and
+ * the image proxy will load from
+ */
+export const IMAGE_HOSTS = ["cdn.lkqcorp.com", "pypimages.azureedge.net"];
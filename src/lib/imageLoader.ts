@@ -0,0 +1,22 @@
+import { env } from "~/env";
+
+type LoaderProps = { src: string; width: number; quality?: number };
+
+/**
+ * Resize remote images through wsrv.nl, or through this app's own
+ * `/api/image` route when NEXT_PUBLIC_IMAGE_LOADER is "self"
+ */
+export default function imageLoader({ src, width, quality }: LoaderProps) {
+  const params = new URLSearchParams({
+    url: src,
+    w: String(width),
+    q: String(quality ?? 75),
+  });
+  if (env.NEXT_PUBLIC_IMAGE_LOADER === "self") {
+    // The route picks AVIF or WebP from the Accept header
+    return `/api/image?${params.toString()}`;
+  }
+
+  params.set("output", "webp");
+  return `https://wsrv.nl/?${params.toString()}`;
+}
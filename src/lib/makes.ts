@@ -0,0 +1,90 @@
+// Canonical makes, spelled the way LKQ lists them. Several are more than
+// one word, so the year/make/model line can't simply be split on spaces.
+// prettier-ignore
+export const CANONICAL_MAKES = [
+  "ACURA", "ALFA ROMEO", "AM GENERAL", "ASTON MARTIN", "AUDI", "BENTLEY",
+  "BMW", "BUICK", "CADILLAC", "CHEVROLET", "CHRYSLER", "DAEWOO", "DAIHATSU",
+  "DODGE", "EAGLE", "FERRARI", "FIAT", "FORD", "FREIGHTLINER", "GENESIS",
+  "GEO", "GMC", "HARLEY-DAVIDSON", "HONDA", "HUMMER", "HYUNDAI", "INFINITI",
+  "INTERNATIONAL", "ISUZU", "JAGUAR", "JEEP", "KIA", "LAMBORGHINI",
+  "LAND ROVER", "LEXUS", "LINCOLN", "LOTUS", "MASERATI", "MAYBACH", "MAZDA",
+  "MCLAREN", "MERCEDES-BENZ", "MERCURY", "MERKUR", "MINI", "MITSUBISHI",
+  "NISSAN", "OLDSMOBILE", "PETERBILT", "PLYMOUTH", "POLESTAR", "PONTIAC",
+  "PORSCHE", "RAM", "RIVIAN", "ROLLS-ROYCE", "SAAB", "SATURN", "SCION",
+  "SMART", "STERLING", "SUBARU", "SUZUKI", "TESLA", "TOYOTA", "VOLKSWAGEN",
+  "VOLVO", "WORKHORSE", "YUGO",
+] as const;
+
+// Other spellings seen in yard listings, mapped to the canonical make
+const MAKE_ALIASES: Record<string, string> = {
+  "ALFA-ROMEO": "ALFA ROMEO",
+  "ASTON-MARTIN": "ASTON MARTIN",
+  CHEVY: "CHEVROLET",
+  "HARLEY DAVIDSON": "HARLEY-DAVIDSON",
+  "LAND-ROVER": "LAND ROVER",
+  LANDROVER: "LAND ROVER",
+  MERCEDES: "MERCEDES-BENZ",
+  "MERCEDES BENZ": "MERCEDES-BENZ",
+  "MERCEDES-BENZ TRUCKS": "MERCEDES-BENZ",
+  "ROLLS ROYCE": "ROLLS-ROYCE",
+  VW: "VOLKSWAGEN",
+};
+
+// Every spelling we recognise, canonical or alias
+const MAKE_DICTIONARY = new Map<string, string>([
+  ...CANONICAL_MAKES.map((make): [string, string] => [make, make]),
+  ...Object.entries(MAKE_ALIASES),
+]);
+
+// Longest entry in the dictionary, in words
+const MAX_MAKE_WORDS = Math.max(
+  ...[...MAKE_DICTIONARY.keys()].map((make) => make.split(" ").length),
+);
+
+function normalizeMakeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toUpperCase();
+}
+
+/**
+ * Map a make, in any recognised spelling, to its canonical name
+ * Returns null for makes that aren't in the dictionary
+ */
+export function canonicalizeMake(make: string): string | null {
+  return MAKE_DICTIONARY.get(normalizeMakeText(make)) ?? null;
+}
+
+/**
+ * Check whether a make is already in its canonical spelling
+ */
+export function isCanonicalMake(make: string): boolean {
+  return MAKE_DICTIONARY.get(make) === make;
+}
+
+/**
+ * Split the "make model" part of a listing into make and model
+ *
+ * The longest run of leading words that is a known make wins, so
+ * "LAND ROVER RANGE ROVER" splits into "LAND ROVER" and "RANGE ROVER",
+ * and "MERCEDES BENZ C230" into "MERCEDES-BENZ" and "C230". Unknown makes
+ * fall back to the first word and are flagged so they can be reported.
+ */
+export function splitMakeAndModel(text: string): {
+  make: string;
+  model: string;
+  known: boolean;
+} {
+  const words = normalizeMakeText(text).split(" ").filter(Boolean);
+
+  for (let count = Math.min(MAX_MAKE_WORDS, words.length); count > 0; count--) {
+    const make = MAKE_DICTIONARY.get(words.slice(0, count).join(" "));
+    if (make) {
+      return { make, model: words.slice(count).join(" "), known: true };
+    }
+  }
+
+  return {
+    make: words[0] ?? "",
+    model: words.slice(1).join(" "),
+    known: false,
+  };
+}
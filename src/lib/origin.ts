@@ -0,0 +1,53 @@
+import { lookupPostalCode } from "~/lib/postal-codes";
+import type { Origin, UserPreferences } from "~/lib/types";
+
+// The `origin` URL param value that stands for the saved home
+export const HOME_ORIGIN = "home";
+
+const COORDINATES_PATTERN = /^(-?\d{1,2}(?:\.\d+)?),(-?\d{1,3}(?:\.\d+)?)$/;
+
+/**
+ * Write coordinates as an `origin` URL param value, rounded to about a
+ * kilometre so the URL doesn't pin down where the user is standing
+ */
+export function formatCoordinates(lat: number, lng: number): string {
+  return `${lat.toFixed(2)},${lng.toFixed(2)}`;
+}
+
+/**
+ * Resolve an `origin` URL param value to a point
+ *
+ * The value is a US or Canadian postal code, "lat,lng" coordinates from the
+ * browser's location, or "home" for the home saved in `preferences`.
+ * Returns null when it can't be resolved, in which case the server falls
+ * back to locating the request.
+ */
+export function resolveOrigin(
+  value: string | null,
+  preferences?: Pick<UserPreferences, "location" | "locationLabel">,
+): Origin | null {
+  if (!value) return null;
+
+  if (value === HOME_ORIGIN) {
+    if (!preferences?.location) return null;
+    const [lat, lng] = preferences.location;
+    return { lat, lng, label: preferences.locationLabel ?? "Home" };
+  }
+
+  const coordinates = COORDINATES_PATTERN.exec(value);
+  if (coordinates) {
+    const lat = Number(coordinates[1]);
+    const lng = Number(coordinates[2]);
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    return { lat, lng, label: "Current location" };
+  }
+
+  const centroid = lookupPostalCode(value);
+  return centroid
+    ? {
+        lat: centroid.lat,
+        lng: centroid.lng,
+        label: `${value.trim().toUpperCase()} (${centroid.place})`,
+      }
+    : null;
+}
@@ -0,0 +1,708 @@
+// Offline postal code centroids, so an origin can be set without calling
+// a geocoding service. US ZIPs are resolved by their first three digits
+// (the sectional center), Canadian postal codes by their forward sortation
+// area, which puts the point within a few tens of miles: close enough to
+// rank yards, not to navigate by.
+
+// Ranges of US 3-digit ZIP prefixes: first, last, lat, lng, nearest city
+// prettier-ignore
+const US_ZIP_PREFIXES: Array<[number, number, number, number, string]> = [
+  // New England
+  [5, 5, 40.81, -73.04, "Holtsville, NY"],
+  [6, 7, 18.22, -66.59, "San Juan, PR"],
+  [8, 8, 18.34, -64.93, "St. Thomas, VI"],
+  [9, 9, 18.22, -66.59, "San Juan, PR"],
+  [10, 11, 42.1, -72.59, "Springfield, MA"],
+  [12, 12, 42.45, -73.25, "Pittsfield, MA"],
+  [13, 13, 42.59, -72.6, "Greenfield, MA"],
+  [14, 16, 42.26, -71.8, "Worcester, MA"],
+  [17, 17, 42.28, -71.42, "Framingham, MA"],
+  [18, 18, 42.48, -71.15, "Woburn, MA"],
+  [19, 19, 42.52, -70.9, "Salem, MA"],
+  [20, 22, 42.36, -71.06, "Boston, MA"],
+  [23, 24, 42.08, -71.02, "Brockton, MA"],
+  [25, 26, 41.65, -70.29, "Hyannis, MA"],
+  [27, 27, 41.64, -70.93, "New Bedford, MA"],
+  [28, 29, 41.82, -71.41, "Providence, RI"],
+  [30, 31, 42.99, -71.46, "Manchester, NH"],
+  [32, 33, 43.21, -71.54, "Concord, NH"],
+  [34, 34, 42.93, -72.28, "Keene, NH"],
+  [35, 35, 44.31, -71.77, "Littleton, NH"],
+  [36, 37, 43.64, -72.25, "Lebanon, NH"],
+  [38, 38, 43.07, -70.76, "Portsmouth, NH"],
+  [39, 41, 43.66, -70.26, "Portland, ME"],
+  [42, 42, 44.1, -70.21, "Lewiston, ME"],
+  [43, 43, 44.31, -69.78, "Augusta, ME"],
+  [44, 44, 44.8, -68.77, "Bangor, ME"],
+  [45, 46, 44.54, -68.42, "Ellsworth, ME"],
+  [47, 47, 46.68, -68.02, "Presque Isle, ME"],
+  [48, 48, 44.1, -69.11, "Rockland, ME"],
+  [49, 49, 44.55, -69.63, "Waterville, ME"],
+  [50, 51, 43.65, -72.32, "White River Junction, VT"],
+  [52, 52, 42.88, -73.2, "Bennington, VT"],
+  [53, 53, 42.85, -72.56, "Brattleboro, VT"],
+  [54, 54, 44.48, -73.21, "Burlington, VT"],
+  [55, 55, 42.66, -71.14, "Andover, MA"],
+  [56, 56, 44.26, -72.58, "Montpelier, VT"],
+  [57, 57, 43.61, -72.97, "Rutland, VT"],
+  [58, 59, 44.42, -72.02, "St. Johnsbury, VT"],
+  [60, 62, 41.76, -72.68, "Hartford, CT"],
+  [63, 63, 41.36, -72.1, "New London, CT"],
+  [64, 65, 41.31, -72.92, "New Haven, CT"],
+  [66, 66, 41.19, -73.2, "Bridgeport, CT"],
+  [67, 67, 41.56, -73.05, "Waterbury, CT"],
+  [68, 69, 41.05, -73.54, "Stamford, CT"],
+  // New Jersey, New York, Pennsylvania
+  [70, 71, 40.74, -74.17, "Newark, NJ"],
+  [72, 72, 40.66, -74.21, "Elizabeth, NJ"],
+  [73, 73, 40.73, -74.08, "Jersey City, NJ"],
+  [74, 75, 40.92, -74.17, "Paterson, NJ"],
+  [76, 76, 40.89, -74.04, "Hackensack, NJ"],
+  [77, 77, 40.35, -74.07, "Red Bank, NJ"],
+  [78, 78, 40.88, -74.56, "Dover, NJ"],
+  [79, 79, 40.72, -74.36, "Summit, NJ"],
+  [80, 82, 39.93, -75.12, "Camden, NJ"],
+  [83, 83, 39.49, -75.03, "Vineland, NJ"],
+  [84, 84, 39.36, -74.42, "Atlantic City, NJ"],
+  [85, 86, 40.22, -74.76, "Trenton, NJ"],
+  [87, 87, 40.1, -74.22, "Lakewood, NJ"],
+  [88, 89, 40.49, -74.45, "New Brunswick, NJ"],
+  [100, 102, 40.78, -73.97, "New York, NY"],
+  [103, 103, 40.58, -74.15, "Staten Island, NY"],
+  [104, 104, 40.84, -73.87, "Bronx, NY"],
+  [105, 106, 41.03, -73.76, "White Plains, NY"],
+  [107, 107, 40.93, -73.9, "Yonkers, NY"],
+  [108, 108, 40.91, -73.78, "New Rochelle, NY"],
+  [109, 109, 41.11, -74.04, "Suffern, NY"],
+  [110, 111, 40.74, -73.86, "Queens, NY"],
+  [112, 112, 40.65, -73.95, "Brooklyn, NY"],
+  [113, 114, 40.72, -73.81, "Queens, NY"],
+  [115, 115, 40.7, -73.62, "Hempstead, NY"],
+  [116, 116, 40.6, -73.76, "Far Rockaway, NY"],
+  [117, 118, 40.78, -73.28, "Long Island, NY"],
+  [119, 119, 40.92, -72.66, "Riverhead, NY"],
+  [120, 123, 42.65, -73.76, "Albany, NY"],
+  [124, 124, 41.93, -74.0, "Kingston, NY"],
+  [125, 126, 41.7, -73.92, "Poughkeepsie, NY"],
+  [127, 127, 41.66, -74.69, "Monticello, NY"],
+  [128, 128, 43.31, -73.64, "Glens Falls, NY"],
+  [129, 129, 44.7, -73.45, "Plattsburgh, NY"],
+  [130, 132, 43.05, -76.15, "Syracuse, NY"],
+  [133, 135, 43.1, -75.23, "Utica, NY"],
+  [136, 136, 43.97, -75.91, "Watertown, NY"],
+  [137, 139, 42.1, -75.91, "Binghamton, NY"],
+  [140, 143, 42.89, -78.88, "Buffalo, NY"],
+  [144, 146, 43.16, -77.61, "Rochester, NY"],
+  [147, 147, 42.1, -79.24, "Jamestown, NY"],
+  [148, 149, 42.09, -76.81, "Elmira, NY"],
+  [150, 154, 40.44, -80.0, "Pittsburgh, PA"],
+  [155, 155, 40.01, -79.08, "Somerset, PA"],
+  [156, 156, 40.3, -79.54, "Greensburg, PA"],
+  [157, 157, 40.62, -79.15, "Indiana, PA"],
+  [158, 158, 41.12, -78.76, "DuBois, PA"],
+  [159, 159, 40.33, -78.92, "Johnstown, PA"],
+  [160, 161, 41.0, -80.35, "New Castle, PA"],
+  [162, 162, 40.82, -79.52, "Kittanning, PA"],
+  [163, 163, 41.43, -79.71, "Oil City, PA"],
+  [164, 165, 42.13, -80.09, "Erie, PA"],
+  [166, 166, 40.52, -78.4, "Altoona, PA"],
+  [167, 167, 41.96, -78.64, "Bradford, PA"],
+  [168, 168, 40.79, -77.86, "State College, PA"],
+  [169, 169, 41.75, -77.3, "Wellsboro, PA"],
+  [170, 171, 40.27, -76.88, "Harrisburg, PA"],
+  [172, 172, 39.94, -77.66, "Chambersburg, PA"],
+  [173, 174, 39.96, -76.73, "York, PA"],
+  [175, 176, 40.04, -76.31, "Lancaster, PA"],
+  [177, 177, 41.24, -77.0, "Williamsport, PA"],
+  [178, 178, 40.86, -76.79, "Sunbury, PA"],
+  [179, 179, 40.69, -76.2, "Pottsville, PA"],
+  [180, 181, 40.6, -75.47, "Allentown, PA"],
+  [182, 182, 40.96, -75.97, "Hazleton, PA"],
+  [183, 183, 40.99, -75.18, "East Stroudsburg, PA"],
+  [184, 185, 41.41, -75.66, "Scranton, PA"],
+  [186, 188, 41.25, -75.88, "Wilkes-Barre, PA"],
+  [189, 189, 40.31, -75.13, "Doylestown, PA"],
+  [190, 192, 39.95, -75.16, "Philadelphia, PA"],
+  [193, 193, 39.96, -75.6, "West Chester, PA"],
+  [194, 194, 40.12, -75.34, "Norristown, PA"],
+  [195, 196, 40.34, -75.93, "Reading, PA"],
+  // Mid-Atlantic and Southeast
+  [197, 198, 39.74, -75.55, "Wilmington, DE"],
+  [199, 199, 39.16, -75.52, "Dover, DE"],
+  [200, 205, 38.9, -77.03, "Washington, DC"],
+  [206, 206, 38.63, -76.94, "Waldorf, MD"],
+  [207, 208, 38.98, -76.94, "College Park, MD"],
+  [209, 209, 38.99, -77.03, "Silver Spring, MD"],
+  [210, 212, 39.29, -76.61, "Baltimore, MD"],
+  [214, 214, 38.98, -76.49, "Annapolis, MD"],
+  [215, 215, 39.65, -78.76, "Cumberland, MD"],
+  [216, 216, 38.77, -76.08, "Easton, MD"],
+  [217, 217, 39.41, -77.41, "Frederick, MD"],
+  [218, 218, 38.36, -75.6, "Salisbury, MD"],
+  [219, 219, 39.61, -75.83, "Elkton, MD"],
+  [220, 223, 38.85, -77.2, "Fairfax, VA"],
+  [224, 225, 38.3, -77.46, "Fredericksburg, VA"],
+  [226, 226, 39.19, -78.16, "Winchester, VA"],
+  [227, 227, 38.47, -78.0, "Culpeper, VA"],
+  [228, 228, 38.45, -78.87, "Harrisonburg, VA"],
+  [229, 229, 38.03, -78.48, "Charlottesville, VA"],
+  [230, 232, 37.54, -77.44, "Richmond, VA"],
+  [233, 235, 36.85, -76.29, "Norfolk, VA"],
+  [236, 236, 37.09, -76.47, "Newport News, VA"],
+  [237, 237, 36.84, -76.3, "Portsmouth, VA"],
+  [238, 238, 37.23, -77.4, "Petersburg, VA"],
+  [239, 239, 37.3, -78.39, "Farmville, VA"],
+  [240, 241, 37.27, -79.94, "Roanoke, VA"],
+  [242, 242, 36.6, -82.19, "Bristol, VA"],
+  [243, 243, 37.05, -80.78, "Pulaski, VA"],
+  [244, 244, 38.15, -79.07, "Staunton, VA"],
+  [245, 245, 37.41, -79.14, "Lynchburg, VA"],
+  [246, 248, 37.27, -81.22, "Bluefield, WV"],
+  [249, 249, 37.8, -80.45, "Lewisburg, WV"],
+  [250, 253, 38.35, -81.63, "Charleston, WV"],
+  [254, 254, 39.46, -77.96, "Martinsburg, WV"],
+  [255, 257, 38.42, -82.44, "Huntington, WV"],
+  [258, 259, 37.78, -81.19, "Beckley, WV"],
+  [260, 260, 40.06, -80.72, "Wheeling, WV"],
+  [261, 261, 39.27, -81.56, "Parkersburg, WV"],
+  [262, 264, 39.28, -80.34, "Clarksburg, WV"],
+  [265, 265, 39.63, -79.96, "Morgantown, WV"],
+  [266, 266, 38.67, -80.77, "Gassaway, WV"],
+  [267, 268, 39.2, -78.9, "Romney, WV"],
+  [270, 274, 36.07, -79.9, "Greensboro, NC"],
+  [275, 277, 35.85, -78.75, "Raleigh, NC"],
+  [278, 278, 35.94, -77.79, "Rocky Mount, NC"],
+  [279, 279, 36.3, -76.22, "Elizabeth City, NC"],
+  [280, 282, 35.23, -80.84, "Charlotte, NC"],
+  [283, 283, 35.05, -78.88, "Fayetteville, NC"],
+  [284, 284, 34.23, -77.94, "Wilmington, NC"],
+  [285, 285, 35.26, -77.58, "Kinston, NC"],
+  [286, 286, 35.73, -81.34, "Hickory, NC"],
+  [287, 289, 35.6, -82.55, "Asheville, NC"],
+  [290, 292, 34.0, -81.03, "Columbia, SC"],
+  [293, 293, 34.95, -81.93, "Spartanburg, SC"],
+  [294, 294, 32.78, -79.93, "Charleston, SC"],
+  [295, 295, 34.2, -79.76, "Florence, SC"],
+  [296, 296, 34.85, -82.4, "Greenville, SC"],
+  [297, 297, 34.92, -81.03, "Rock Hill, SC"],
+  [298, 298, 33.56, -81.72, "Aiken, SC"],
+  [299, 299, 32.43, -80.67, "Beaufort, SC"],
+  [300, 303, 33.75, -84.39, "Atlanta, GA"],
+  [304, 304, 32.6, -82.33, "Swainsboro, GA"],
+  [305, 305, 34.3, -83.82, "Gainesville, GA"],
+  [306, 306, 33.96, -83.38, "Athens, GA"],
+  [307, 307, 34.77, -85.0, "Dalton, GA"],
+  [308, 309, 33.47, -81.97, "Augusta, GA"],
+  [310, 312, 32.84, -83.63, "Macon, GA"],
+  [313, 314, 32.08, -81.09, "Savannah, GA"],
+  [315, 315, 31.21, -82.35, "Waycross, GA"],
+  [316, 316, 30.83, -83.28, "Valdosta, GA"],
+  [317, 317, 31.58, -84.16, "Albany, GA"],
+  [318, 319, 32.46, -84.99, "Columbus, GA"],
+  [320, 320, 30.33, -81.66, "Jacksonville, FL"],
+  [321, 321, 29.21, -81.02, "Daytona Beach, FL"],
+  [322, 322, 30.33, -81.66, "Jacksonville, FL"],
+  [323, 323, 30.44, -84.28, "Tallahassee, FL"],
+  [324, 324, 30.16, -85.66, "Panama City, FL"],
+  [325, 325, 30.42, -87.22, "Pensacola, FL"],
+  [326, 326, 29.65, -82.32, "Gainesville, FL"],
+  [327, 328, 28.54, -81.38, "Orlando, FL"],
+  [329, 329, 28.08, -80.61, "Melbourne, FL"],
+  [330, 332, 25.76, -80.19, "Miami, FL"],
+  [333, 333, 26.12, -80.14, "Fort Lauderdale, FL"],
+  [334, 334, 26.71, -80.05, "West Palm Beach, FL"],
+  [335, 336, 27.95, -82.46, "Tampa, FL"],
+  [337, 337, 27.77, -82.64, "St. Petersburg, FL"],
+  [338, 338, 28.04, -81.95, "Lakeland, FL"],
+  [339, 339, 26.64, -81.87, "Fort Myers, FL"],
+  [341, 341, 26.14, -81.79, "Naples, FL"],
+  [342, 342, 27.34, -82.53, "Sarasota, FL"],
+  [344, 344, 29.19, -82.14, "Ocala, FL"],
+  [346, 346, 28.31, -82.46, "Wesley Chapel, FL"],
+  [347, 347, 28.54, -81.38, "Orlando, FL"],
+  [349, 349, 27.45, -80.33, "Fort Pierce, FL"],
+  [350, 352, 33.52, -86.8, "Birmingham, AL"],
+  [354, 354, 33.21, -87.57, "Tuscaloosa, AL"],
+  [355, 355, 33.83, -87.28, "Jasper, AL"],
+  [356, 356, 34.61, -86.98, "Decatur, AL"],
+  [357, 358, 34.73, -86.59, "Huntsville, AL"],
+  [359, 359, 34.01, -86.01, "Gadsden, AL"],
+  [360, 361, 32.37, -86.3, "Montgomery, AL"],
+  [362, 362, 33.66, -85.83, "Anniston, AL"],
+  [363, 363, 31.22, -85.39, "Dothan, AL"],
+  [364, 364, 31.43, -86.96, "Evergreen, AL"],
+  [365, 366, 30.69, -88.04, "Mobile, AL"],
+  [367, 367, 32.41, -87.02, "Selma, AL"],
+  [368, 368, 32.65, -85.38, "Opelika, AL"],
+  [369, 369, 32.36, -88.7, "Meridian, MS"],
+  [370, 372, 36.16, -86.78, "Nashville, TN"],
+  [373, 374, 35.05, -85.31, "Chattanooga, TN"],
+  [376, 376, 36.31, -82.35, "Johnson City, TN"],
+  [377, 379, 35.96, -83.92, "Knoxville, TN"],
+  [380, 381, 35.15, -90.05, "Memphis, TN"],
+  [382, 382, 36.13, -88.52, "McKenzie, TN"],
+  [383, 383, 35.61, -88.81, "Jackson, TN"],
+  [384, 384, 35.62, -87.04, "Columbia, TN"],
+  [385, 385, 36.16, -85.5, "Cookeville, TN"],
+  [386, 386, 34.5, -89.9, "Batesville, MS"],
+  [387, 387, 33.41, -91.06, "Greenville, MS"],
+  [388, 388, 34.26, -88.7, "Tupelo, MS"],
+  [389, 389, 33.77, -89.81, "Grenada, MS"],
+  [390, 392, 32.3, -90.18, "Jackson, MS"],
+  [393, 393, 32.36, -88.7, "Meridian, MS"],
+  [394, 394, 31.33, -89.29, "Hattiesburg, MS"],
+  [395, 395, 30.37, -89.09, "Gulfport, MS"],
+  [396, 396, 31.24, -90.45, "McComb, MS"],
+  [397, 397, 33.5, -88.43, "Columbus, MS"],
+  [398, 398, 31.58, -84.16, "Albany, GA"],
+  [399, 399, 33.75, -84.39, "Atlanta, GA"],
+  // Midwest
+  [400, 402, 38.25, -85.76, "Louisville, KY"],
+  [403, 405, 38.04, -84.5, "Lexington, KY"],
+  [406, 406, 38.2, -84.87, "Frankfort, KY"],
+  [407, 409, 37.13, -84.08, "London, KY"],
+  [410, 410, 39.05, -84.5, "Covington, KY"],
+  [411, 412, 38.48, -82.64, "Ashland, KY"],
+  [413, 414, 37.74, -83.55, "Campton, KY"],
+  [415, 416, 37.48, -82.52, "Pikeville, KY"],
+  [417, 418, 37.25, -83.19, "Hazard, KY"],
+  [420, 420, 37.08, -88.6, "Paducah, KY"],
+  [421, 422, 36.99, -86.44, "Bowling Green, KY"],
+  [423, 423, 37.77, -87.11, "Owensboro, KY"],
+  [424, 424, 37.84, -87.59, "Henderson, KY"],
+  [425, 426, 37.09, -84.6, "Somerset, KY"],
+  [427, 427, 37.69, -85.86, "Elizabethtown, KY"],
+  [430, 432, 39.96, -83.0, "Columbus, OH"],
+  [433, 433, 40.59, -83.13, "Marion, OH"],
+  [434, 436, 41.65, -83.54, "Toledo, OH"],
+  [437, 438, 39.94, -82.01, "Zanesville, OH"],
+  [439, 439, 40.36, -80.63, "Steubenville, OH"],
+  [440, 441, 41.5, -81.69, "Cleveland, OH"],
+  [442, 443, 41.08, -81.52, "Akron, OH"],
+  [444, 445, 41.1, -80.65, "Youngstown, OH"],
+  [446, 447, 40.8, -81.38, "Canton, OH"],
+  [448, 449, 40.76, -82.52, "Mansfield, OH"],
+  [450, 452, 39.1, -84.51, "Cincinnati, OH"],
+  [453, 455, 39.76, -84.19, "Dayton, OH"],
+  [456, 456, 39.33, -82.98, "Chillicothe, OH"],
+  [457, 457, 39.33, -82.1, "Athens, OH"],
+  [458, 458, 40.74, -84.1, "Lima, OH"],
+  [459, 459, 39.1, -84.51, "Cincinnati, OH"],
+  [460, 462, 39.77, -86.16, "Indianapolis, IN"],
+  [463, 464, 41.59, -87.35, "Gary, IN"],
+  [465, 466, 41.68, -86.25, "South Bend, IN"],
+  [467, 468, 41.08, -85.14, "Fort Wayne, IN"],
+  [469, 469, 40.49, -86.13, "Kokomo, IN"],
+  [470, 470, 39.1, -84.85, "Lawrenceburg, IN"],
+  [471, 471, 38.29, -85.76, "Jeffersonville, IN"],
+  [472, 472, 39.2, -85.92, "Columbus, IN"],
+  [473, 473, 40.19, -85.39, "Muncie, IN"],
+  [474, 474, 39.17, -86.53, "Bloomington, IN"],
+  [475, 475, 38.66, -87.17, "Washington, IN"],
+  [476, 477, 37.97, -87.57, "Evansville, IN"],
+  [478, 478, 39.47, -87.41, "Terre Haute, IN"],
+  [479, 479, 40.42, -86.88, "Lafayette, IN"],
+  [480, 482, 42.33, -83.05, "Detroit, MI"],
+  [483, 483, 42.64, -83.29, "Pontiac, MI"],
+  [484, 485, 43.01, -83.69, "Flint, MI"],
+  [486, 487, 43.42, -83.95, "Saginaw, MI"],
+  [488, 489, 42.73, -84.56, "Lansing, MI"],
+  [490, 491, 42.29, -85.59, "Kalamazoo, MI"],
+  [492, 492, 42.25, -84.4, "Jackson, MI"],
+  [493, 495, 42.96, -85.67, "Grand Rapids, MI"],
+  [496, 496, 44.76, -85.62, "Traverse City, MI"],
+  [497, 497, 45.03, -84.67, "Gaylord, MI"],
+  [498, 499, 46.54, -87.4, "Marquette, MI"],
+  [500, 503, 41.59, -93.62, "Des Moines, IA"],
+  [504, 504, 43.15, -93.2, "Mason City, IA"],
+  [505, 505, 42.5, -94.17, "Fort Dodge, IA"],
+  [506, 507, 42.49, -92.34, "Waterloo, IA"],
+  [508, 508, 41.06, -94.36, "Creston, IA"],
+  [509, 509, 41.59, -93.62, "Des Moines, IA"],
+  [510, 511, 42.5, -96.4, "Sioux City, IA"],
+  [512, 512, 43.18, -95.86, "Sheldon, IA"],
+  [513, 513, 43.14, -95.14, "Spencer, IA"],
+  [514, 514, 42.07, -94.87, "Carroll, IA"],
+  [515, 515, 41.26, -95.86, "Council Bluffs, IA"],
+  [516, 516, 40.77, -95.37, "Shenandoah, IA"],
+  [520, 520, 42.5, -90.66, "Dubuque, IA"],
+  [521, 521, 43.3, -91.79, "Decorah, IA"],
+  [522, 524, 41.98, -91.67, "Cedar Rapids, IA"],
+  [525, 525, 41.02, -92.41, "Ottumwa, IA"],
+  [526, 526, 40.81, -91.11, "Burlington, IA"],
+  [527, 528, 41.52, -90.58, "Davenport, IA"],
+  [530, 532, 43.04, -87.91, "Milwaukee, WI"],
+  [534, 534, 42.73, -87.78, "Racine, WI"],
+  [535, 535, 43.07, -89.4, "Madison, WI"],
+  [537, 537, 43.07, -89.4, "Madison, WI"],
+  [538, 538, 42.73, -90.48, "Platteville, WI"],
+  [539, 539, 43.54, -89.46, "Portage, WI"],
+  [540, 540, 44.98, -92.75, "Hudson, WI"],
+  [541, 543, 44.51, -88.01, "Green Bay, WI"],
+  [544, 544, 44.96, -89.63, "Wausau, WI"],
+  [545, 545, 45.64, -89.41, "Rhinelander, WI"],
+  [546, 546, 43.8, -91.24, "La Crosse, WI"],
+  [547, 547, 44.81, -91.5, "Eau Claire, WI"],
+  [548, 548, 45.82, -91.89, "Spooner, WI"],
+  [549, 549, 44.02, -88.54, "Oshkosh, WI"],
+  [550, 551, 44.95, -93.09, "St. Paul, MN"],
+  [553, 555, 44.98, -93.27, "Minneapolis, MN"],
+  [556, 558, 46.79, -92.1, "Duluth, MN"],
+  [559, 559, 44.02, -92.47, "Rochester, MN"],
+  [560, 560, 44.16, -94.0, "Mankato, MN"],
+  [561, 561, 43.87, -95.12, "Windom, MN"],
+  [562, 562, 45.12, -95.04, "Willmar, MN"],
+  [563, 563, 45.56, -94.16, "St. Cloud, MN"],
+  [564, 564, 46.36, -94.2, "Brainerd, MN"],
+  [565, 565, 46.82, -95.85, "Detroit Lakes, MN"],
+  [566, 566, 47.47, -94.88, "Bemidji, MN"],
+  [567, 567, 48.12, -96.18, "Thief River Falls, MN"],
+  [570, 571, 43.55, -96.73, "Sioux Falls, SD"],
+  [572, 572, 44.9, -97.11, "Watertown, SD"],
+  [573, 573, 43.71, -98.03, "Mitchell, SD"],
+  [574, 574, 45.46, -98.49, "Aberdeen, SD"],
+  [575, 575, 44.37, -100.35, "Pierre, SD"],
+  [576, 576, 45.54, -100.43, "Mobridge, SD"],
+  [577, 577, 44.08, -103.23, "Rapid City, SD"],
+  [580, 581, 46.88, -96.79, "Fargo, ND"],
+  [582, 582, 47.93, -97.03, "Grand Forks, ND"],
+  [583, 583, 48.11, -98.86, "Devils Lake, ND"],
+  [584, 584, 46.91, -98.71, "Jamestown, ND"],
+  [585, 585, 46.81, -100.78, "Bismarck, ND"],
+  [586, 586, 46.88, -102.79, "Dickinson, ND"],
+  [587, 587, 48.23, -101.3, "Minot, ND"],
+  [588, 588, 48.15, -103.62, "Williston, ND"],
+  [590, 591, 45.78, -108.5, "Billings, MT"],
+  [592, 592, 48.09, -105.64, "Wolf Point, MT"],
+  [593, 593, 46.41, -105.84, "Miles City, MT"],
+  [594, 594, 47.5, -111.3, "Great Falls, MT"],
+  [595, 595, 48.55, -109.68, "Havre, MT"],
+  [596, 596, 46.59, -112.04, "Helena, MT"],
+  [597, 597, 46.0, -112.53, "Butte, MT"],
+  [598, 598, 46.87, -113.99, "Missoula, MT"],
+  [599, 599, 48.2, -114.31, "Kalispell, MT"],
+  [600, 603, 42.03, -87.88, "Chicago suburbs, IL"],
+  [604, 604, 41.6, -87.85, "Tinley Park, IL"],
+  [605, 605, 41.76, -88.32, "Aurora, IL"],
+  [606, 608, 41.88, -87.63, "Chicago, IL"],
+  [609, 609, 41.12, -87.86, "Kankakee, IL"],
+  [610, 611, 42.27, -89.09, "Rockford, IL"],
+  [612, 612, 41.51, -90.58, "Rock Island, IL"],
+  [613, 613, 41.33, -89.09, "La Salle, IL"],
+  [614, 614, 40.95, -90.37, "Galesburg, IL"],
+  [615, 616, 40.69, -89.59, "Peoria, IL"],
+  [617, 617, 40.48, -88.99, "Bloomington, IL"],
+  [618, 619, 40.12, -88.24, "Champaign, IL"],
+  [620, 620, 38.89, -90.18, "Alton, IL"],
+  [622, 622, 38.62, -90.15, "East St. Louis, IL"],
+  [623, 623, 39.94, -91.41, "Quincy, IL"],
+  [624, 624, 39.12, -88.54, "Effingham, IL"],
+  [625, 627, 39.8, -89.64, "Springfield, IL"],
+  [628, 628, 38.53, -89.13, "Centralia, IL"],
+  [629, 629, 37.73, -89.22, "Carbondale, IL"],
+  [630, 631, 38.63, -90.2, "St. Louis, MO"],
+  [633, 633, 38.79, -90.5, "St. Charles, MO"],
+  [634, 634, 39.71, -91.36, "Hannibal, MO"],
+  [635, 635, 40.19, -92.58, "Kirksville, MO"],
+  [636, 636, 37.85, -90.52, "Park Hills, MO"],
+  [637, 637, 37.31, -89.52, "Cape Girardeau, MO"],
+  [638, 638, 36.88, -89.59, "Sikeston, MO"],
+  [639, 639, 36.76, -90.39, "Poplar Bluff, MO"],
+  [640, 641, 39.1, -94.58, "Kansas City, MO"],
+  [644, 645, 39.77, -94.85, "St. Joseph, MO"],
+  [646, 646, 39.8, -93.55, "Chillicothe, MO"],
+  [647, 647, 38.66, -94.35, "Harrisonville, MO"],
+  [648, 648, 37.08, -94.51, "Joplin, MO"],
+  [649, 649, 39.1, -94.58, "Kansas City, MO"],
+  [650, 651, 38.58, -92.17, "Jefferson City, MO"],
+  [652, 652, 38.95, -92.33, "Columbia, MO"],
+  [653, 653, 38.7, -93.23, "Sedalia, MO"],
+  [654, 655, 37.95, -91.77, "Rolla, MO"],
+  [656, 658, 37.21, -93.29, "Springfield, MO"],
+  [660, 662, 39.11, -94.63, "Kansas City, KS"],
+  [664, 666, 39.05, -95.68, "Topeka, KS"],
+  [667, 667, 37.84, -94.71, "Fort Scott, KS"],
+  [668, 668, 38.4, -96.18, "Emporia, KS"],
+  [669, 669, 39.57, -97.66, "Concordia, KS"],
+  [670, 672, 37.69, -97.34, "Wichita, KS"],
+  [673, 673, 37.22, -95.71, "Independence, KS"],
+  [674, 674, 38.84, -97.61, "Salina, KS"],
+  [675, 675, 38.06, -97.93, "Hutchinson, KS"],
+  [676, 676, 38.88, -99.33, "Hays, KS"],
+  [677, 677, 39.4, -101.05, "Colby, KS"],
+  [678, 678, 37.75, -100.02, "Dodge City, KS"],
+  [679, 679, 37.04, -100.92, "Liberal, KS"],
+  [680, 681, 41.26, -95.94, "Omaha, NE"],
+  [683, 685, 40.81, -96.7, "Lincoln, NE"],
+  [686, 686, 41.43, -97.37, "Columbus, NE"],
+  [687, 687, 42.03, -97.42, "Norfolk, NE"],
+  [688, 688, 40.92, -98.34, "Grand Island, NE"],
+  [689, 689, 40.59, -98.39, "Hastings, NE"],
+  [690, 690, 40.2, -100.63, "McCook, NE"],
+  [691, 691, 41.12, -100.77, "North Platte, NE"],
+  [692, 692, 42.87, -100.55, "Valentine, NE"],
+  [693, 693, 42.1, -102.87, "Alliance, NE"],
+  // South Central
+  [700, 701, 29.95, -90.07, "New Orleans, LA"],
+  [703, 703, 29.8, -90.82, "Thibodaux, LA"],
+  [704, 704, 30.5, -90.46, "Hammond, LA"],
+  [705, 705, 30.22, -92.02, "Lafayette, LA"],
+  [706, 706, 30.23, -93.22, "Lake Charles, LA"],
+  [707, 708, 30.45, -91.15, "Baton Rouge, LA"],
+  [710, 711, 32.53, -93.75, "Shreveport, LA"],
+  [712, 712, 32.51, -92.12, "Monroe, LA"],
+  [713, 714, 31.31, -92.45, "Alexandria, LA"],
+  [716, 716, 34.23, -92.0, "Pine Bluff, AR"],
+  [717, 717, 33.58, -92.83, "Camden, AR"],
+  [718, 718, 33.44, -94.04, "Texarkana, AR"],
+  [719, 719, 34.5, -93.06, "Hot Springs, AR"],
+  [720, 722, 34.75, -92.29, "Little Rock, AR"],
+  [723, 723, 35.15, -90.18, "West Memphis, AR"],
+  [724, 724, 35.84, -90.7, "Jonesboro, AR"],
+  [725, 725, 35.77, -91.64, "Batesville, AR"],
+  [726, 726, 36.23, -93.11, "Harrison, AR"],
+  [727, 727, 36.06, -94.16, "Fayetteville, AR"],
+  [728, 728, 35.28, -93.13, "Russellville, AR"],
+  [729, 729, 35.39, -94.4, "Fort Smith, AR"],
+  [730, 731, 35.47, -97.52, "Oklahoma City, OK"],
+  [734, 734, 34.17, -97.14, "Ardmore, OK"],
+  [735, 735, 34.6, -98.39, "Lawton, OK"],
+  [736, 736, 35.52, -98.97, "Clinton, OK"],
+  [737, 737, 36.4, -97.88, "Enid, OK"],
+  [738, 738, 36.43, -99.39, "Woodward, OK"],
+  [739, 739, 36.68, -101.48, "Guymon, OK"],
+  [740, 741, 36.15, -95.99, "Tulsa, OK"],
+  [743, 743, 36.64, -95.15, "Vinita, OK"],
+  [744, 744, 35.75, -95.37, "Muskogee, OK"],
+  [745, 745, 34.93, -95.77, "McAlester, OK"],
+  [746, 746, 36.71, -97.09, "Ponca City, OK"],
+  [747, 747, 33.99, -96.37, "Durant, OK"],
+  [748, 748, 35.33, -96.93, "Shawnee, OK"],
+  [749, 749, 35.05, -94.62, "Poteau, OK"],
+  [750, 753, 32.78, -96.8, "Dallas, TX"],
+  [754, 754, 33.14, -96.11, "Greenville, TX"],
+  [755, 755, 33.43, -94.05, "Texarkana, TX"],
+  [756, 756, 32.5, -94.74, "Longview, TX"],
+  [757, 757, 32.35, -95.3, "Tyler, TX"],
+  [758, 758, 31.76, -95.63, "Palestine, TX"],
+  [759, 759, 31.34, -94.73, "Lufkin, TX"],
+  [760, 761, 32.76, -97.33, "Fort Worth, TX"],
+  [762, 762, 33.21, -97.13, "Denton, TX"],
+  [763, 763, 33.91, -98.49, "Wichita Falls, TX"],
+  [764, 764, 32.22, -98.2, "Stephenville, TX"],
+  [765, 765, 31.1, -97.34, "Temple, TX"],
+  [766, 767, 31.55, -97.15, "Waco, TX"],
+  [768, 768, 31.71, -98.99, "Brownwood, TX"],
+  [769, 769, 31.46, -100.44, "San Angelo, TX"],
+  [770, 772, 29.76, -95.37, "Houston, TX"],
+  [773, 773, 30.31, -95.46, "Conroe, TX"],
+  [774, 774, 29.58, -95.76, "Richmond, TX"],
+  [775, 775, 29.4, -94.95, "Galveston, TX"],
+  [776, 777, 30.08, -94.13, "Beaumont, TX"],
+  [778, 778, 30.67, -96.37, "Bryan, TX"],
+  [779, 779, 28.8, -97.0, "Victoria, TX"],
+  [780, 782, 29.42, -98.49, "San Antonio, TX"],
+  [783, 784, 27.8, -97.4, "Corpus Christi, TX"],
+  [785, 785, 26.2, -98.23, "McAllen, TX"],
+  [786, 787, 30.27, -97.74, "Austin, TX"],
+  [788, 788, 29.21, -99.79, "Uvalde, TX"],
+  [789, 789, 30.18, -96.94, "Giddings, TX"],
+  [790, 791, 35.22, -101.83, "Amarillo, TX"],
+  [792, 792, 34.43, -100.2, "Childress, TX"],
+  [793, 794, 33.58, -101.86, "Lubbock, TX"],
+  [795, 796, 32.45, -99.73, "Abilene, TX"],
+  [797, 797, 31.99, -102.08, "Midland, TX"],
+  [798, 799, 31.76, -106.49, "El Paso, TX"],
+  // Mountain and West
+  [800, 802, 39.74, -104.99, "Denver, CO"],
+  [803, 803, 40.01, -105.27, "Boulder, CO"],
+  [804, 804, 39.75, -105.22, "Golden, CO"],
+  [805, 805, 40.59, -105.08, "Fort Collins, CO"],
+  [806, 806, 40.42, -104.71, "Greeley, CO"],
+  [807, 807, 40.26, -103.62, "Brush, CO"],
+  [808, 809, 38.83, -104.82, "Colorado Springs, CO"],
+  [810, 810, 38.25, -104.61, "Pueblo, CO"],
+  [811, 811, 37.47, -105.87, "Alamosa, CO"],
+  [812, 812, 38.53, -106.0, "Salida, CO"],
+  [813, 813, 37.28, -107.88, "Durango, CO"],
+  [814, 815, 39.06, -108.55, "Grand Junction, CO"],
+  [816, 816, 39.55, -107.32, "Glenwood Springs, CO"],
+  [820, 820, 41.14, -104.82, "Cheyenne, WY"],
+  [821, 821, 44.6, -110.5, "Yellowstone, WY"],
+  [822, 822, 42.05, -104.95, "Wheatland, WY"],
+  [823, 823, 41.79, -107.24, "Rawlins, WY"],
+  [824, 824, 44.02, -107.96, "Worland, WY"],
+  [825, 825, 43.02, -108.38, "Riverton, WY"],
+  [826, 826, 42.87, -106.31, "Casper, WY"],
+  [827, 827, 44.29, -105.5, "Gillette, WY"],
+  [828, 828, 44.8, -106.96, "Sheridan, WY"],
+  [829, 831, 41.59, -109.2, "Rock Springs, WY"],
+  [832, 832, 42.87, -112.45, "Pocatello, ID"],
+  [833, 833, 42.56, -114.46, "Twin Falls, ID"],
+  [834, 834, 43.49, -112.03, "Idaho Falls, ID"],
+  [835, 835, 46.42, -117.02, "Lewiston, ID"],
+  [836, 837, 43.62, -116.2, "Boise, ID"],
+  [838, 838, 47.68, -116.78, "Coeur d'Alene, ID"],
+  [840, 841, 40.76, -111.89, "Salt Lake City, UT"],
+  [842, 844, 41.22, -111.97, "Ogden, UT"],
+  [845, 845, 39.6, -110.81, "Price, UT"],
+  [846, 846, 40.23, -111.66, "Provo, UT"],
+  [847, 847, 37.68, -113.06, "Cedar City, UT"],
+  [850, 850, 33.45, -112.07, "Phoenix, AZ"],
+  [851, 852, 33.42, -111.83, "Mesa, AZ"],
+  [853, 853, 33.53, -112.26, "Glendale, AZ"],
+  [855, 855, 33.39, -110.79, "Globe, AZ"],
+  [856, 857, 32.22, -110.97, "Tucson, AZ"],
+  [859, 859, 34.25, -110.03, "Show Low, AZ"],
+  [860, 860, 35.2, -111.65, "Flagstaff, AZ"],
+  [863, 863, 34.54, -112.47, "Prescott, AZ"],
+  [864, 864, 35.19, -114.05, "Kingman, AZ"],
+  [865, 865, 35.25, -109.5, "Chambers, AZ"],
+  [870, 871, 35.08, -106.65, "Albuquerque, NM"],
+  [873, 873, 35.53, -108.74, "Gallup, NM"],
+  [874, 874, 36.73, -108.22, "Farmington, NM"],
+  [875, 875, 35.69, -105.94, "Santa Fe, NM"],
+  [877, 877, 35.59, -105.22, "Las Vegas, NM"],
+  [878, 878, 34.06, -106.89, "Socorro, NM"],
+  [879, 879, 33.13, -107.25, "Truth or Consequences, NM"],
+  [880, 880, 32.32, -106.76, "Las Cruces, NM"],
+  [881, 881, 34.4, -103.2, "Clovis, NM"],
+  [882, 882, 33.39, -104.52, "Roswell, NM"],
+  [883, 883, 32.9, -105.96, "Alamogordo, NM"],
+  [884, 884, 35.17, -103.72, "Tucumcari, NM"],
+  [889, 891, 36.17, -115.14, "Las Vegas, NV"],
+  [893, 893, 39.25, -114.89, "Ely, NV"],
+  [894, 895, 39.53, -119.81, "Reno, NV"],
+  [897, 897, 39.16, -119.77, "Carson City, NV"],
+  [898, 898, 40.83, -115.76, "Elko, NV"],
+  [900, 905, 34.05, -118.24, "Los Angeles, CA"],
+  [906, 908, 33.77, -118.19, "Long Beach, CA"],
+  [910, 912, 34.15, -118.14, "Pasadena, CA"],
+  [913, 916, 34.2, -118.45, "Van Nuys, CA"],
+  [917, 918, 34.06, -117.95, "West Covina, CA"],
+  [919, 921, 32.72, -117.16, "San Diego, CA"],
+  [922, 922, 33.83, -116.55, "Palm Springs, CA"],
+  [923, 924, 34.11, -117.29, "San Bernardino, CA"],
+  [925, 925, 33.95, -117.4, "Riverside, CA"],
+  [926, 928, 33.75, -117.87, "Santa Ana, CA"],
+  [930, 930, 34.2, -119.18, "Oxnard, CA"],
+  [931, 931, 34.42, -119.7, "Santa Barbara, CA"],
+  [932, 933, 35.37, -119.02, "Bakersfield, CA"],
+  [934, 934, 34.95, -120.44, "Santa Maria, CA"],
+  [935, 935, 35.05, -118.17, "Mojave, CA"],
+  [936, 938, 36.74, -119.79, "Fresno, CA"],
+  [939, 939, 36.68, -121.66, "Salinas, CA"],
+  [940, 940, 37.55, -122.3, "San Mateo, CA"],
+  [941, 941, 37.77, -122.42, "San Francisco, CA"],
+  [942, 942, 38.58, -121.49, "Sacramento, CA"],
+  [943, 943, 37.44, -122.14, "Palo Alto, CA"],
+  [944, 944, 37.56, -122.32, "San Mateo, CA"],
+  [945, 946, 37.8, -122.27, "Oakland, CA"],
+  [947, 947, 37.87, -122.27, "Berkeley, CA"],
+  [948, 948, 37.94, -122.35, "Richmond, CA"],
+  [949, 949, 37.97, -122.53, "San Rafael, CA"],
+  [950, 951, 37.34, -121.89, "San Jose, CA"],
+  [952, 953, 37.96, -121.29, "Stockton, CA"],
+  [954, 954, 38.44, -122.71, "Santa Rosa, CA"],
+  [955, 955, 40.8, -124.16, "Eureka, CA"],
+  [956, 958, 38.58, -121.49, "Sacramento, CA"],
+  [959, 959, 39.73, -121.84, "Chico, CA"],
+  [960, 960, 40.59, -122.39, "Redding, CA"],
+  [961, 961, 39.33, -120.18, "Truckee, CA"],
+  [967, 968, 21.31, -157.86, "Honolulu, HI"],
+  [969, 969, 13.44, 144.79, "Hagatna, GU"],
+  [970, 972, 45.52, -122.68, "Portland, OR"],
+  [973, 973, 44.94, -123.04, "Salem, OR"],
+  [974, 974, 44.05, -123.09, "Eugene, OR"],
+  [975, 975, 42.33, -122.87, "Medford, OR"],
+  [976, 976, 42.22, -121.78, "Klamath Falls, OR"],
+  [977, 977, 44.06, -121.32, "Bend, OR"],
+  [978, 978, 45.67, -118.79, "Pendleton, OR"],
+  [979, 979, 44.03, -116.96, "Ontario, OR"],
+  [980, 981, 47.61, -122.33, "Seattle, WA"],
+  [982, 982, 47.98, -122.2, "Everett, WA"],
+  [983, 984, 47.25, -122.44, "Tacoma, WA"],
+  [985, 985, 47.04, -122.9, "Olympia, WA"],
+  [986, 986, 45.64, -122.66, "Vancouver, WA"],
+  [988, 988, 47.42, -120.31, "Wenatchee, WA"],
+  [989, 989, 46.6, -120.51, "Yakima, WA"],
+  [990, 992, 47.66, -117.43, "Spokane, WA"],
+  [993, 993, 46.24, -119.1, "Pasco, WA"],
+  [994, 994, 46.42, -117.05, "Clarkston, WA"],
+  [995, 996, 61.22, -149.9, "Anchorage, AK"],
+  [997, 997, 64.84, -147.72, "Fairbanks, AK"],
+  [998, 998, 58.3, -134.42, "Juneau, AK"],
+  [999, 999, 55.34, -131.64, "Ketchikan, AK"],
+];
+
+// Canadian forward sortation areas: the first letter is a province or
+// region, and the big metros get their own first two characters
+// prettier-ignore
+const CA_POSTAL_REGIONS: Record<string, [number, number, string]> = {
+  A: [47.56, -52.71, "St. John's, NL"], B: [44.65, -63.58, "Halifax, NS"],
+  C: [46.24, -63.13, "Charlottetown, PE"], E: [45.96, -66.64, "Fredericton, NB"],
+  G: [46.81, -71.21, "Quebec City, QC"], H: [45.5, -73.57, "Montreal, QC"],
+  J: [45.88, -72.48, "Drummondville, QC"], K: [44.23, -76.49, "Kingston, ON"],
+  L: [43.59, -79.64, "Mississauga, ON"], M: [43.65, -79.38, "Toronto, ON"],
+  N: [42.98, -81.25, "London, ON"], P: [46.49, -80.99, "Sudbury, ON"],
+  R: [49.9, -97.14, "Winnipeg, MB"], S: [52.13, -106.67, "Saskatoon, SK"],
+  T: [52.27, -113.81, "Red Deer, AB"], V: [49.28, -123.12, "Vancouver, BC"],
+  X: [62.45, -114.37, "Yellowknife, NT"], Y: [60.72, -135.06, "Whitehorse, YT"],
+  B3: [44.65, -63.58, "Halifax, NS"], E1: [46.09, -64.78, "Moncton, NB"],
+  K1: [45.42, -75.7, "Ottawa, ON"], K2: [45.35, -75.78, "Ottawa, ON"],
+  L8: [43.26, -79.87, "Hamilton, ON"], L9: [43.23, -79.9, "Hamilton, ON"],
+  N2: [43.45, -80.49, "Kitchener, ON"], N8: [42.31, -83.04, "Windsor, ON"],
+  N9: [42.28, -82.96, "Windsor, ON"], P3: [46.49, -80.99, "Sudbury, ON"],
+  P7: [48.38, -89.25, "Thunder Bay, ON"], S4: [50.45, -104.61, "Regina, SK"],
+  T1: [49.69, -112.84, "Lethbridge, AB"], T2: [51.05, -114.07, "Calgary, AB"],
+  T3: [51.08, -114.13, "Calgary, AB"], T5: [53.55, -113.49, "Edmonton, AB"],
+  T6: [53.5, -113.5, "Edmonton, AB"], V1: [49.89, -119.5, "Kelowna, BC"],
+  V2: [49.1, -122.65, "Langley, BC"], V8: [48.43, -123.37, "Victoria, BC"],
+  V9: [48.45, -123.45, "Victoria, BC"],
+};
+
+// A point a postal code resolved to
+export interface PostalCodeCentroid {
+  lat: number;
+  lng: number;
+  place: string; // Nearest city, e.g. "Dallas, TX"
+}
+
+const US_ZIP_PATTERN = /^(\d{3})\d{2}(?:-?\d{4})?$/;
+const CA_POSTAL_PATTERN = /^([A-Z])(\d)[A-Z](?: ?\d[A-Z]\d)?$/;
+
+/**
+ * Check whether text looks like a US ZIP or Canadian postal code
+ */
+export function isPostalCode(text: string): boolean {
+  const code = text.trim().toUpperCase();
+  return US_ZIP_PATTERN.test(code) || CA_POSTAL_PATTERN.test(code);
+}
+
+/**
+ * Resolve a US ZIP (5 digits or ZIP+4) or a Canadian postal code (full or
+ * just the forward sortation area) to an approximate point
+ * Returns null for codes that don't parse or aren't in the table
+ */
+export function lookupPostalCode(text: string): PostalCodeCentroid | null {
+  const code = text.trim().toUpperCase();
+
+  const zip = US_ZIP_PATTERN.exec(code);
+  if (zip) {
+    const prefix = Number(zip[1]);
+    const range = US_ZIP_PREFIXES.find(
+      ([first, last]) => prefix >= first && prefix <= last,
+    );
+    return range ? { lat: range[2], lng: range[3], place: range[4] } : null;
+  }
+
+  const postal = CA_POSTAL_PATTERN.exec(code);
+  if (postal) {
+    const region =
+      CA_POSTAL_REGIONS[`${postal[1]}${postal[2]}`] ??
+      CA_POSTAL_REGIONS[postal[1]!];
+    return region ? { lat: region[0], lng: region[1], place: region[2] } : null;
+  }
+
+  return null;
+}
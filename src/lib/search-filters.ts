@@ -0,0 +1,133 @@
+import { canonicalizeMake } from "~/lib/makes";
+import type { ArrivalWindow, SearchFilterState, Vehicle } from "~/lib/types";
+import { getEngineLabel } from "~/lib/vin";
+
+/**
+ * Check a vehicle against the filters held in the search page's URL state
+ *
+ * States and salvage yards are matched by display name (`location.state`
+ * and `location.name`), the same values the sidebar offers. Makes are
+ * compared in their canonical spelling, so vehicles whose make isn't in
+ * the make dictionary never match a make filter. The distance filter
+ * checks `location.distance`, so it only means something for vehicles
+ * searched from the origin the filters were set against.
+ */
+export function matchesFilterState(
+  vehicle: Vehicle,
+  filters: SearchFilterState,
+): boolean {
+  // Year range filter
+  if (filters.minYear !== null && vehicle.year < filters.minYear) {
+    return false;
+  }
+  if (filters.maxYear !== null && vehicle.year > filters.maxYear) {
+    return false;
+  }
+
+  // Make filter
+  if (
+    filters.makes.length > 0 &&
+    !filters.makes
+      .map(canonicalizeMake)
+      .includes(canonicalizeMake(vehicle.make) ?? "")
+  ) {
+    return false;
+  }
+
+  // Model filter
+  if (filters.models.length > 0 && !filters.models.includes(vehicle.model)) {
+    return false;
+  }
+
+  // Color filter
+  if (filters.colors.length > 0 && !filters.colors.includes(vehicle.color)) {
+    return false;
+  }
+
+  // Engine filter, only vehicles whose VIN decoded to an engine can match
+  if (
+    filters.engines.length > 0 &&
+    !filters.engines.includes(getEngineLabel(vehicle.decoded) ?? "")
+  ) {
+    return false;
+  }
+
+  // State filter
+  if (
+    filters.states.length > 0 &&
+    !filters.states.includes(vehicle.location.state)
+  ) {
+    return false;
+  }
+
+  // Salvage yard filter
+  if (
+    filters.salvageYards.length > 0 &&
+    !filters.salvageYards.includes(vehicle.location.name)
+  ) {
+    return false;
+  }
+
+  // Distance filter
+  if (
+    filters.maxDistance !== null &&
+    vehicle.location.distance > filters.maxDistance
+  ) {
+    return false;
+  }
+
+  // Arrival filter
+  const arrivalRange = getArrivalRange(filters.arrived, [
+    filters.arrivedFrom ? new Date(filters.arrivedFrom) : null,
+    filters.arrivedTo ? new Date(filters.arrivedTo) : null,
+  ]);
+  if (arrivalRange) {
+    const availableDate = new Date(vehicle.availableDate);
+    if (availableDate < arrivalRange[0] || availableDate > arrivalRange[1]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Length of each preset arrival window, in hours
+const ARRIVAL_WINDOW_HOURS: Record<Exclude<ArrivalWindow, "custom">, number> = {
+  "24h": 24,
+  "3d": 3 * 24,
+  "7d": 7 * 24,
+  "30d": 30 * 24,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turn the "arrived within" filter into the date range the search API
+ * takes, or undefined when it doesn't narrow anything
+ *
+ * Custom ranges are whole days: `to` includes everything that arrived on
+ * that day. Either end of a custom range may be left open.
+ */
+export function getArrivalRange(
+  window: ArrivalWindow | null,
+  [from, to]: [Date | null, Date | null],
+  now: Date = new Date(),
+): [Date, Date] | undefined {
+  if (window === null) return undefined;
+
+  // Presets run up to the end of today, so nothing arriving later today is
+  // cut off while the page stays open
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  if (window !== "custom") {
+    const hours = ARRIVAL_WINDOW_HOURS[window];
+    return [new Date(now.getTime() - hours * 60 * 60 * 1000), endOfToday];
+  }
+
+  if (!from && !to) return undefined;
+  return [
+    from ?? new Date(0),
+    to ? new Date(to.getTime() + DAY_MS - 1) : endOfToday,
+  ];
+}
@@ -0,0 +1,82 @@
+import { loadSearchFilters } from "~/lib/search-params";
+import type { RecentSearch, SearchSort } from "~/lib/types";
+
+export const MAX_RECENT_SEARCHES = 10;
+// How soon a longer or shorter query counts as the same search being typed
+const REFINE_WINDOW = 60_000;
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  newest: "newest first",
+  oldest: "oldest first",
+  "year-desc": "year high to low",
+  "year-asc": "year low to high",
+  distance: "nearest first",
+};
+
+function getFilterParams(search: RecentSearch): string {
+  const params = new URLSearchParams(search.params);
+  params.delete("q");
+  return params.toString();
+}
+
+/**
+ * Whether a search only carries on typing the previous one, with the same
+ * filters and a query that grew or shrank from it
+ */
+function isRefinement(previous: RecentSearch, search: RecentSearch): boolean {
+  return (
+    Date.parse(search.searchedAt) - Date.parse(previous.searchedAt) <
+      REFINE_WINDOW &&
+    getFilterParams(previous) === getFilterParams(search) &&
+    (search.query.startsWith(previous.query) ||
+      previous.query.startsWith(search.query))
+  );
+}
+
+/**
+ * Put a search at the top of the recent searches, replacing an earlier
+ * run of the same search or the newest one if it was still being typed
+ */
+export function addRecentSearch(
+  recent: RecentSearch[],
+  search: RecentSearch,
+): RecentSearch[] {
+  const [newest] = recent;
+  if (newest?.params === search.params) return recent;
+
+  const rest = recent.filter(
+    (other) =>
+      other.params !== search.params &&
+      !(other === newest && isRefinement(newest, search)),
+  );
+  return [search, ...rest].slice(0, MAX_RECENT_SEARCHES);
+}
+
+/**
+ * Link that runs a recent search again
+ */
+export function getRecentSearchUrl(search: RecentSearch): string {
+  return `/search${search.params}`;
+}
+
+/**
+ * Short description of the filters a recent search had besides its query
+ * Makes, colors, states and years are left out, they're in the query.
+ */
+export function describeSearchFilters(params: string): string {
+  const filters = loadSearchFilters(new URLSearchParams(params));
+  const parts = [...filters.models, ...filters.engines, ...filters.yards];
+  if (filters.distance !== null) {
+    parts.push(`within ${filters.distance} mi`);
+  }
+  if (filters.arrived) {
+    parts.push(
+      filters.arrived === "custom"
+        ? "arrived between set dates"
+        : `arrived within ${filters.arrived}`,
+    );
+  }
+  if (filters.myYards) parts.push("my yards only");
+  if (filters.sort !== "newest") parts.push(SORT_LABELS[filters.sort]);
+  return parts.join(", ");
+}
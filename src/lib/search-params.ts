@@ -0,0 +1,52 @@
+import {
+  createLoader,
+  createSerializer,
+  parseAsArrayOf,
+  parseAsBoolean,
+  parseAsInteger,
+  parseAsIsoDate,
+  parseAsString,
+  parseAsStringLiteral,
+} from "nuqs/server";
+import { ARRIVAL_WINDOWS, SORT_OPTIONS } from "~/lib/constants";
+
+/**
+ * Parsers for the filters in the search page's URL state: everything but
+ * the query and the origin
+ */
+export const searchFilterParsers = {
+  sort: parseAsStringLiteral(SORT_OPTIONS).withDefault("newest"),
+  minYear: parseAsInteger,
+  maxYear: parseAsInteger,
+  makes: parseAsArrayOf(parseAsString).withDefault([]),
+  colors: parseAsArrayOf(parseAsString).withDefault([]),
+  engines: parseAsArrayOf(parseAsString).withDefault([]),
+  states: parseAsArrayOf(parseAsString).withDefault([]),
+  yards: parseAsArrayOf(parseAsString).withDefault([]),
+  models: parseAsArrayOf(parseAsString).withDefault([]),
+  distance: parseAsInteger, // Miles from the user
+  arrived: parseAsStringLiteral(ARRIVAL_WINDOWS),
+  arrivedFrom: parseAsIsoDate, // Custom arrival range, used when arrived=custom
+  arrivedTo: parseAsIsoDate,
+  myYards: parseAsBoolean.withDefault(false), // Only search favorite yards
+};
+
+/**
+ * Parsers for the search page's URL state, shared so links to the search
+ * page (saved searches, alerts) serialize filters exactly like the page does
+ */
+export const searchParamsParsers = {
+  q: parseAsString.withDefault(""),
+  ...searchFilterParsers,
+  origin: parseAsString, // Postal code, "lat,lng" or "home"; see resolveOrigin
+};
+
+/**
+ * Build a `/search` URL from a query and filter state
+ */
+export const serializeSearchParams = createSerializer(searchParamsParsers);
+
+/**
+ * Read the filters out of serialized search params
+ */
+export const loadSearchFilters = createLoader(searchFilterParsers);
@@ -0,0 +1,528 @@
+import { expandAliases } from "~/lib/aliases";
+import { SEARCH_CONFIG, US_STATE_NAMES } from "~/lib/constants";
+import { canonicalizeMake } from "~/lib/makes";
+import type {
+  ParsedSearchQuery,
+  SearchQueryError,
+  SearchQueryField,
+  SearchQueryTerm,
+  SyncedSearchFilters,
+  Vehicle,
+} from "~/lib/types";
+
+const QUERY_FIELDS: SearchQueryField[] = [
+  "make",
+  "model",
+  "color",
+  "state",
+  "yard",
+  "vin",
+];
+
+// Fields whose values are mirrored into the sidebar's URL params
+const SYNCED_FIELDS: SearchQueryField[] = ["make", "color", "state"];
+
+const YEAR_RANGE_PATTERN = /^(\d{4})-(\d{4})?$/;
+const YEAR_FIELD_PATTERN = /^(\d{4})?(?:(-)(\d{4})?)?$/;
+
+/**
+ * Read a bare or quoted value starting at `start`
+ */
+function readValue(
+  input: string,
+  start: number,
+  stopAtComma: boolean,
+): { value: string; quoted: boolean; end: number; error?: SearchQueryError } {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close < 0) {
+      return {
+        value: input.slice(start + 1),
+        quoted: true,
+        end: input.length,
+        error: { message: "Missing closing quote", start, end: input.length },
+      };
+    }
+    return {
+      value: input.slice(start + 1, close),
+      quoted: true,
+      end: close + 1,
+    };
+  }
+
+  let end = start;
+  while (
+    end < input.length &&
+    !/[\s|"]/.test(input[end]!) &&
+    !(stopAtComma && input[end] === ",")
+  ) {
+    end++;
+  }
+  return { value: input.slice(start, end), quoted: false, end };
+}
+
+/**
+ * Parse a year field value: `2018`, `2006-2011`, `2006-` or `-2011`
+ */
+function parseYearValue(
+  value: string,
+): { min: number | null; max: number | null } | null {
+  const match = YEAR_FIELD_PATTERN.exec(value);
+  if (!match || (!match[1] && !match[3])) return null;
+
+  const min = match[1] ? parseInt(match[1]) : null;
+  const max = match[2] ? (match[3] ? parseInt(match[3]) : null) : min;
+  return { min, max };
+}
+
+/**
+ * Read one term, e.g. `civic`, `-coupe`, `color:red,blue` or `2006-2011`
+ */
+function readTerm(
+  input: string,
+  start: number,
+): { term: SearchQueryTerm | null; end: number; error?: SearchQueryError } {
+  let position = start;
+  const negated = input[position] === "-";
+  if (negated) position++;
+
+  const qualifier = /^([a-z]+):/i.exec(input.slice(position));
+  const fieldName = qualifier?.[1]?.toLowerCase();
+  if (qualifier) position += qualifier[0].length;
+
+  // Field values can be a comma separated list, e.g. `color:red,blue`
+  const values: string[] = [];
+  let quoted = false;
+  for (;;) {
+    const read = readValue(input, position, fieldName !== undefined);
+    if (read.error) return { term: null, end: read.end, error: read.error };
+    values.push(read.value);
+    quoted ||= read.quoted;
+    position = read.end;
+
+    if (fieldName === undefined || input[position] !== ",") break;
+    position++;
+  }
+
+  const end = position;
+  const fail = (message: string) => ({
+    term: null,
+    end,
+    error: { message, start, end },
+  });
+
+  if (values.some((value) => value.trim() === "")) {
+    if (fieldName) return fail(`Missing value after "${fieldName}:"`);
+    return fail(negated ? 'Nothing to exclude after "-"' : "Empty term");
+  }
+
+  if (fieldName === "year") {
+    const range = values.length === 1 ? parseYearValue(values[0]!) : null;
+    if (!range) return fail("Expected a year or a range like 2006-2011");
+    if (range.min !== null && range.max !== null && range.min > range.max) {
+      return fail("Year range runs backwards");
+    }
+    return { term: { kind: "year", negated, start, end, ...range }, end };
+  }
+
+  if (fieldName !== undefined) {
+    const field = QUERY_FIELDS.find((name) => name === fieldName);
+    if (!field) {
+      return fail(
+        `Unknown field "${fieldName}", expected one of year, ${QUERY_FIELDS.join(", ")}`,
+      );
+    }
+    return { term: { kind: "field", field, values, negated, start, end }, end };
+  }
+
+  const value = values[0]!;
+  const yearRange = quoted ? null : YEAR_RANGE_PATTERN.exec(value);
+  if (yearRange) {
+    const min = parseInt(yearRange[1]!);
+    const max = yearRange[2] ? parseInt(yearRange[2]) : null;
+    if (max !== null && min > max) return fail("Year range runs backwards");
+    return { term: { kind: "year", min, max, negated, start, end }, end };
+  }
+
+  return { term: { kind: "text", value, negated, start, end }, end };
+}
+
+/**
+ * Split a query into OR groups of terms, without merging anything
+ */
+function parseGroups(input: string): {
+  groups: SearchQueryTerm[][];
+  errors: SearchQueryError[];
+} {
+  const groups: SearchQueryTerm[][] = [];
+  const errors: SearchQueryError[] = [];
+  let pendingOr: number | null = null;
+  let canJoin = false;
+  let position = 0;
+
+  while (position < input.length) {
+    if (/\s/.test(input[position]!)) {
+      position++;
+      continue;
+    }
+
+    if (input[position] === "|") {
+      if (!canJoin || pendingOr !== null) {
+        errors.push({
+          message: '"|" needs a term on both sides',
+          start: position,
+          end: position + 1,
+        });
+      } else {
+        pendingOr = position;
+      }
+      position++;
+      continue;
+    }
+
+    const { term, end, error } = readTerm(input, position);
+    if (error) errors.push(error);
+    if (term) {
+      const group = groups[groups.length - 1];
+      if (pendingOr !== null && group) {
+        group.push(term);
+      } else {
+        groups.push([term]);
+      }
+    }
+    canJoin = term !== null;
+    pendingOr = null;
+    position = end;
+  }
+
+  if (pendingOr !== null) {
+    errors.push({
+      message: '"|" needs a term on both sides',
+      start: pendingOr,
+      end: pendingOr + 1,
+    });
+  }
+
+  return { groups, errors };
+}
+
+function hasWildcard(value: string): boolean {
+  return value.includes("*");
+}
+
+/**
+ * Whether a group is mirrored into the sidebar: a single, positive year
+ * range or make/color/state qualifier without wildcards
+ */
+function isSyncedGroup(group: SearchQueryTerm[]): boolean {
+  const term = group[0];
+  if (group.length !== 1 || !term || term.negated) return false;
+  if (term.kind === "year") return true;
+  return (
+    term.kind === "field" &&
+    SYNCED_FIELDS.includes(term.field) &&
+    !term.values.some(hasWildcard)
+  );
+}
+
+/**
+ * Parse the search box's query language
+ *
+ * - Free text matches the year/make/model line: `civic`, `"range rover"`
+ * - Year ranges: `2006-2011`, `2006-` or `year:2018`
+ * - Qualifiers: `make:`, `model:`, `color:`, `state:`, `yard:` and `vin:`,
+ *   with comma separated alternatives (`color:red,blue`)
+ * - `*` wildcards, e.g. `vin:1HG*`
+ * - Negation with a leading `-`, e.g. `-coupe` or `-color:white`
+ * - OR groups with `|`, e.g. `civic | accord`
+ *
+ * Repeated make, color and state qualifiers are merged, so
+ * `color:red color:blue` reads the same as `color:red,blue`. Terms that
+ * fail to parse are reported in `errors` and otherwise ignored.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const { groups: rawGroups, errors } = parseGroups(input);
+
+  const groups: SearchQueryTerm[][] = [];
+  const syncedFields = new Map<SearchQueryField, string[]>();
+  rawGroups.forEach((group) => {
+    const term = group[0]!;
+    if (isSyncedGroup(group) && term.kind === "field") {
+      const values = syncedFields.get(term.field);
+      if (values) {
+        values.push(...term.values);
+        return;
+      }
+      const merged = { ...term, values: [...term.values] };
+      syncedFields.set(term.field, merged.values);
+      groups.push([merged]);
+      return;
+    }
+    groups.push(group);
+  });
+
+  // Only positive text and make/model clauses can be handed to the yards;
+  // everything else is applied to the results afterwards. A make only goes
+  // upstream when there's no free text, so picking a make in the sidebar
+  // filters what's already been fetched instead of narrowing it.
+  const positiveGroups = groups.filter((group) =>
+    group.every((term) => !term.negated),
+  );
+  const hasText = positiveGroups.some((group) =>
+    group.some((term) => term.kind === "text" && !hasWildcard(term.value)),
+  );
+  // What the yards can be asked for instead of a term, or null if they
+  // can't search for it
+  const getUpstreamValues = (term: SearchQueryTerm): string[] | null => {
+    if (term.kind === "text") {
+      return hasWildcard(term.value) ? null : [term.value];
+    }
+    if (term.kind !== "field" || term.values.some(hasWildcard)) return null;
+    if (term.field === "model") return term.values;
+    if (term.field === "make" && !hasText) {
+      return term.values.map((value) => canonicalizeMake(value) ?? value);
+    }
+    return null;
+  };
+
+  // Alternatives (`civic | accord`, `model:civic,accord`) each get a query
+  // of their own, so no group leaves the yards to be read end to end. A
+  // group the yards can't search for, or one that would fan out too far,
+  // is left to the local filter instead.
+  const upstreamQueries = positiveGroups.reduce<string[]>(
+    (queries, group) => {
+      const alternatives = group.map(getUpstreamValues);
+      if (alternatives.some((values) => values === null)) return queries;
+
+      const values = [...new Set(alternatives.flatMap((values) => values!))];
+      if (queries.length * values.length > SEARCH_CONFIG.MAX_QUERY_VARIANTS) {
+        return queries;
+      }
+      return queries.flatMap((query) =>
+        values.map((value) => (query ? `${query} ${value}` : value)),
+      );
+    },
+    [""],
+  );
+
+  return { groups, errors, upstreamQueries };
+}
+
+/**
+ * Whether a query has any clauses that are mirrored into the sidebar
+ */
+export function hasSyncedClauses(query: ParsedSearchQuery): boolean {
+  return query.groups.some(isSyncedGroup);
+}
+
+/**
+ * Drop the clauses that are mirrored into the sidebar's filters
+ *
+ * The search page applies those through its URL params, so the server
+ * leaves them out; otherwise picking one color in the sidebar would hide
+ * every other color it could offer.
+ */
+export function withoutSyncedClauses(
+  query: ParsedSearchQuery,
+): ParsedSearchQuery {
+  return {
+    ...query,
+    groups: query.groups.filter((group) => !isSyncedGroup(group)),
+  };
+}
+
+/**
+ * Compare a value against a query value, which may contain `*` wildcards
+ */
+function matchesValue(
+  actual: string,
+  pattern: string,
+  mode: "equals" | "contains" | "prefix",
+): boolean {
+  const haystack = actual.toUpperCase();
+  const needle = pattern.toUpperCase();
+
+  if (hasWildcard(needle)) {
+    const source = needle
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`).test(haystack);
+  }
+
+  if (mode === "equals") return haystack === needle;
+  if (mode === "prefix") return haystack.startsWith(needle);
+  return haystack.includes(needle);
+}
+
+function matchesTerm(vehicle: Vehicle, term: SearchQueryTerm): boolean {
+  switch (term.kind) {
+    case "text": {
+      const line = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+      if (hasWildcard(term.value)) {
+        return matchesValue(line, `*${term.value}*`, "contains");
+      }
+      return expandAliases(term.value).some((spelling) =>
+        matchesValue(line, spelling, "contains"),
+      );
+    }
+    case "year":
+      return (
+        (term.min === null || vehicle.year >= term.min) &&
+        (term.max === null || vehicle.year <= term.max)
+      );
+    case "field":
+      return term.values.some((value) => {
+        switch (term.field) {
+          case "make":
+            return matchesValue(
+              canonicalizeMake(vehicle.make) ?? vehicle.make,
+              canonicalizeMake(value) ?? value,
+              "equals",
+            );
+          case "model":
+            return hasWildcard(value)
+              ? matchesValue(vehicle.model, value, "contains")
+              : expandAliases(value).some((spelling) =>
+                  matchesValue(vehicle.model, spelling, "contains"),
+                );
+          case "color":
+            return matchesValue(vehicle.color, value, "equals");
+          case "state":
+            return (
+              matchesValue(vehicle.location.state, value, "equals") ||
+              matchesValue(vehicle.location.stateAbbr, value, "equals")
+            );
+          case "yard":
+            return (
+              matchesValue(vehicle.location.name, value, "contains") ||
+              matchesValue(vehicle.location.displayName, value, "contains")
+            );
+          case "vin":
+            return matchesValue(vehicle.vin, value, "prefix");
+        }
+      });
+  }
+}
+
+/**
+ * Check a vehicle against every clause of a parsed query
+ */
+export function matchesSearchQuery(
+  vehicle: Vehicle,
+  query: ParsedSearchQuery,
+): boolean {
+  return query.groups.every((group) =>
+    group.some((term) => matchesTerm(vehicle, term) !== term.negated),
+  );
+}
+
+/**
+ * Resolve a state given as a name or abbreviation to its name, the form
+ * the sidebar uses
+ */
+function getStateName(value: string): string {
+  const upper = value.toUpperCase();
+  return (
+    US_STATE_NAMES[upper] ??
+    Object.values(US_STATE_NAMES).find(
+      (name) => name.toUpperCase() === upper,
+    ) ??
+    value
+  );
+}
+
+function getStateAbbr(name: string): string {
+  return (
+    Object.entries(US_STATE_NAMES).find(
+      ([, stateName]) => stateName === name,
+    )?.[0] ?? name
+  );
+}
+
+/**
+ * Get the filters a parsed query sets for the sidebar
+ */
+export function getSyncedFilters(
+  query: ParsedSearchQuery,
+): SyncedSearchFilters {
+  const filters: SyncedSearchFilters = {
+    makes: [],
+    colors: [],
+    states: [],
+    minYear: null,
+    maxYear: null,
+  };
+
+  query.groups.filter(isSyncedGroup).forEach(([term]) => {
+    if (term?.kind === "year") {
+      filters.minYear = term.min;
+      filters.maxYear = term.max;
+    } else if (term?.kind === "field") {
+      term.values.forEach((value) => {
+        if (term.field === "make") {
+          filters.makes.push(canonicalizeMake(value) ?? value.toUpperCase());
+        } else if (term.field === "color") {
+          filters.colors.push(value.toUpperCase());
+        } else {
+          filters.states.push(getStateName(value));
+        }
+      });
+    }
+  });
+
+  filters.makes = [...new Set(filters.makes)];
+  filters.colors = [...new Set(filters.colors)];
+  filters.states = [...new Set(filters.states)];
+  return filters;
+}
+
+function formatValue(value: string): string {
+  return /[\s,|"]/.test(value) ? `"${value}"` : value;
+}
+
+function formatYearRange(min: number | null, max: number | null): string {
+  if (min !== null && max !== null) {
+    return min === max ? `year:${min}` : `${min}-${max}`;
+  }
+  return min !== null ? `${min}-` : `year:-${max}`;
+}
+
+/**
+ * Rewrite a query so its make, color, state and year clauses match the
+ * sidebar's filters, leaving every other clause as typed
+ */
+export function withSyncedFilters(
+  query: string,
+  filters: SyncedSearchFilters,
+): string {
+  const { groups } = parseGroups(query);
+
+  let text = query;
+  groups
+    .filter(isSyncedGroup)
+    .map(([term]) => term!)
+    .sort((a, b) => b.start - a.start)
+    .forEach((term) => {
+      text = text.slice(0, term.start) + text.slice(term.end);
+    });
+
+  const clauses = [
+    filters.minYear !== null || filters.maxYear !== null
+      ? formatYearRange(filters.minYear, filters.maxYear)
+      : "",
+    filters.makes.length > 0
+      ? `make:${filters.makes.map(formatValue).join(",")}`
+      : "",
+    filters.colors.length > 0
+      ? `color:${filters.colors.map(formatValue).join(",")}`
+      : "",
+    filters.states.length > 0
+      ? `state:${filters.states.map(getStateAbbr).map(formatValue).join(",")}`
+      : "",
+  ];
+
+  return [text.replace(/\s+/g, " ").trim(), ...clauses]
+    .filter(Boolean)
+    .join(" ");
+}
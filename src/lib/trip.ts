@@ -0,0 +1,134 @@
+import type { Location, Origin, TripPlan, Vehicle } from "~/lib/types";
+import { calculateDistance } from "~/lib/utils";
+
+/**
+ * Key that identifies a vehicle across searches, for keeping it on a trip
+ */
+export function getVehicleKey(vehicle: Vehicle): string {
+  return `${vehicle.source}:${vehicle.location.locationCode}:${vehicle.id}`;
+}
+
+function getLocationKey(location: Location): string {
+  return `${location.source}:${location.locationCode}`;
+}
+
+// Compares section, row and space in turn, numbers by value ("9" before
+// "10"), with unknown positions last
+const comparePosition = (a: string, b: string) =>
+  !a || !b
+    ? Number(!a) - Number(!b)
+    : a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Sort a yard's vehicles into the order they're found walking the rows
+ */
+export function sortByYardPosition(vehicles: Vehicle[]): Vehicle[] {
+  return [...vehicles].sort(
+    (a, b) =>
+      comparePosition(a.yardLocation.section, b.yardLocation.section) ||
+      comparePosition(a.yardLocation.row, b.yardLocation.row) ||
+      comparePosition(a.yardLocation.space, b.yardLocation.space),
+  );
+}
+
+/**
+ * Length of a round trip visiting points in `tour` order
+ */
+function getTourLength(tour: number[], distances: number[][]): number {
+  return tour
+    .slice(1)
+    .reduce(
+      (total, point, index) => total + distances[tour[index]!]![point]!,
+      0,
+    );
+}
+
+/**
+ * Order the points of a round trip from point 0
+ *
+ * A nearest-neighbor tour is built first, then improved with 2-opt moves
+ * (reversing a stretch of the tour whenever that shortens it) until no
+ * move helps. Not guaranteed optimal, but a trip rarely has more than a
+ * handful of yards, where this almost always finds the best order.
+ */
+function orderRoundTrip(distances: number[][]): number[] {
+  const unvisited = new Set(distances.keys());
+  unvisited.delete(0);
+  const tour = [0];
+  while (unvisited.size > 0) {
+    const current = tour[tour.length - 1]!;
+    let nearest = -1;
+    unvisited.forEach((point) => {
+      if (
+        nearest === -1 ||
+        distances[current]![point]! < distances[current]![nearest]!
+      ) {
+        nearest = point;
+      }
+    });
+    tour.push(nearest);
+    unvisited.delete(nearest);
+  }
+  tour.push(0);
+
+  const distance = (a: number, b: number) => distances[tour[a]!]![tour[b]!]!;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < tour.length - 2; i++) {
+      for (let k = i + 1; k < tour.length - 1; k++) {
+        const change =
+          distance(i - 1, k) +
+          distance(i, k + 1) -
+          distance(i - 1, i) -
+          distance(k, k + 1);
+        // Allow for rounding so equal-length tours don't swap forever
+        if (change < -1e-9) {
+          tour.splice(i, k - i + 1, ...tour.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return tour;
+}
+
+/**
+ * Plan a drive from `origin` through every yard with a vehicle on the trip
+ * and back, with straight-line distances between yards
+ */
+export function planTrip(origin: Origin, vehicles: Vehicle[]): TripPlan {
+  const byLocation = new Map<
+    string,
+    { location: Location; vehicles: Vehicle[] }
+  >();
+  vehicles.forEach((vehicle) => {
+    const key = getLocationKey(vehicle.location);
+    const group = byLocation.get(key);
+    if (group) group.vehicles.push(vehicle);
+    else
+      byLocation.set(key, { location: vehicle.location, vehicles: [vehicle] });
+  });
+  const yards = [...byLocation.values()];
+
+  // Point 0 is the origin, point n is yards[n - 1]
+  const points = [origin, ...yards.map(({ location }) => location)];
+  const distances = points.map((from) =>
+    points.map((to) => calculateDistance(from.lat, from.lng, to.lat, to.lng)),
+  );
+  const tour = orderRoundTrip(distances);
+
+  const stops = tour.slice(1, -1).map((point, index) => ({
+    location: yards[point - 1]!.location,
+    vehicles: sortByYardPosition(yards[point - 1]!.vehicles),
+    milesFromPrevious: distances[tour[index]!]![point]!,
+  }));
+  const returnMiles = distances[tour[tour.length - 2]!]![0]!;
+
+  return {
+    stops,
+    returnMiles: stops.length > 0 ? returnMiles : 0,
+    totalMiles: getTourLength(tour, distances),
+  };
+}
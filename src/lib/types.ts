@@ -1,5 +1,6 @@
 // Location types based on the LKQ _locationList structure
 export interface Location {
+  source: string; // Id of the inventory source the location belongs to
   locationCode: string;
   locationPageURL: string;
   name: string;
@@ -33,6 +34,7 @@ export interface Location {
 // Vehicle information structure
 export interface Vehicle {
   id: string;
+  source: string;
   year: number;
   make: string;
   model: string;
@@ -50,6 +52,9 @@ export interface Vehicle {
   detailsUrl: string;
   partsUrl: string;
   pricesUrl: string;
+  firstSeenAt?: string; // When the snapshot store first recorded this vehicle
+  lastSeenAt?: string;
+  decoded?: DecodedVin; // Only set when the VIN could be decoded
 }
 
 export interface VehicleImage {
@@ -75,16 +80,164 @@ export interface SearchFilters {
   makes?: string[];
   models?: string[];
   colors?: string[];
+  engines?: string[];
   states?: string[];
   salvageYards?: string[];
   yearRange?: [number, number];
   dateRange?: [Date, Date];
   maxDistance?: number;
   userLocation?: [number, number];
-  sortBy?: "newest" | "oldest" | "year-desc" | "year-asc" | "distance";
+  sortBy?: SearchSort;
   sortOrder?: "asc" | "desc";
 }
 
+// Orders search results can be sorted in
+export type SearchSort =
+  | "newest"
+  | "oldest"
+  | "year-desc"
+  | "year-asc"
+  | "distance";
+
+// Choices for the "arrived within" filter; "custom" uses a date range
+export type ArrivalWindow = "24h" | "3d" | "7d" | "30d" | "custom";
+
+// File formats search results can be exported to
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+// One value of a facet and how many results have it
+export interface FacetBucket {
+  value: string;
+  count: number | null; // Null for a value only found at yards that weren't searched
+}
+
+// How many results have one model year
+export interface YearBin {
+  year: number;
+  count: number;
+}
+
+// Result counts for every filter option, each counted with all the other
+// filters applied
+export interface SearchFacets {
+  makes: FacetBucket[];
+  models: FacetBucket[];
+  colors: FacetBucket[];
+  engines: FacetBucket[]; // Engine labels decoded from the VIN
+  states: FacetBucket[]; // State names
+  salvageYards: FacetBucket[]; // Location names
+  years: YearBin[]; // Every year from the oldest match to the newest
+}
+
+// Filters held in the search page's URL state
+export interface SearchFilterState {
+  makes: string[];
+  colors: string[];
+  engines: string[]; // Engine labels decoded from the VIN, e.g. "5.3L V8 (LM7)"
+  states: string[]; // State names, as shown in the sidebar
+  salvageYards: string[]; // Location names, as shown in the sidebar
+  models: string[];
+  minYear: number | null;
+  maxYear: number | null;
+  maxDistance: number | null; // Miles from the origin the search is run from
+  arrived: ArrivalWindow | null;
+  arrivedFrom: string | null; // Custom arrival range as YYYY-MM-DD, used when arrived is "custom"
+  arrivedTo: string | null;
+}
+
+// Fields a search box term can be qualified with, e.g. `color:red`
+export type SearchQueryField =
+  | "make"
+  | "model"
+  | "color"
+  | "state"
+  | "yard"
+  | "vin";
+
+// One term of a structured search query. Values may contain `*` wildcards.
+export type SearchQueryTerm = {
+  negated: boolean;
+  start: number;
+  end: number;
+} & (
+  | { kind: "text"; value: string } // e.g. `civic` or `"range rover"`
+  | { kind: "field"; field: SearchQueryField; values: string[] } // e.g. `color:red,blue`
+  | { kind: "year"; min: number | null; max: number | null } // e.g. `2006-2011`
+);
+
+// A parse error, with the character range to highlight in the search box
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  groups: SearchQueryTerm[][]; // Terms in a group are OR'ed, groups are AND'ed
+  errors: SearchQueryError[];
+  upstreamQueries: string[]; // Plain text the yards' own search can handle, one per alternative
+}
+
+// Filters kept in sync between the search box and the sidebar
+export type SyncedSearchFilters = Pick<
+  SearchFilterState,
+  "makes" | "colors" | "states" | "minYear" | "maxYear"
+>;
+
+// A named search that is re-run on a schedule to find new arrivals
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  filters: SearchFilterState & {
+    sort: SearchSort;
+    origin: Pick<Origin, "lat" | "lng"> | null; // Where distances are measured from
+  };
+  createdAt: string;
+  lastRunAt: string | null;
+}
+
+// A new vehicle matching a saved search, shown in the inbox
+export interface SearchAlert {
+  id: number;
+  savedSearchId: number;
+  savedSearchName: string;
+  vehicle: Vehicle;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export type NotificationChannelId = "email" | "webhook" | "push";
+
+// One attempt to send a new-match notification to one target
+export interface NotificationDelivery {
+  id: number;
+  savedSearchId: number;
+  channel: NotificationChannelId;
+  target: string; // Recipient, webhook URL or push endpoint
+  title: string;
+  status: "sent" | "failed";
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+}
+
+// Fields decoded offline from a VIN; null where the bundled dataset has no
+// entry for the vehicle
+export interface DecodedVin {
+  checkDigitValid: boolean;
+  manufacturer: string | null;
+  make: string | null;
+  country: string | null;
+  modelYear: number | null;
+  model: string | null;
+  body: string | null;
+  trim: string | null;
+  engine: string | null; // Displacement and layout, e.g. "5.3L V8"
+  engineCode: string | null; // Engine RPO or family, e.g. "LM7"
+  plant: string | null;
+}
+
 // Search result structure
 export interface SearchResult {
   vehicles: Vehicle[];
@@ -93,7 +246,19 @@ export interface SearchResult {
   hasMore: boolean;
   searchTime: number;
   locationsCovered: number;
+  queriedLocations: string[]; // Codes of the locations that were searched
   locationsWithErrors: string[];
+  pagesFetched: number;
+  truncatedLocations: string[];
+  rewrite: QueryRewrite | null; // Set when aliases changed what was searched
+  nextCursor: string | null; // Pass back to get the page after this one
+  facets: SearchFacets;
+}
+
+// How aliases in a query were expanded before it was sent to the yards
+export interface QueryRewrite {
+  original: string; // The plain-text part of the query, as typed, alternatives joined by " | "
+  queries: string[]; // Every spelling that was searched, e.g. "CHEVROLET SILVERADO"
 }
 
 // API response structure from LKQ endpoints
@@ -124,12 +289,152 @@ export interface ParsedVehicleData {
   pricesUrl: string;
 }
 
+// Progress of a streamed search, sent each time another location answers
+export interface SearchStreamChunk {
+  locationsSearched: number;
+  totalLocations: number;
+  vehiclesFound: number; // Matches among the locations that have answered
+  result: SearchResult | null; // The first page, on the last chunk only
+}
+
+// Result of walking a location's paginated inventory
+export interface InventoryFetchResult {
+  vehicles: ParsedVehicleData[];
+  pagesFetched: number;
+  truncated: boolean; // Page cap was reached while more results were likely available
+  warm?: boolean; // Served from the crawler's data instead of fetched from the yard
+}
+
+// Crawl state of one location
+export interface CrawlLocationStatus {
+  source: string;
+  locationCode: string;
+  intervalMinutes: number;
+  nextCrawlAt: string;
+  lastCrawledAt: string | null;
+  lastCompleteAt: string | null; // Last crawl that walked every page
+  lastError: string | null;
+  vehicleCount: number;
+}
+
+// Summary of one crawler run
+export interface CrawlRun {
+  id: number;
+  startedAt: string;
+  finishedAt: string;
+  locationsDue: number;
+  locationsCrawled: number;
+  locationsFailed: number;
+  vehiclesSeen: number;
+}
+
+// Vehicles currently on the lot per make or model, from the snapshot store
+export interface MakeCount {
+  make: string;
+  count: number;
+}
+
+export interface ModelCount {
+  model: string;
+  count: number;
+}
+
+// Narrows inventory aggregates to one state or one yard
+export interface InventoryScope {
+  state?: string; // State name or abbreviation
+  locationCode?: string;
+}
+
+// Narrows a search to the yards worth asking, before any are queried
+export interface LocationScope {
+  states?: string[]; // State names or abbreviations
+  locationCodes?: string[];
+  near?: { lat: number; lng: number; radius: number }; // Radius in miles
+}
+
+// One yard on a trip, with the vehicles to see there
+export interface TripStop {
+  location: Location;
+  vehicles: Vehicle[]; // In section, row and space order
+  milesFromPrevious: number; // From the origin for the first stop
+}
+
+// Driving order through the yards of a trip, starting and ending at the origin
+export interface TripPlan {
+  stops: TripStop[];
+  returnMiles: number; // From the last stop back to the origin
+  totalMiles: number;
+}
+
+// A starred vehicle, as it was listed when it was last seen
+export interface WatchedVehicle {
+  vehicle: Vehicle;
+  addedAt: string;
+}
+
+// What a watched vehicle is looked up by at its yard
+export interface WatchedVehicleRef {
+  source: string;
+  locationCode: string;
+  stockNumber: string;
+}
+
+// "unknown" when the yard couldn't be asked, or only answered in part
+export type WatchStatus = "listed" | "gone" | "unknown";
+
+export interface WatchCheck extends WatchedVehicleRef {
+  status: WatchStatus;
+}
+
+// A make the make dictionary didn't recognise, with a listing it came from
+export interface UnknownMake {
+  make: string;
+  example: string; // Make and model text as listed, e.g. "LAND ROVER RANGE ROVER"
+  sightings: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// A single recorded change to one of a vehicle's fields
+export interface VehicleFieldChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+}
+
+// Everything the snapshot store knows about a vehicle's time on the lot
+export interface VehicleHistory {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  removedAt: string | null; // Set once a full yard fetch no longer lists it
+  changes: VehicleFieldChange[];
+}
+
+// A search that was run, with the search page params that repeat it
+export interface RecentSearch {
+  query: string;
+  params: string; // Query and filters, serialized, e.g. "?q=civic&sort=oldest"
+  searchedAt: string;
+}
+
 // User preferences
 export interface UserPreferences {
-  favoriteLocations: string[];
-  recentSearches: string[];
-  defaultFilters: Partial<SearchFilters>;
-  location?: [number, number];
+  favoriteLocations: string[]; // Location codes of starred yards
+  recentSearches: RecentSearch[]; // Newest first
+  defaultFilters: string; // Serialized filter params for a fresh search page
+  location?: [number, number]; // Saved home, offered as a distance origin
+  locationLabel?: string; // How the saved home is shown, e.g. "Dallas, TX"
+  watchlist: WatchedVehicle[]; // Most recently starred first
+  syncWatchlist?: boolean; // Also keep the watchlist on the server
+  watchlistSyncCode?: string; // Secret the synced watchlist is kept under, shared between devices
+}
+
+// Point distances are measured from, with how to show it in the header
+export interface Origin {
+  lat: number;
+  lng: number;
+  label: string;
 }
 
 // Component props interfaces
@@ -139,6 +444,9 @@ export interface SearchInputProps {
   onSearch: () => void;
   placeholder?: string;
   isLoading?: boolean;
+  errors?: SearchQueryError[]; // Highlighted under the input
+  recentSearches?: RecentSearch[]; // Offered in a dropdown while focused
+  onClearRecentSearches?: () => void;
 }
 
 export interface VehicleCardProps {
@@ -0,0 +1,147 @@
+import type { DecodedVin } from "~/lib/types";
+import { PLANTS_BY_MAKE } from "./plants";
+import { VDS_PATTERNS } from "./patterns";
+import { WMI_MANUFACTURERS, WMI_REGIONS } from "./wmi";
+
+// VIN characters in ISO 3779 order; I, O and Q are never used
+const VIN_ALPHABET = "ABCDEFGHJKLMNPRSTUVWXYZ1234567890";
+
+// Numeric value of each character for the check digit
+// prettier-ignore
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year codes (position 10) for the 1980-2009 cycle
+const MODEL_YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+/**
+ * Normalize a VIN and check that it has the modern 17 character shape
+ */
+export function normalizeVin(vin: string): string | null {
+  const normalized = vin.trim().toUpperCase();
+  return /^[A-HJ-NPR-Z0-9]{17}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Validate the check digit (position 9)
+ *
+ * Required on North American vehicles; other markets often don't use it.
+ */
+export function isValidCheckDigit(vin: string): boolean {
+  const normalized = normalizeVin(vin);
+  if (!normalized) return false;
+
+  const sum = [...normalized].reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char]!;
+    return total + value * POSITION_WEIGHTS[index]!;
+  }, 0);
+  const remainder = sum % 11;
+
+  return normalized[8] === (remainder === 10 ? "X" : String(remainder));
+}
+
+function decodeCountry(vin: string): string | null {
+  const second = VIN_ALPHABET.indexOf(vin[1]!);
+
+  const region = WMI_REGIONS.find(
+    ({ from, to }) =>
+      vin.startsWith(from[0]!) &&
+      second >= VIN_ALPHABET.indexOf(from[1]!) &&
+      second <= VIN_ALPHABET.indexOf(to[1]!),
+  );
+  return region?.country ?? null;
+}
+
+/**
+ * Decode the model year (position 10)
+ *
+ * The code repeats every 30 years. From 2010 on, North American light
+ * vehicles use a letter in position 7 for the newer cycle; when the
+ * listed year is known we simply take the closest cycle instead.
+ */
+function decodeModelYear(vin: string, listedYear?: number): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]!);
+  if (index < 0) return null;
+
+  const candidates = [1980 + index, 2010 + index];
+  if (listedYear) {
+    return candidates.reduce((closest, candidate) =>
+      Math.abs(candidate - listedYear) < Math.abs(closest - listedYear)
+        ? candidate
+        : closest,
+    );
+  }
+  return /\d/.test(vin[6]!) ? candidates[0]! : candidates[1]!;
+}
+
+function matchesVds(vin: string, vds: string): boolean {
+  return [...vds].every(
+    (char, index) => char === "*" || vin[3 + index] === char,
+  );
+}
+
+/**
+ * Decode a VIN entirely offline from the bundled dataset
+ *
+ * Returns null for anything that isn't a 17 character VIN. Fields the
+ * dataset doesn't cover are left null rather than guessed.
+ */
+export function decodeVin(vin: string, listedYear?: number): DecodedVin | null {
+  const normalized = normalizeVin(vin);
+  if (!normalized) return null;
+
+  const wmi = normalized.slice(0, 3);
+  const manufacturer = WMI_MANUFACTURERS[wmi];
+  const modelYear = decodeModelYear(normalized, listedYear);
+  const make = manufacturer?.make ?? null;
+
+  const decoded: DecodedVin = {
+    checkDigitValid: isValidCheckDigit(normalized),
+    manufacturer: manufacturer?.manufacturer ?? null,
+    make,
+    country: decodeCountry(normalized),
+    modelYear,
+    model: null,
+    body: null,
+    trim: null,
+    engine: null,
+    engineCode: null,
+    plant: (make && PLANTS_BY_MAKE[make]?.[normalized[10]!]) ?? null,
+  };
+
+  for (const pattern of VDS_PATTERNS) {
+    if (
+      !pattern.wmis.includes(wmi) ||
+      modelYear === null ||
+      modelYear < pattern.years[0] ||
+      modelYear > pattern.years[1] ||
+      !matchesVds(normalized, pattern.vds)
+    ) {
+      continue;
+    }
+
+    decoded.model ??= pattern.model ?? null;
+    decoded.body ??= pattern.body ?? null;
+    decoded.trim ??= pattern.trim ?? null;
+    if (decoded.engine === null && pattern.engine) {
+      decoded.engine = pattern.engine;
+      decoded.engineCode = pattern.engineCode ?? null;
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Label used to show and filter by engine, e.g. "5.3L V8 (LM7)"
+ */
+export function getEngineLabel(decoded: DecodedVin | undefined): string | null {
+  if (!decoded?.engine) return null;
+  return decoded.engineCode
+    ? `${decoded.engine} (${decoded.engineCode})`
+    : decoded.engine;
+}
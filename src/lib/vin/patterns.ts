@@ -0,0 +1,185 @@
+// Vehicle Descriptor Section patterns (VIN positions 4-8) for common makes.
+// `vds` is matched character by character and "*" matches anything. A
+// decoded field comes from the first matching pattern that sets it, so
+// model/body patterns and engine-code patterns can be listed separately.
+export interface VdsPattern {
+  wmis: string[];
+  vds: string;
+  years: [number, number];
+  model?: string;
+  body?: string;
+  trim?: string;
+  engine?: string;
+  engineCode?: string;
+}
+
+const HONDA_CARS = ["1HG", "2HG", "JHM", "19X"];
+const HONDA_TRUCKS = ["5FN", "5J6", "2HK", "JHL", "SHS"];
+const TOYOTA_CARS = ["4T1", "2T1", "1NX", "JTD", "JT2"];
+const TOYOTA_TRUCKS = ["JTM", "2T3", "4T3", "5TD"];
+const NISSAN_CARS = ["1N4", "3N1", "JN1"];
+const FORD_CARS = ["1FA", "2FA", "3FA", "1FB"];
+const FORD_TRUCKS = ["1FT", "2FT", "3FT", "1FM", "2FM", "1FD"];
+const GM_CARS = ["1G1", "2G1", "3G1", "1G2", "2G2", "1G3", "1G4", "2G4"];
+const GM_TRUCKS = [
+  "1GC",
+  "2GC",
+  "3GC",
+  "1GN",
+  "3GN",
+  "1GT",
+  "2GT",
+  "3GT",
+  "1GK",
+  "3GK",
+  "1GB",
+  "1GD",
+];
+const MOPAR_TRUCKS = ["1B7", "1D7", "3D7", "1C6", "3C6", "1D3"];
+const JEEPS = ["1J4", "1J8"];
+
+// prettier-ignore
+export const VDS_PATTERNS: VdsPattern[] = [
+  // Honda: positions 4-6 are the model line and engine
+  { wmis: HONDA_CARS, vds: "EJ6**", years: [1996, 2000], model: "CIVIC", engine: "1.6L I4 SOHC", engineCode: "D16Y7" },
+  { wmis: HONDA_CARS, vds: "EJ8**", years: [1996, 2000], model: "CIVIC", engine: "1.6L I4 SOHC VTEC", engineCode: "D16Y8" },
+  { wmis: HONDA_CARS, vds: "ES1**", years: [2001, 2005], model: "CIVIC", body: "Sedan", engine: "1.7L I4 SOHC", engineCode: "D17A1" },
+  { wmis: HONDA_CARS, vds: "ES2**", years: [2001, 2005], model: "CIVIC", body: "Sedan", engine: "1.7L I4 SOHC VTEC", engineCode: "D17A2" },
+  { wmis: HONDA_CARS, vds: "EM2**", years: [2001, 2005], model: "CIVIC", body: "Coupe", engine: "1.7L I4 SOHC", engineCode: "D17A1" },
+  { wmis: ["SHH", ...HONDA_CARS], vds: "EP3**", years: [2002, 2005], model: "CIVIC", body: "Hatchback", trim: "SI", engine: "2.0L I4 DOHC", engineCode: "K20A3" },
+  { wmis: HONDA_CARS, vds: "FA1**", years: [2006, 2011], model: "CIVIC", body: "Sedan", engine: "1.8L I4 SOHC", engineCode: "R18A1" },
+  { wmis: HONDA_CARS, vds: "FG1**", years: [2006, 2011], model: "CIVIC", body: "Coupe", engine: "1.8L I4 SOHC", engineCode: "R18A1" },
+  { wmis: HONDA_CARS, vds: "FA5**", years: [2007, 2011], model: "CIVIC", body: "Sedan", trim: "SI", engine: "2.0L I4 DOHC", engineCode: "K20Z3" },
+  { wmis: HONDA_CARS, vds: "FG2**", years: [2006, 2011], model: "CIVIC", body: "Coupe", trim: "SI", engine: "2.0L I4 DOHC", engineCode: "K20Z3" },
+  { wmis: HONDA_CARS, vds: "FB2**", years: [2012, 2015], model: "CIVIC", body: "Sedan", engine: "1.8L I4 SOHC", engineCode: "R18Z1" },
+  { wmis: HONDA_CARS, vds: "FG3**", years: [2012, 2015], model: "CIVIC", body: "Coupe", engine: "1.8L I4 SOHC", engineCode: "R18Z1" },
+  { wmis: HONDA_CARS, vds: "FC1**", years: [2016, 2021], model: "CIVIC", body: "Sedan", engine: "2.0L I4 DOHC", engineCode: "K20C2" },
+  { wmis: HONDA_CARS, vds: "FC2**", years: [2016, 2021], model: "CIVIC", body: "Sedan", engine: "1.5L I4 Turbo", engineCode: "L15B7" },
+  { wmis: HONDA_CARS, vds: "CG5**", years: [1998, 2002], model: "ACCORD", body: "Sedan", engine: "2.3L I4 SOHC VTEC", engineCode: "F23A" },
+  { wmis: HONDA_CARS, vds: "CG6**", years: [1998, 2002], model: "ACCORD", body: "Sedan", engine: "2.3L I4 SOHC VTEC", engineCode: "F23A" },
+  { wmis: HONDA_CARS, vds: "CG3**", years: [1998, 2002], model: "ACCORD", body: "Coupe", engine: "2.3L I4 SOHC VTEC", engineCode: "F23A" },
+  { wmis: HONDA_CARS, vds: "CG1**", years: [1998, 2002], model: "ACCORD", body: "Sedan", engine: "3.0L V6", engineCode: "J30A1" },
+  { wmis: HONDA_CARS, vds: "CG2**", years: [1998, 2002], model: "ACCORD", body: "Coupe", engine: "3.0L V6", engineCode: "J30A1" },
+  { wmis: HONDA_CARS, vds: "CM5**", years: [2003, 2007], model: "ACCORD", body: "Sedan", engine: "2.4L I4 DOHC", engineCode: "K24A4" },
+  { wmis: HONDA_CARS, vds: "CM6**", years: [2003, 2007], model: "ACCORD", body: "Sedan", engine: "3.0L V6", engineCode: "J30A4" },
+  { wmis: HONDA_CARS, vds: "CM7**", years: [2003, 2007], model: "ACCORD", body: "Coupe", engine: "2.4L I4 DOHC", engineCode: "K24A4" },
+  { wmis: HONDA_CARS, vds: "CM8**", years: [2003, 2007], model: "ACCORD", body: "Coupe", engine: "3.0L V6", engineCode: "J30A4" },
+  { wmis: HONDA_CARS, vds: "CP2**", years: [2008, 2012], model: "ACCORD", body: "Sedan", engine: "2.4L I4 DOHC", engineCode: "K24Z2" },
+  { wmis: HONDA_CARS, vds: "CP3**", years: [2008, 2012], model: "ACCORD", body: "Sedan", engine: "3.5L V6", engineCode: "J35Z2" },
+  { wmis: HONDA_CARS, vds: "CS1**", years: [2008, 2012], model: "ACCORD", body: "Coupe", engine: "2.4L I4 DOHC", engineCode: "K24Z3" },
+  { wmis: HONDA_CARS, vds: "CS2**", years: [2008, 2012], model: "ACCORD", body: "Coupe", engine: "3.5L V6", engineCode: "J35Z2" },
+  { wmis: HONDA_CARS, vds: "CR2**", years: [2013, 2017], model: "ACCORD", body: "Sedan", engine: "2.4L I4 DOHC", engineCode: "K24W1" },
+  { wmis: HONDA_CARS, vds: "CR3**", years: [2013, 2017], model: "ACCORD", body: "Sedan", engine: "3.5L V6", engineCode: "J35Y1" },
+  { wmis: HONDA_TRUCKS, vds: "RD1**", years: [1997, 2001], model: "CR-V", body: "SUV", engine: "2.0L I4 DOHC", engineCode: "B20B" },
+  { wmis: HONDA_TRUCKS, vds: "RD6**", years: [2002, 2006], model: "CR-V", body: "SUV", engine: "2.4L I4 DOHC", engineCode: "K24A1" },
+  { wmis: HONDA_TRUCKS, vds: "RD7**", years: [2002, 2006], model: "CR-V", body: "SUV", engine: "2.4L I4 DOHC", engineCode: "K24A1" },
+  { wmis: HONDA_TRUCKS, vds: "RE3**", years: [2007, 2011], model: "CR-V", body: "SUV", engine: "2.4L I4 DOHC", engineCode: "K24Z1" },
+  { wmis: HONDA_TRUCKS, vds: "RE4**", years: [2007, 2011], model: "CR-V", body: "SUV", engine: "2.4L I4 DOHC", engineCode: "K24Z1" },
+  { wmis: HONDA_TRUCKS, vds: "RL1**", years: [1999, 2004], model: "ODYSSEY", body: "Minivan", engine: "3.5L V6", engineCode: "J35A1" },
+  { wmis: HONDA_TRUCKS, vds: "RL3**", years: [2005, 2010], model: "ODYSSEY", body: "Minivan", engine: "3.5L V6", engineCode: "J35A" },
+  { wmis: HONDA_TRUCKS, vds: "YF1**", years: [2003, 2008], model: "PILOT", body: "SUV", engine: "3.5L V6", engineCode: "J35A" },
+
+  // Toyota: position 5 is the engine within a model line
+  { wmis: TOYOTA_CARS, vds: "BG2**", years: [1997, 2001], model: "CAMRY", body: "Sedan", engine: "2.2L I4", engineCode: "5S-FE" },
+  { wmis: TOYOTA_CARS, vds: "BF2**", years: [1997, 2001], model: "CAMRY", body: "Sedan", engine: "3.0L V6", engineCode: "1MZ-FE" },
+  { wmis: TOYOTA_CARS, vds: "BE3**", years: [2002, 2006], model: "CAMRY", body: "Sedan", engine: "2.4L I4", engineCode: "2AZ-FE" },
+  { wmis: TOYOTA_CARS, vds: "BF3**", years: [2002, 2003], model: "CAMRY", body: "Sedan", engine: "3.0L V6", engineCode: "1MZ-FE" },
+  { wmis: TOYOTA_CARS, vds: "BE4**", years: [2007, 2011], model: "CAMRY", body: "Sedan", engine: "2.4L I4", engineCode: "2AZ-FE" },
+  { wmis: TOYOTA_CARS, vds: "BK4**", years: [2007, 2011], model: "CAMRY", body: "Sedan", engine: "3.5L V6", engineCode: "2GR-FE" },
+  { wmis: TOYOTA_CARS, vds: "BF1**", years: [2012, 2017], model: "CAMRY", body: "Sedan", engine: "2.5L I4", engineCode: "2AR-FE" },
+  { wmis: TOYOTA_CARS, vds: "BR1**", years: [1998, 2002], model: "COROLLA", body: "Sedan", engine: "1.8L I4", engineCode: "1ZZ-FE" },
+  { wmis: TOYOTA_CARS, vds: "BR3**", years: [2003, 2008], model: "COROLLA", body: "Sedan", engine: "1.8L I4", engineCode: "1ZZ-FE" },
+  { wmis: TOYOTA_CARS, vds: "BU4**", years: [2009, 2013], model: "COROLLA", body: "Sedan", engine: "1.8L I4", engineCode: "2ZR-FE" },
+  { wmis: TOYOTA_TRUCKS, vds: "*D3**", years: [2006, 2012], model: "RAV4", body: "SUV", engine: "2.4L I4", engineCode: "2AZ-FE" },
+  { wmis: TOYOTA_TRUCKS, vds: "*K3**", years: [2006, 2012], model: "RAV4", body: "SUV", engine: "3.5L V6", engineCode: "2GR-FE" },
+  { wmis: TOYOTA_TRUCKS, vds: "ZF1**", years: [1998, 2003], model: "SIENNA", body: "Minivan", engine: "3.0L V6", engineCode: "1MZ-FE" },
+  { wmis: TOYOTA_TRUCKS, vds: "*A2**", years: [2004, 2006], model: "SIENNA", body: "Minivan", engine: "3.3L V6", engineCode: "3MZ-FE" },
+
+  // Nissan: position 4 is the engine, 5-6 the model line
+  { wmis: NISSAN_CARS, vds: "AL11*", years: [2002, 2006], model: "ALTIMA", body: "Sedan", engine: "2.5L I4", engineCode: "QR25DE" },
+  { wmis: NISSAN_CARS, vds: "BL11*", years: [2002, 2006], model: "ALTIMA", body: "Sedan", engine: "3.5L V6", engineCode: "VQ35DE" },
+  { wmis: NISSAN_CARS, vds: "AL21*", years: [2007, 2012], model: "ALTIMA", body: "Sedan", engine: "2.5L I4", engineCode: "QR25DE" },
+  { wmis: NISSAN_CARS, vds: "BL21*", years: [2007, 2012], model: "ALTIMA", body: "Sedan", engine: "3.5L V6", engineCode: "VQ35DE" },
+  { wmis: NISSAN_CARS, vds: "AL24*", years: [2008, 2013], model: "ALTIMA", body: "Coupe", engine: "2.5L I4", engineCode: "QR25DE" },
+  { wmis: NISSAN_CARS, vds: "BL24*", years: [2008, 2013], model: "ALTIMA", body: "Coupe", engine: "3.5L V6", engineCode: "VQ35DE" },
+  { wmis: NISSAN_CARS, vds: "CB51*", years: [2000, 2006], model: "SENTRA", body: "Sedan", engine: "1.8L I4", engineCode: "QG18DE" },
+  { wmis: NISSAN_CARS, vds: "AB51*", years: [2002, 2006], model: "SENTRA", body: "Sedan", engine: "2.5L I4", engineCode: "QR25DE" },
+  { wmis: NISSAN_CARS, vds: "AB61*", years: [2007, 2012], model: "SENTRA", body: "Sedan", engine: "2.0L I4", engineCode: "MR20DE" },
+  { wmis: NISSAN_CARS, vds: "BA41*", years: [2004, 2008], model: "MAXIMA", body: "Sedan", engine: "3.5L V6", engineCode: "VQ35DE" },
+
+  // Ford F-150: positions 5-7 are the cab and drive
+  { wmis: FORD_TRUCKS, vds: "*F17*", years: [1997, 2003], model: "F-150", body: "Regular Cab Pickup 4x2" },
+  { wmis: FORD_TRUCKS, vds: "*F18*", years: [1997, 2003], model: "F-150", body: "Regular Cab Pickup 4x4" },
+  { wmis: FORD_TRUCKS, vds: "*X17*", years: [1997, 2003], model: "F-150", body: "SuperCab Pickup 4x2" },
+  { wmis: FORD_TRUCKS, vds: "*X18*", years: [1997, 2003], model: "F-150", body: "SuperCab Pickup 4x4" },
+  { wmis: FORD_TRUCKS, vds: "*W07*", years: [2001, 2003], model: "F-150", body: "SuperCrew Pickup 4x2" },
+  { wmis: FORD_TRUCKS, vds: "*W08*", years: [2001, 2003], model: "F-150", body: "SuperCrew Pickup 4x4" },
+  { wmis: FORD_TRUCKS, vds: "*F12*", years: [2004, 2008], model: "F-150", body: "Regular Cab Pickup 4x2" },
+  { wmis: FORD_TRUCKS, vds: "*F14*", years: [2004, 2008], model: "F-150", body: "Regular Cab Pickup 4x4" },
+  { wmis: FORD_TRUCKS, vds: "*X12*", years: [2004, 2008], model: "F-150", body: "SuperCab Pickup 4x2" },
+  { wmis: FORD_TRUCKS, vds: "*X14*", years: [2004, 2008], model: "F-150", body: "SuperCab Pickup 4x4" },
+  { wmis: FORD_TRUCKS, vds: "*W12*", years: [2004, 2008], model: "F-150", body: "SuperCrew Pickup 4x2" },
+  { wmis: FORD_TRUCKS, vds: "*W14*", years: [2004, 2008], model: "F-150", body: "SuperCrew Pickup 4x4" },
+
+  // Ford: position 8 is the engine code
+  { wmis: FORD_TRUCKS, vds: "****2", years: [1997, 2008], engine: "4.2L V6", engineCode: "Essex" },
+  { wmis: FORD_TRUCKS, vds: "****U", years: [1996, 2008], engine: "3.0L V6", engineCode: "Vulcan" },
+  { wmis: FORD_TRUCKS, vds: "****X", years: [1991, 2000], engine: "4.0L V6 OHV", engineCode: "Cologne" },
+  { wmis: FORD_TRUCKS, vds: "****E", years: [1997, 2010], engine: "4.0L V6 SOHC", engineCode: "Cologne SOHC" },
+  { wmis: FORD_TRUCKS, vds: "****W", years: [1997, 2008], engine: "4.6L V8", engineCode: "Modular 2V" },
+  { wmis: FORD_TRUCKS, vds: "****8", years: [2009, 2010], engine: "4.6L V8", engineCode: "Modular 3V" },
+  { wmis: FORD_TRUCKS, vds: "****L", years: [1997, 2004], engine: "5.4L V8", engineCode: "Modular 2V" },
+  { wmis: FORD_TRUCKS, vds: "****5", years: [2004, 2014], engine: "5.4L V8", engineCode: "Modular 3V" },
+  { wmis: FORD_TRUCKS, vds: "****V", years: [2005, 2010], engine: "5.4L V8 Flex Fuel", engineCode: "Modular 3V" },
+  { wmis: FORD_TRUCKS, vds: "****M", years: [2011, 2014], engine: "3.7L V6", engineCode: "Cyclone" },
+  { wmis: FORD_TRUCKS, vds: "****T", years: [2011, 2016], engine: "3.5L V6 Twin Turbo", engineCode: "EcoBoost" },
+  { wmis: FORD_TRUCKS, vds: "****F", years: [2011, 2017], engine: "5.0L V8", engineCode: "Coyote" },
+  { wmis: FORD_TRUCKS, vds: "****6", years: [2011, 2014], engine: "6.2L V8", engineCode: "Boss" },
+  { wmis: FORD_CARS, vds: "****U", years: [1996, 2007], engine: "3.0L V6", engineCode: "Vulcan" },
+  { wmis: FORD_CARS, vds: "****S", years: [1996, 2007], engine: "3.0L V6 DOHC", engineCode: "Duratec 30" },
+  { wmis: FORD_CARS, vds: "****P", years: [1997, 2004], engine: "2.0L I4 SOHC", engineCode: "Split Port" },
+  { wmis: FORD_CARS, vds: "****3", years: [1998, 2004], engine: "2.0L I4 DOHC", engineCode: "Zetec" },
+  { wmis: FORD_CARS, vds: "****N", years: [2005, 2011], engine: "2.0L I4 DOHC", engineCode: "Duratec 20" },
+  { wmis: FORD_CARS, vds: "****Z", years: [2004, 2009], engine: "2.3L I4 DOHC", engineCode: "Duratec 23" },
+  { wmis: FORD_CARS, vds: "****W", years: [1992, 2011], engine: "4.6L V8", engineCode: "Modular 2V" },
+  { wmis: FORD_CARS, vds: "****X", years: [1996, 2004], engine: "4.6L V8", engineCode: "Modular 2V" },
+  { wmis: FORD_CARS, vds: "****H", years: [2005, 2010], engine: "4.6L V8", engineCode: "Modular 3V" },
+
+  // GM trucks: positions 5-6 are drive and tonnage, 8 is the engine RPO
+  { wmis: GM_TRUCKS, vds: "*C1**", years: [1988, 2013], trim: "1500 2WD" },
+  { wmis: GM_TRUCKS, vds: "*K1**", years: [1988, 2013], trim: "1500 4WD" },
+  { wmis: GM_TRUCKS, vds: "*C2**", years: [1988, 2013], trim: "2500 2WD" },
+  { wmis: GM_TRUCKS, vds: "*K2**", years: [1988, 2013], trim: "2500 4WD" },
+  { wmis: GM_TRUCKS, vds: "****W", years: [1996, 2002], engine: "4.3L V6", engineCode: "L35" },
+  { wmis: GM_TRUCKS, vds: "****X", years: [2003, 2013], engine: "4.3L V6", engineCode: "LU3" },
+  { wmis: GM_TRUCKS, vds: "****V", years: [1999, 2007], engine: "4.8L V8", engineCode: "LR4" },
+  { wmis: GM_TRUCKS, vds: "****T", years: [1999, 2007], engine: "5.3L V8", engineCode: "LM7" },
+  { wmis: GM_TRUCKS, vds: "****Z", years: [2002, 2007], engine: "5.3L V8 Flex Fuel", engineCode: "L59" },
+  { wmis: GM_TRUCKS, vds: "****0", years: [2007, 2013], engine: "5.3L V8 Flex Fuel", engineCode: "LMG" },
+  { wmis: GM_TRUCKS, vds: "****U", years: [1999, 2007], engine: "6.0L V8", engineCode: "LQ4" },
+
+  // GM cars: position 8 is the engine RPO
+  { wmis: GM_CARS, vds: "WF52*", years: [2000, 2005], model: "IMPALA", body: "Sedan" },
+  { wmis: GM_CARS, vds: "WH52*", years: [2000, 2005], model: "IMPALA", body: "Sedan", trim: "LS" },
+  { wmis: GM_CARS, vds: "WP52*", years: [2004, 2005], model: "IMPALA", body: "Sedan", trim: "SS" },
+  { wmis: GM_CARS, vds: "****4", years: [1995, 2002], engine: "2.2L I4", engineCode: "LN2" },
+  { wmis: GM_CARS, vds: "****T", years: [1996, 2002], engine: "2.4L I4 DOHC", engineCode: "LD9" },
+  { wmis: GM_CARS, vds: "****F", years: [2003, 2008], engine: "2.2L I4 DOHC", engineCode: "L61" },
+  { wmis: GM_CARS, vds: "****J", years: [1997, 2003], engine: "3.1L V6", engineCode: "LG8" },
+  { wmis: GM_CARS, vds: "****E", years: [2000, 2005], engine: "3.4L V6", engineCode: "LA1" },
+  { wmis: GM_CARS, vds: "****K", years: [1995, 2005], engine: "3.8L V6", engineCode: "L36" },
+  { wmis: GM_CARS, vds: "****1", years: [1997, 2005], engine: "3.8L V6 Supercharged", engineCode: "L67" },
+
+  // Chrysler trucks and Jeeps: position 8 is the engine code
+  { wmis: JEEPS, vds: "FA***", years: [1997, 2006], model: "WRANGLER", body: "SUV" },
+  { wmis: JEEPS, vds: "GL***", years: [2002, 2007], model: "LIBERTY", body: "SUV" },
+  { wmis: JEEPS, vds: "GW***", years: [1999, 2004], model: "GRAND CHEROKEE", body: "SUV" },
+  { wmis: JEEPS, vds: "GX***", years: [1999, 2004], model: "GRAND CHEROKEE", body: "SUV" },
+  { wmis: JEEPS, vds: "****S", years: [1991, 2006], engine: "4.0L I6", engineCode: "AMC 242" },
+  { wmis: [...JEEPS, ...MOPAR_TRUCKS], vds: "****K", years: [2002, 2012], engine: "3.7L V6", engineCode: "PowerTech 3.7" },
+  { wmis: [...JEEPS, ...MOPAR_TRUCKS], vds: "****N", years: [1999, 2007], engine: "4.7L V8", engineCode: "PowerTech 4.7" },
+  { wmis: MOPAR_TRUCKS, vds: "****X", years: [1992, 2003], engine: "3.9L V6", engineCode: "Magnum 239" },
+  { wmis: MOPAR_TRUCKS, vds: "****Z", years: [1994, 2003], engine: "5.9L V8", engineCode: "Magnum 360" },
+  { wmis: MOPAR_TRUCKS, vds: "****D", years: [2003, 2008], engine: "5.7L V8", engineCode: "Hemi" },
+  { wmis: MOPAR_TRUCKS, vds: "****T", years: [2009, 2018], engine: "5.7L V8", engineCode: "Hemi" },
+];
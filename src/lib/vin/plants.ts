@@ -0,0 +1,63 @@
+// Assembly plant codes (VIN position 11). Plant codes are assigned by each
+// manufacturer, so they're keyed by make.
+const HONDA_PLANTS: Record<string, string> = {
+  A: "Marysville, Ohio",
+  B: "Lincoln, Alabama",
+  C: "Alliston, Ontario",
+  G: "Greensburg, Indiana",
+  L: "East Liberty, Ohio",
+  S: "Suzuka, Japan",
+};
+
+const TOYOTA_PLANTS: Record<string, string> = {
+  C: "Cambridge, Ontario",
+  S: "Princeton, Indiana",
+  U: "Georgetown, Kentucky",
+  X: "San Antonio, Texas",
+  Z: "Fremont, California",
+};
+
+const FORD_PLANTS: Record<string, string> = {
+  A: "Atlanta, Georgia",
+  B: "Oakville, Ontario",
+  E: "Louisville, Kentucky (Kentucky Truck)",
+  F: "Dearborn, Michigan",
+  G: "Chicago, Illinois",
+  J: "Flat Rock, Michigan",
+  K: "Kansas City, Missouri",
+  N: "Norfolk, Virginia",
+  R: "Hermosillo, Mexico",
+  U: "Louisville, Kentucky",
+};
+
+// Full-size truck and SUV plants
+const GM_PLANTS: Record<string, string> = {
+  "1": "Oshawa, Ontario",
+  E: "Pontiac, Michigan",
+  F: "Flint, Michigan",
+  G: "Silao, Mexico",
+  J: "Janesville, Wisconsin",
+  R: "Arlington, Texas",
+  Z: "Fort Wayne, Indiana",
+};
+
+const NISSAN_PLANTS: Record<string, string> = {
+  C: "Canton, Mississippi",
+  L: "Aguascalientes, Mexico",
+  N: "Smyrna, Tennessee",
+};
+
+export const PLANTS_BY_MAKE: Record<string, Record<string, string>> = {
+  ACURA: HONDA_PLANTS,
+  HONDA: HONDA_PLANTS,
+  LEXUS: TOYOTA_PLANTS,
+  SCION: TOYOTA_PLANTS,
+  TOYOTA: TOYOTA_PLANTS,
+  FORD: FORD_PLANTS,
+  LINCOLN: FORD_PLANTS,
+  MERCURY: FORD_PLANTS,
+  CHEVROLET: GM_PLANTS,
+  GMC: GM_PLANTS,
+  INFINITI: NISSAN_PLANTS,
+  NISSAN: NISSAN_PLANTS,
+};
@@ -0,0 +1,268 @@
+// World Manufacturer Identifiers (VIN positions 1-3) for the makes that
+// turn up in US self-service yards. Not exhaustive; unknown WMIs still get
+// a country from the region table below.
+export const WMI_MANUFACTURERS: Record<
+  string,
+  { manufacturer: string; make?: string }
+> = {
+  // Acura
+  "19U": { manufacturer: "Honda of America", make: "ACURA" },
+  "5J8": { manufacturer: "Honda of America", make: "ACURA" },
+  JH4: { manufacturer: "Honda Motor Co.", make: "ACURA" },
+  // Audi
+  WAU: { manufacturer: "Audi AG", make: "AUDI" },
+  WA1: { manufacturer: "Audi AG", make: "AUDI" },
+  // BMW
+  WBA: { manufacturer: "BMW AG", make: "BMW" },
+  WBS: { manufacturer: "BMW M GmbH", make: "BMW" },
+  "4US": { manufacturer: "BMW Manufacturing Co.", make: "BMW" },
+  "5UX": { manufacturer: "BMW Manufacturing Co.", make: "BMW" },
+  // Buick
+  "1G4": { manufacturer: "General Motors", make: "BUICK" },
+  "2G4": { manufacturer: "General Motors of Canada", make: "BUICK" },
+  "5GA": { manufacturer: "General Motors", make: "BUICK" },
+  // Cadillac
+  "1G6": { manufacturer: "General Motors", make: "CADILLAC" },
+  "1GY": { manufacturer: "General Motors", make: "CADILLAC" },
+  // Chevrolet
+  "1G1": { manufacturer: "General Motors", make: "CHEVROLET" },
+  "1GC": { manufacturer: "General Motors", make: "CHEVROLET" },
+  "1GN": { manufacturer: "General Motors", make: "CHEVROLET" },
+  "1GB": { manufacturer: "General Motors", make: "CHEVROLET" },
+  "2G1": { manufacturer: "General Motors of Canada", make: "CHEVROLET" },
+  "2GC": { manufacturer: "General Motors of Canada", make: "CHEVROLET" },
+  "2GN": { manufacturer: "General Motors of Canada", make: "CHEVROLET" },
+  "3G1": { manufacturer: "General Motors de Mexico", make: "CHEVROLET" },
+  "3GC": { manufacturer: "General Motors de Mexico", make: "CHEVROLET" },
+  "3GN": { manufacturer: "General Motors de Mexico", make: "CHEVROLET" },
+  KL1: { manufacturer: "GM Korea", make: "CHEVROLET" },
+  // Chrysler
+  "1C3": { manufacturer: "Chrysler", make: "CHRYSLER" },
+  // Shared by Chrysler, Dodge and Jeep MPVs, so no make
+  "1C4": { manufacturer: "Chrysler" },
+  "2C3": { manufacturer: "Chrysler Canada", make: "CHRYSLER" },
+  "2A4": { manufacturer: "Chrysler Canada", make: "CHRYSLER" },
+  "2C8": { manufacturer: "Chrysler Canada", make: "CHRYSLER" },
+  // Dodge
+  "1B3": { manufacturer: "Chrysler", make: "DODGE" },
+  "1B4": { manufacturer: "Chrysler", make: "DODGE" },
+  "1B7": { manufacturer: "Chrysler", make: "DODGE" },
+  "1D3": { manufacturer: "Chrysler", make: "DODGE" },
+  "1D4": { manufacturer: "Chrysler", make: "DODGE" },
+  "1D7": { manufacturer: "Chrysler", make: "DODGE" },
+  "2B3": { manufacturer: "Chrysler Canada", make: "DODGE" },
+  "2B4": { manufacturer: "Chrysler Canada", make: "DODGE" },
+  "2D4": { manufacturer: "Chrysler Canada", make: "DODGE" },
+  "2D8": { manufacturer: "Chrysler Canada", make: "DODGE" },
+  "3D7": { manufacturer: "Chrysler de Mexico", make: "DODGE" },
+  "2C4": { manufacturer: "Chrysler Canada", make: "DODGE" },
+  // Fiat
+  ZFA: { manufacturer: "Fiat", make: "FIAT" },
+  "3C3": { manufacturer: "Chrysler de Mexico", make: "FIAT" },
+  // Ford
+  "1FA": { manufacturer: "Ford Motor Co.", make: "FORD" },
+  "1FB": { manufacturer: "Ford Motor Co.", make: "FORD" },
+  "1FD": { manufacturer: "Ford Motor Co.", make: "FORD" },
+  "1FM": { manufacturer: "Ford Motor Co.", make: "FORD" },
+  "1FT": { manufacturer: "Ford Motor Co.", make: "FORD" },
+  "1ZV": { manufacturer: "AutoAlliance International", make: "FORD" },
+  "2FA": { manufacturer: "Ford Motor Co. of Canada", make: "FORD" },
+  "2FM": { manufacturer: "Ford Motor Co. of Canada", make: "FORD" },
+  "2FT": { manufacturer: "Ford Motor Co. of Canada", make: "FORD" },
+  "3FA": { manufacturer: "Ford Motor Co. de Mexico", make: "FORD" },
+  "3FT": { manufacturer: "Ford Motor Co. de Mexico", make: "FORD" },
+  // GMC
+  "1GT": { manufacturer: "General Motors", make: "GMC" },
+  "1GK": { manufacturer: "General Motors", make: "GMC" },
+  "1GD": { manufacturer: "General Motors", make: "GMC" },
+  "2GT": { manufacturer: "General Motors of Canada", make: "GMC" },
+  "2GK": { manufacturer: "General Motors of Canada", make: "GMC" },
+  "3GT": { manufacturer: "General Motors de Mexico", make: "GMC" },
+  "3GK": { manufacturer: "General Motors de Mexico", make: "GMC" },
+  // Honda
+  "1HG": { manufacturer: "Honda of America", make: "HONDA" },
+  "19X": { manufacturer: "Honda of America", make: "HONDA" },
+  "2HG": { manufacturer: "Honda of Canada", make: "HONDA" },
+  "2HK": { manufacturer: "Honda of Canada", make: "HONDA" },
+  "2HJ": { manufacturer: "Honda of Canada", make: "HONDA" },
+  "5FN": { manufacturer: "Honda Manufacturing of Alabama", make: "HONDA" },
+  "5J6": { manufacturer: "Honda of America", make: "HONDA" },
+  JHM: { manufacturer: "Honda Motor Co.", make: "HONDA" },
+  JHL: { manufacturer: "Honda Motor Co.", make: "HONDA" },
+  SHH: { manufacturer: "Honda of the UK", make: "HONDA" },
+  SHS: { manufacturer: "Honda of the UK", make: "HONDA" },
+  // Hyundai
+  KMH: { manufacturer: "Hyundai Motor Co.", make: "HYUNDAI" },
+  KM8: { manufacturer: "Hyundai Motor Co.", make: "HYUNDAI" },
+  "5NP": {
+    manufacturer: "Hyundai Motor Manufacturing Alabama",
+    make: "HYUNDAI",
+  },
+  "5NM": {
+    manufacturer: "Hyundai Motor Manufacturing Alabama",
+    make: "HYUNDAI",
+  },
+  // Infiniti
+  JNK: { manufacturer: "Nissan Motor Co.", make: "INFINITI" },
+  JNR: { manufacturer: "Nissan Motor Co.", make: "INFINITI" },
+  "5N3": { manufacturer: "Nissan North America", make: "INFINITI" },
+  // Jaguar
+  SAJ: { manufacturer: "Jaguar Cars", make: "JAGUAR" },
+  // Jeep
+  "1J4": { manufacturer: "Chrysler", make: "JEEP" },
+  "1J8": { manufacturer: "Chrysler", make: "JEEP" },
+  // Kia
+  KNA: { manufacturer: "Kia Motors", make: "KIA" },
+  KND: { manufacturer: "Kia Motors", make: "KIA" },
+  "5XX": { manufacturer: "Kia Motors Manufacturing Georgia", make: "KIA" },
+  "5XY": { manufacturer: "Kia Motors Manufacturing Georgia", make: "KIA" },
+  // Land Rover
+  SAL: { manufacturer: "Land Rover", make: "LAND ROVER" },
+  // Lexus
+  JTH: { manufacturer: "Toyota Motor Corp.", make: "LEXUS" },
+  JTJ: { manufacturer: "Toyota Motor Corp.", make: "LEXUS" },
+  "2T2": { manufacturer: "Toyota Motor Manufacturing Canada", make: "LEXUS" },
+  // Lincoln
+  "1LN": { manufacturer: "Ford Motor Co.", make: "LINCOLN" },
+  "5LM": { manufacturer: "Ford Motor Co.", make: "LINCOLN" },
+  "2LM": { manufacturer: "Ford Motor Co. of Canada", make: "LINCOLN" },
+  "3LN": { manufacturer: "Ford Motor Co. de Mexico", make: "LINCOLN" },
+  // Mazda
+  JM1: { manufacturer: "Mazda Motor Corp.", make: "MAZDA" },
+  JM3: { manufacturer: "Mazda Motor Corp.", make: "MAZDA" },
+  "1YV": { manufacturer: "AutoAlliance International", make: "MAZDA" },
+  "4F2": { manufacturer: "Ford Motor Co.", make: "MAZDA" },
+  "4F4": { manufacturer: "Ford Motor Co.", make: "MAZDA" },
+  "3MZ": { manufacturer: "Mazda de Mexico", make: "MAZDA" },
+  // Mercedes-Benz
+  WDB: { manufacturer: "Daimler AG", make: "MERCEDES-BENZ" },
+  WDC: { manufacturer: "Daimler AG", make: "MERCEDES-BENZ" },
+  WDD: { manufacturer: "Daimler AG", make: "MERCEDES-BENZ" },
+  "4JG": {
+    manufacturer: "Mercedes-Benz U.S. International",
+    make: "MERCEDES-BENZ",
+  },
+  // Mercury
+  "1ME": { manufacturer: "Ford Motor Co.", make: "MERCURY" },
+  "2ME": { manufacturer: "Ford Motor Co. of Canada", make: "MERCURY" },
+  "4M2": { manufacturer: "Ford Motor Co.", make: "MERCURY" },
+  // Mini
+  WMW: { manufacturer: "BMW AG", make: "MINI" },
+  // Mitsubishi
+  JA3: { manufacturer: "Mitsubishi Motors", make: "MITSUBISHI" },
+  JA4: { manufacturer: "Mitsubishi Motors", make: "MITSUBISHI" },
+  "4A3": {
+    manufacturer: "Mitsubishi Motors North America",
+    make: "MITSUBISHI",
+  },
+  "4A4": {
+    manufacturer: "Mitsubishi Motors North America",
+    make: "MITSUBISHI",
+  },
+  // Nissan
+  "1N4": { manufacturer: "Nissan North America", make: "NISSAN" },
+  "1N6": { manufacturer: "Nissan North America", make: "NISSAN" },
+  "3N1": { manufacturer: "Nissan Mexicana", make: "NISSAN" },
+  "3N6": { manufacturer: "Nissan Mexicana", make: "NISSAN" },
+  "5N1": { manufacturer: "Nissan North America", make: "NISSAN" },
+  JN1: { manufacturer: "Nissan Motor Co.", make: "NISSAN" },
+  JN8: { manufacturer: "Nissan Motor Co.", make: "NISSAN" },
+  // Oldsmobile
+  "1G3": { manufacturer: "General Motors", make: "OLDSMOBILE" },
+  // Pontiac
+  "1G2": { manufacturer: "General Motors", make: "PONTIAC" },
+  "2G2": { manufacturer: "General Motors of Canada", make: "PONTIAC" },
+  "5Y2": { manufacturer: "New United Motor Manufacturing", make: "PONTIAC" },
+  // Porsche
+  WP0: { manufacturer: "Porsche AG", make: "PORSCHE" },
+  WP1: { manufacturer: "Porsche AG", make: "PORSCHE" },
+  // Ram
+  "1C6": { manufacturer: "FCA US", make: "RAM" },
+  "3C6": { manufacturer: "FCA Mexico", make: "RAM" },
+  "3C7": { manufacturer: "FCA Mexico", make: "RAM" },
+  // Saturn
+  "1G8": { manufacturer: "Saturn Corp.", make: "SATURN" },
+  "5GZ": { manufacturer: "Saturn Corp.", make: "SATURN" },
+  // Scion
+  JTK: { manufacturer: "Toyota Motor Corp.", make: "SCION" },
+  JTL: { manufacturer: "Toyota Motor Corp.", make: "SCION" },
+  // Subaru
+  JF1: { manufacturer: "Fuji Heavy Industries", make: "SUBARU" },
+  JF2: { manufacturer: "Fuji Heavy Industries", make: "SUBARU" },
+  "4S3": { manufacturer: "Subaru of Indiana Automotive", make: "SUBARU" },
+  "4S4": { manufacturer: "Subaru of Indiana Automotive", make: "SUBARU" },
+  // Suzuki
+  JS2: { manufacturer: "Suzuki Motor Corp.", make: "SUZUKI" },
+  JS3: { manufacturer: "Suzuki Motor Corp.", make: "SUZUKI" },
+  "2S3": { manufacturer: "CAMI Automotive", make: "SUZUKI" },
+  // Toyota
+  "1NX": { manufacturer: "New United Motor Manufacturing", make: "TOYOTA" },
+  "2T1": { manufacturer: "Toyota Motor Manufacturing Canada", make: "TOYOTA" },
+  "2T3": { manufacturer: "Toyota Motor Manufacturing Canada", make: "TOYOTA" },
+  "4T1": {
+    manufacturer: "Toyota Motor Manufacturing Kentucky",
+    make: "TOYOTA",
+  },
+  "4T3": {
+    manufacturer: "Toyota Motor Manufacturing Kentucky",
+    make: "TOYOTA",
+  },
+  "4T4": {
+    manufacturer: "Toyota Motor Manufacturing Kentucky",
+    make: "TOYOTA",
+  },
+  "5TB": { manufacturer: "Toyota Motor Manufacturing", make: "TOYOTA" },
+  "5TD": { manufacturer: "Toyota Motor Manufacturing", make: "TOYOTA" },
+  "5TE": { manufacturer: "Toyota Motor Manufacturing", make: "TOYOTA" },
+  "5TF": { manufacturer: "Toyota Motor Manufacturing", make: "TOYOTA" },
+  JT2: { manufacturer: "Toyota Motor Corp.", make: "TOYOTA" },
+  JT3: { manufacturer: "Toyota Motor Corp.", make: "TOYOTA" },
+  JTD: { manufacturer: "Toyota Motor Corp.", make: "TOYOTA" },
+  JTE: { manufacturer: "Toyota Motor Corp.", make: "TOYOTA" },
+  JTM: { manufacturer: "Toyota Motor Corp.", make: "TOYOTA" },
+  JTN: { manufacturer: "Toyota Motor Corp.", make: "TOYOTA" },
+  // Volkswagen
+  "1VW": { manufacturer: "Volkswagen Group of America", make: "VOLKSWAGEN" },
+  "3VW": { manufacturer: "Volkswagen de Mexico", make: "VOLKSWAGEN" },
+  "9BW": { manufacturer: "Volkswagen do Brasil", make: "VOLKSWAGEN" },
+  WVW: { manufacturer: "Volkswagen AG", make: "VOLKSWAGEN" },
+  WVG: { manufacturer: "Volkswagen AG", make: "VOLKSWAGEN" },
+  // Volvo
+  YV1: { manufacturer: "Volvo Cars", make: "VOLVO" },
+  YV4: { manufacturer: "Volvo Cars", make: "VOLVO" },
+};
+
+// Country of manufacture from the first two VIN characters (ISO 3779
+// regions). Ranges run over the VIN alphabet, A-Z then 1-9 then 0.
+export const WMI_REGIONS: Array<{ from: string; to: string; country: string }> =
+  [
+    { from: "1A", to: "10", country: "United States" },
+    { from: "4A", to: "40", country: "United States" },
+    { from: "5A", to: "50", country: "United States" },
+    { from: "2A", to: "20", country: "Canada" },
+    { from: "3A", to: "3W", country: "Mexico" },
+    { from: "6A", to: "6W", country: "Australia" },
+    { from: "7A", to: "7E", country: "New Zealand" },
+    { from: "8A", to: "8E", country: "Argentina" },
+    { from: "9A", to: "9E", country: "Brazil" },
+    { from: "JA", to: "J0", country: "Japan" },
+    { from: "KL", to: "KR", country: "South Korea" },
+    { from: "LA", to: "L0", country: "China" },
+    { from: "MA", to: "ME", country: "India" },
+    { from: "ML", to: "MR", country: "Thailand" },
+    { from: "NL", to: "NR", country: "Turkey" },
+    { from: "SA", to: "SM", country: "United Kingdom" },
+    { from: "SN", to: "ST", country: "Germany" },
+    { from: "SU", to: "SZ", country: "Poland" },
+    { from: "TA", to: "TH", country: "Switzerland" },
+    { from: "TJ", to: "TP", country: "Czech Republic" },
+    { from: "TR", to: "TV", country: "Hungary" },
+    { from: "VA", to: "VE", country: "Austria" },
+    { from: "VF", to: "VR", country: "France" },
+    { from: "VS", to: "VW", country: "Spain" },
+    { from: "WA", to: "W0", country: "Germany" },
+    { from: "YA", to: "YE", country: "Belgium" },
+    { from: "YF", to: "YK", country: "Finland" },
+    { from: "YS", to: "YW", country: "Sweden" },
+    { from: "ZA", to: "ZR", country: "Italy" },
+  ];
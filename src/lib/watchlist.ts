@@ -0,0 +1,52 @@
+import type { Vehicle, WatchedVehicle, WatchedVehicleRef } from "~/lib/types";
+
+// Most vehicles a watchlist holds, which bounds every presence check
+export const MAX_WATCHED_VEHICLES = 100;
+
+/**
+ * What a vehicle is looked up by at its yard: the stock number stays the
+ * same for as long as the vehicle is on the lot
+ */
+export function getWatchRef(vehicle: Vehicle): WatchedVehicleRef {
+  return {
+    source: vehicle.source,
+    locationCode: vehicle.location.locationCode,
+    stockNumber: vehicle.stockNumber || vehicle.id,
+  };
+}
+
+/**
+ * New secret for a synced watchlist; whoever has it can read and replace
+ * the list, so it's only shown to the user to carry to their other devices
+ */
+export function createWatchlistSyncCode(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Key that identifies a watched vehicle
+ */
+export function getWatchKey(ref: WatchedVehicleRef): string {
+  return `${ref.source}:${ref.locationCode}:${ref.stockNumber}`;
+}
+
+/**
+ * Combine two watchlists, keeping the earliest star of vehicles on both,
+ * most recently starred first
+ */
+export function mergeWatchlists(
+  a: WatchedVehicle[],
+  b: WatchedVehicle[],
+): WatchedVehicle[] {
+  const merged = new Map<string, WatchedVehicle>();
+  [...a, ...b].forEach((watched) => {
+    const key = getWatchKey(getWatchRef(watched.vehicle));
+    const existing = merged.get(key);
+    if (!existing || watched.addedAt < existing.addedAt) {
+      merged.set(key, watched);
+    }
+  });
+  return [...merged.values()].sort((x, y) =>
+    y.addedAt.localeCompare(x.addedAt),
+  );
+}
@@ -0,0 +1,334 @@
+import type { InValue } from "@libsql/client";
+import { matchesFilterState } from "~/lib/search-filters";
+import { matchesSearchQuery, parseSearchQuery } from "~/lib/search-query";
+import type {
+  NotificationDelivery,
+  SavedSearch,
+  SearchAlert,
+  Vehicle,
+} from "~/lib/types";
+import { getDb } from "~/server/db";
+import { searchAllLocations } from "~/server/inventory/search";
+import { notifyNewMatches } from "~/server/notifications";
+
+// Raw rows as returned by the queries below
+interface SavedSearchRow {
+  id: number;
+  name: string;
+  query: string;
+  filters: string;
+  created_at: string;
+  last_run_at: string | null;
+}
+
+interface SearchAlertRow {
+  id: number;
+  saved_search_id: number;
+  saved_search_name: string;
+  vehicle: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+// Outcome of re-running one saved search
+export interface SavedSearchRunResult {
+  savedSearch: SavedSearch;
+  matchCount: number;
+  newMatches: Vehicle[];
+  deliveries: NotificationDelivery[];
+}
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    // Searches saved before these filters existed don't have them
+    filters: {
+      engines: [],
+      models: [],
+      maxDistance: null,
+      arrived: null,
+      arrivedFrom: null,
+      arrivedTo: null,
+      origin: null,
+      ...(JSON.parse(row.filters) as Partial<SavedSearch["filters"]>),
+    } as SavedSearch["filters"],
+    createdAt: row.created_at,
+    lastRunAt: row.last_run_at,
+  };
+}
+
+/**
+ * Key used to diff matches between runs
+ */
+function getMatchKey(locationCode: string, vehicleId: string): string {
+  return `${locationCode}:${vehicleId}`;
+}
+
+/**
+ * List every saved search, newest first
+ */
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+  const db = await getDb();
+  const result = await db.execute(
+    "SELECT * FROM saved_searches ORDER BY created_at DESC",
+  );
+  return (result.rows as unknown as SavedSearchRow[]).map(toSavedSearch);
+}
+
+/**
+ * Get a single saved search
+ */
+export async function getSavedSearch(id: number): Promise<SavedSearch | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM saved_searches WHERE id = ?",
+    args: [id],
+  });
+  const row = (result.rows as unknown as SavedSearchRow[])[0];
+  return row ? toSavedSearch(row) : null;
+}
+
+/**
+ * Save a named search
+ */
+export async function createSavedSearch(
+  savedSearch: Pick<SavedSearch, "name" | "query" | "filters">,
+): Promise<SavedSearch> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `INSERT INTO saved_searches (name, query, filters, created_at)
+      VALUES (?, ?, ?, ?) RETURNING *`,
+    args: [
+      savedSearch.name,
+      savedSearch.query,
+      JSON.stringify(savedSearch.filters),
+      new Date().toISOString(),
+    ],
+  });
+  return toSavedSearch((result.rows as unknown as SavedSearchRow[])[0]!);
+}
+
+/**
+ * Delete a saved search along with its matches and alerts
+ */
+export async function deleteSavedSearch(id: number): Promise<void> {
+  const db = await getDb();
+  await db.batch(
+    [
+      {
+        sql: "DELETE FROM search_alerts WHERE saved_search_id = ?",
+        args: [id],
+      },
+      {
+        sql: "DELETE FROM saved_search_matches WHERE saved_search_id = ?",
+        args: [id],
+      },
+      { sql: "DELETE FROM saved_searches WHERE id = ?", args: [id] },
+    ],
+    "write",
+  );
+}
+
+/**
+ * Re-run a saved search and diff it against the previous run
+ *
+ * Vehicles that weren't matched last time become alerts. The very first
+ * run only records a baseline, otherwise every existing vehicle would show
+ * up as a new arrival. Locations that failed this run, or were only partly
+ * read, keep their previous matches so they don't come back as "new" on the
+ * next complete run.
+ * New matches are also sent out on every configured notification channel.
+ */
+export async function runSavedSearch(
+  savedSearch: SavedSearch,
+): Promise<SavedSearchRunResult> {
+  const db = await getDb();
+  const now = new Date().toISOString();
+
+  const { origin } = savedSearch.filters;
+  const locationResults = await searchAllLocations(
+    savedSearch.query,
+    origin ? [origin.lat, origin.lng] : undefined,
+  );
+  const partialLocations = new Set(
+    locationResults
+      .filter((result) => result.error || result.truncated)
+      .map((result) => result.location.locationCode),
+  );
+  const parsedQuery = parseSearchQuery(savedSearch.query);
+  const matches = locationResults
+    .flatMap((result) => result.vehicles)
+    .filter(
+      (vehicle) =>
+        matchesFilterState(vehicle, savedSearch.filters) &&
+        matchesSearchQuery(vehicle, parsedQuery),
+    );
+
+  const previous = await db.execute({
+    sql: `SELECT location_code, vehicle_id FROM saved_search_matches
+      WHERE saved_search_id = ?`,
+    args: [savedSearch.id],
+  });
+  const previousMatches = previous.rows as unknown as Array<{
+    location_code: string;
+    vehicle_id: string;
+  }>;
+  const previousKeys = new Set(
+    previousMatches.map((row) =>
+      getMatchKey(row.location_code, row.vehicle_id),
+    ),
+  );
+
+  const newMatches =
+    savedSearch.lastRunAt === null
+      ? []
+      : matches.filter(
+          (vehicle) =>
+            !previousKeys.has(
+              getMatchKey(vehicle.location.locationCode, vehicle.id),
+            ),
+        );
+
+  const currentMatches = [
+    ...matches.map((vehicle) => ({
+      locationCode: vehicle.location.locationCode,
+      vehicleId: vehicle.id,
+    })),
+    ...previousMatches
+      .filter((row) => partialLocations.has(row.location_code))
+      .map((row) => ({
+        locationCode: row.location_code,
+        vehicleId: row.vehicle_id,
+      })),
+  ];
+
+  const statements: Array<{ sql: string; args: InValue[] }> = [
+    {
+      sql: "DELETE FROM saved_search_matches WHERE saved_search_id = ?",
+      args: [savedSearch.id],
+    },
+    ...currentMatches.map((match) => ({
+      sql: `INSERT OR IGNORE INTO saved_search_matches
+        (saved_search_id, location_code, vehicle_id) VALUES (?, ?, ?)`,
+      args: [savedSearch.id, match.locationCode, match.vehicleId],
+    })),
+    ...newMatches.map((vehicle) => ({
+      sql: `INSERT INTO search_alerts
+        (saved_search_id, location_code, vehicle_id, vehicle, created_at)
+        VALUES (?, ?, ?, ?, ?)`,
+      args: [
+        savedSearch.id,
+        vehicle.location.locationCode,
+        vehicle.id,
+        JSON.stringify(vehicle),
+        now,
+      ],
+    })),
+    {
+      sql: "UPDATE saved_searches SET last_run_at = ? WHERE id = ?",
+      args: [now, savedSearch.id],
+    },
+  ];
+  await db.batch(statements, "write");
+
+  // Alerts are already in the inbox, so a failed notification isn't fatal
+  let deliveries: NotificationDelivery[] = [];
+  try {
+    deliveries = await notifyNewMatches(savedSearch, newMatches);
+  } catch (error) {
+    console.error(`Error notifying saved search ${savedSearch.id}:`, error);
+  }
+
+  return {
+    savedSearch: { ...savedSearch, lastRunAt: now },
+    matchCount: matches.length,
+    newMatches,
+    deliveries,
+  };
+}
+
+/**
+ * Re-run every saved search, one at a time to keep upstream load down
+ */
+export async function runAllSavedSearches(): Promise<SavedSearchRunResult[]> {
+  const savedSearches = await listSavedSearches();
+  const results: SavedSearchRunResult[] = [];
+
+  for (const savedSearch of savedSearches) {
+    try {
+      results.push(await runSavedSearch(savedSearch));
+    } catch (error) {
+      console.error(`Error running saved search ${savedSearch.id}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * List inbox alerts, newest first
+ */
+export async function listAlerts({
+  unreadOnly,
+  limit,
+}: {
+  unreadOnly: boolean;
+  limit: number;
+}): Promise<SearchAlert[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `SELECT search_alerts.*, saved_searches.name AS saved_search_name
+      FROM search_alerts
+      JOIN saved_searches ON saved_searches.id = search_alerts.saved_search_id
+      ${unreadOnly ? "WHERE search_alerts.read_at IS NULL" : ""}
+      ORDER BY search_alerts.id DESC
+      LIMIT ?`,
+    args: [limit],
+  });
+
+  return (result.rows as unknown as SearchAlertRow[]).map((row) => ({
+    id: row.id,
+    savedSearchId: row.saved_search_id,
+    savedSearchName: row.saved_search_name,
+    vehicle: JSON.parse(row.vehicle) as Vehicle,
+    createdAt: row.created_at,
+    readAt: row.read_at,
+  }));
+}
+
+/**
+ * Count alerts that haven't been read yet
+ */
+export async function countUnreadAlerts(): Promise<number> {
+  const db = await getDb();
+  const result = await db.execute(
+    "SELECT COUNT(*) AS count FROM search_alerts WHERE read_at IS NULL",
+  );
+  return Number((result.rows[0] as unknown as { count: number }).count);
+}
+
+/**
+ * Mark alerts as read, or every alert when no ids are given
+ */
+export async function markAlertsRead(ids?: number[]): Promise<void> {
+  const db = await getDb();
+  const now = new Date().toISOString();
+
+  if (!ids) {
+    await db.execute({
+      sql: "UPDATE search_alerts SET read_at = ? WHERE read_at IS NULL",
+      args: [now],
+    });
+    return;
+  }
+
+  await db.batch(
+    ids.map((id) => ({
+      sql: "UPDATE search_alerts SET read_at = ? WHERE id = ? AND read_at IS NULL",
+      args: [now, id],
+    })),
+    "write",
+  );
+}
@@ -1,5 +1,10 @@
+import { alertsRouter } from "~/server/api/routers/alerts";
+import { crawlerRouter } from "~/server/api/routers/crawler";
 import { locationsRouter } from "~/server/api/routers/locations";
+import { notificationsRouter } from "~/server/api/routers/notifications";
+import { savedSearchesRouter } from "~/server/api/routers/savedSearches";
 import { vehiclesRouter } from "~/server/api/routers/vehicles";
+import { watchlistRouter } from "~/server/api/routers/watchlist";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -8,8 +13,13 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
+  alerts: alertsRouter,
+  crawler: crawlerRouter,
   locations: locationsRouter,
+  notifications: notificationsRouter,
+  savedSearches: savedSearchesRouter,
   vehicles: vehiclesRouter,
+  watchlist: watchlistRouter,
 });
 
 // export type definition of API
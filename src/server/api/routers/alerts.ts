@@ -0,0 +1,40 @@
+import { z } from "zod";
+import type { SearchAlert } from "~/lib/types";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  countUnreadAlerts,
+  listAlerts,
+  markAlertsRead,
+} from "~/server/alerts/saved-searches";
+
+export const alertsRouter = createTRPCRouter({
+  /**
+   * Get inbox alerts for new saved search matches
+   */
+  getAll: publicProcedure
+    .input(
+      z.object({
+        unreadOnly: z.boolean().default(false),
+        limit: z.number().int().min(1).max(500).default(100),
+      }),
+    )
+    .query(async ({ input }): Promise<SearchAlert[]> => {
+      return listAlerts(input);
+    }),
+
+  /**
+   * Get the number of unread alerts for the inbox badge
+   */
+  getUnreadCount: publicProcedure.query(async (): Promise<number> => {
+    return countUnreadAlerts();
+  }),
+
+  /**
+   * Mark some alerts, or all of them, as read
+   */
+  markRead: publicProcedure
+    .input(z.object({ ids: z.array(z.number().int()).optional() }))
+    .mutation(async ({ input }): Promise<void> => {
+      await markAlertsRead(input.ids);
+    }),
+});
@@ -0,0 +1,66 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import type { CrawlLocationStatus, CrawlRun } from "~/lib/types";
+import {
+  createTRPCRouter,
+  cronProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import {
+  listCrawlRuns,
+  listCrawlStatus,
+  setCrawlInterval,
+} from "~/server/inventory/crawler";
+import { locationsRouter } from "./locations";
+
+export const crawlerRouter = createTRPCRouter({
+  /**
+   * Get the crawler run log, newest first
+   */
+  getRuns: publicProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(500).default(50) }))
+    .query(async ({ input }): Promise<CrawlRun[]> => {
+      return listCrawlRuns(input.limit);
+    }),
+
+  /**
+   * Get the crawl state of every scheduled location, next due first
+   */
+  getStatus: publicProcedure.query(async (): Promise<CrawlLocationStatus[]> => {
+    return listCrawlStatus();
+  }),
+
+  /**
+   * Change how often a single location is crawled, for holders of the
+   * cron secret
+   */
+  setInterval: cronProcedure
+    .input(
+      z.object({
+        locationCode: z.string(),
+        source: z.string().optional(),
+        intervalMinutes: z
+          .number()
+          .int()
+          .min(15)
+          .max(7 * 24 * 60),
+      }),
+    )
+    .mutation(async ({ input }): Promise<CrawlLocationStatus> => {
+      const location = await locationsRouter
+        .createCaller({ headers: new Headers() })
+        .getByCode({
+          locationCode: input.locationCode,
+          source: input.source,
+        });
+
+      if (!location) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Location not found",
+        });
+      }
+
+      return setCrawlInterval(location, input.intervalMinutes);
+    }),
+});
@@ -1,163 +1,15 @@
 import { z } from "zod";
-import { API_ENDPOINTS } from "~/lib/constants";
 import type { Location } from "~/lib/types";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-
-/**
- * Fetches location data from LKQ website with Next.js Data Cache
- * - Uses 'force-cache' for persistent caching across requests
- * - Revalidates every hour to ensure fresh data
- * - Automatic request deduplication within render passes
- * In a real implementation, this would scrape the actual location page
- * For now, we'll use a mock implementation
- */
-async function fetchLocationsFromLKQ(): Promise<Location[]> {
-  try {
-    // In production, this would fetch from the actual LKQ inventory page
-    // and parse the _locationList JavaScript variable
-    const response = await fetch(
-      `${API_ENDPOINTS.LKQ_BASE}${API_ENDPOINTS.LOCATION_PAGE}`,
-      {
-        cache: "force-cache", // Use Next.js Data Cache
-        next: { revalidate: 3600 }, // Revalidate every hour
-      },
-    );
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const html = await response.text();
-
-    // Parse the _locationList variable from the HTML
-    // Handle both spaced and non-spaced formats: "var _locationList = [" and "var _locationList=["
-    const locationListMatch = /var _locationList\s*=\s*(\[.*?\]);/s.exec(html);
-
-    if (!locationListMatch) {
-      throw new Error("Could not find _locationList in HTML");
-    }
-
-    const locationData = JSON.parse(locationListMatch[1] ?? "[]") as Array<{
-      LocationCode: string;
-      LocationPageURL: string;
-      Name: string;
-      DisplayName: string;
-      Address: string;
-      City: string;
-      State: string;
-      StateAbbr: string;
-      Zip: string;
-      Phone: string;
-      Lat: number;
-      Lng: number;
-      Distance: number;
-      LegacyCode: string;
-      Primo: string;
-      Urls: {
-        Store: string;
-        Interchange: string;
-        Inventory: string;
-        Prices: string;
-        Directions: string;
-        SellACar: string;
-        Contact: string;
-        CustomerServiceChat: string | null;
-        CarbuyChat: string | null;
-        Deals: string;
-        Parts: string;
-      };
-    }>;
-
-    // Transform to our interface format
-    const locations: Location[] = locationData.map((loc) => ({
-      locationCode: loc.LocationCode,
-      locationPageURL: loc.LocationPageURL,
-      name: loc.Name,
-      displayName: loc.DisplayName,
-      address: loc.Address,
-      city: loc.City,
-      state: loc.State,
-      stateAbbr: loc.StateAbbr,
-      zip: loc.Zip,
-      phone: loc.Phone,
-      lat: loc.Lat,
-      lng: loc.Lng,
-      distance: loc.Distance,
-      legacyCode: loc.LegacyCode,
-      primo: loc.Primo,
-      urls: {
-        store: loc.Urls.Store,
-        interchange: loc.Urls.Interchange,
-        inventory: loc.Urls.Inventory,
-        prices: loc.Urls.Prices,
-        directions: loc.Urls.Directions,
-        sellACar: loc.Urls.SellACar,
-        contact: loc.Urls.Contact,
-        customerServiceChat: loc.Urls.CustomerServiceChat,
-        carbuyChat: loc.Urls.CarbuyChat,
-        deals: loc.Urls.Deals,
-        parts: loc.Urls.Parts,
-      },
-    }));
-
-    return locations;
-  } catch (error) {
-    console.error("Error fetching locations from LKQ:", error);
-
-    // Fallback to hardcoded location data for development
-    return getMockLocations();
-  }
-}
-
-/**
- * Mock location data for development
- */
-function getMockLocations(): Location[] {
-  return [
-    {
-      locationCode: "1223",
-      locationPageURL:
-        "https://locations.lkqpickyourpart.com/en-us/al/huntsville/6942-stringfield-rd-nw/",
-      name: "LKQ Pick Your Part - Huntsville",
-      displayName: "Huntsville",
-      address: "6942 Stringfield Rd.",
-      city: "Huntsville",
-      state: "Alabama",
-      stateAbbr: "AL",
-      zip: "35806",
-      phone: "(800) 962-2277",
-      lat: 34.77887,
-      lng: -86.652217,
-      distance: 0,
-      legacyCode: "223",
-      primo: "",
-      urls: {
-        store:
-          "https://locations.lkqpickyourpart.com/en-us/al/huntsville/6942-stringfield-rd-nw/",
-        interchange: "/parts/huntsville-1223/",
-        inventory: "/inventory/huntsville-1223/",
-        prices: "/prices/huntsville-1223/",
-        directions:
-          "https://www.google.com/maps/dir/?api=1&destination=6942+Stringfield+Rd.+Huntsville+Alabama+35806&dir_action=navigate",
-        sellACar: "/sellacar/huntsville-1223/",
-        contact: "/contact/huntsville-1223/",
-        customerServiceChat: null,
-        carbuyChat: null,
-        deals: "/deals/huntsville-1223/",
-        parts: "/parts/huntsville-1223/",
-      },
-    },
-    // Add more mock locations as needed
-  ];
-}
+import { listAllLocations } from "~/server/inventory";
 
 export const locationsRouter = createTRPCRouter({
   /**
-   * Get all LKQ locations
+   * Get all locations across every enabled inventory source
    * Uses Next.js Data Cache for automatic caching and request deduplication
    */
   getAll: publicProcedure.query(async (): Promise<Location[]> => {
-    return await fetchLocationsFromLKQ();
+    return await listAllLocations();
   }),
 
   /**
@@ -170,7 +22,7 @@ export const locationsRouter = createTRPCRouter({
       }),
     )
     .query(async ({ input }): Promise<Location[]> => {
-      const allLocations = await fetchLocationsFromLKQ();
+      const allLocations = await listAllLocations();
       return allLocations.filter((location) =>
         input.states.includes(location.stateAbbr),
       );
@@ -183,13 +35,16 @@ export const locationsRouter = createTRPCRouter({
     .input(
       z.object({
         locationCode: z.string(),
+        source: z.string().optional(),
       }),
     )
     .query(async ({ input }): Promise<Location | null> => {
-      const allLocations = await fetchLocationsFromLKQ();
+      const allLocations = await listAllLocations();
       return (
         allLocations.find(
-          (location) => location.locationCode === input.locationCode,
+          (location) =>
+            location.locationCode === input.locationCode &&
+            (!input.source || location.source === input.source),
         ) ?? null
       );
     }),
@@ -204,7 +59,7 @@ export const locationsRouter = createTRPCRouter({
       }),
     )
     .query(async ({ input }): Promise<Location[]> => {
-      const allLocations = await fetchLocationsFromLKQ();
+      const allLocations = await listAllLocations();
       const query = input.query.toLowerCase();
 
       return allLocations.filter(
@@ -220,7 +75,7 @@ export const locationsRouter = createTRPCRouter({
    */
   getStates: publicProcedure.query(
     async (): Promise<Array<{ code: string; name: string; count: number }>> => {
-      const allLocations = await fetchLocationsFromLKQ();
+      const allLocations = await listAllLocations();
       const stateMap = new Map<string, { name: string; count: number }>();
 
       allLocations.forEach((location) => {
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import type { NotificationChannelId, NotificationDelivery } from "~/lib/types";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  deletePushSubscription,
+  getConfiguredChannels,
+  isPushServiceEndpoint,
+  listDeliveries,
+  savePushSubscription,
+} from "~/server/notifications";
+
+export const notificationsRouter = createTRPCRouter({
+  /**
+   * Get the channels that new matches are currently sent on
+   */
+  getChannels: publicProcedure.query(
+    async (): Promise<NotificationChannelId[]> => {
+      return getConfiguredChannels();
+    },
+  ),
+
+  /**
+   * Get the delivery log, newest first, with each target cut down to
+   * something that doesn't give the recipient or any secret away
+   */
+  getDeliveries: publicProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(500).default(50) }))
+    .query(async ({ input }): Promise<NotificationDelivery[]> => {
+      return listDeliveries(input.limit);
+    }),
+
+  /**
+   * Subscribe this browser to Web Push alerts
+   */
+  subscribePush: publicProcedure
+    .input(
+      z.object({
+        endpoint: z
+          .string()
+          .url()
+          .refine(isPushServiceEndpoint, "Not a known push service endpoint"),
+        keys: z.object({ p256dh: z.string(), auth: z.string() }),
+      }),
+    )
+    .mutation(async ({ input }): Promise<void> => {
+      await savePushSubscription(input);
+    }),
+
+  /**
+   * Unsubscribe a browser from Web Push alerts, proven by the subscription's
+   * auth secret
+   */
+  unsubscribePush: publicProcedure
+    .input(z.object({ endpoint: z.string(), auth: z.string() }))
+    .mutation(async ({ input }): Promise<void> => {
+      await deletePushSubscription(input);
+    }),
+});
@@ -0,0 +1,96 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { ARRIVAL_WINDOWS, SORT_OPTIONS } from "~/lib/constants";
+import type { SavedSearch } from "~/lib/types";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listSavedSearches,
+  runSavedSearch,
+} from "~/server/alerts/saved-searches";
+import {
+  coordinatesSchema,
+  getUserLocation,
+  searchQuerySchema,
+} from "./vehicles";
+
+// Schema for the URL filter state a saved search is made of
+const savedSearchFiltersSchema = z.object({
+  makes: z.array(z.string()),
+  colors: z.array(z.string()),
+  engines: z.array(z.string()).default([]),
+  states: z.array(z.string()),
+  salvageYards: z.array(z.string()),
+  models: z.array(z.string()).default([]),
+  minYear: z.number().int().nullable(),
+  maxYear: z.number().int().nullable(),
+  maxDistance: z.number().positive().nullable().default(null),
+  arrived: z.enum(ARRIVAL_WINDOWS).nullable().default(null),
+  arrivedFrom: z.string().date().nullable().default(null),
+  arrivedTo: z.string().date().nullable().default(null),
+  sort: z.enum(SORT_OPTIONS),
+  origin: coordinatesSchema.nullable().default(null),
+});
+
+export const savedSearchesRouter = createTRPCRouter({
+  /**
+   * Get every saved search
+   */
+  getAll: publicProcedure.query(async (): Promise<SavedSearch[]> => {
+    return listSavedSearches();
+  }),
+
+  /**
+   * Save the current query and filters under a name
+   */
+  create: publicProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        query: z.string().trim().min(1).pipe(searchQuerySchema),
+        filters: savedSearchFiltersSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }): Promise<SavedSearch> => {
+      const { filters } = input;
+      // Without a picked origin the search page measures distances from
+      // where the request came from, which a scheduled run can't know
+      if (filters.maxDistance !== null && !filters.origin) {
+        const [lat, lng] = getUserLocation(ctx.req);
+        return createSavedSearch({
+          ...input,
+          filters: { ...filters, origin: { lat, lng } },
+        });
+      }
+      return createSavedSearch(input);
+    }),
+
+  /**
+   * Delete a saved search and its alerts
+   */
+  delete: publicProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ input }): Promise<void> => {
+      await deleteSavedSearch(input.id);
+    }),
+
+  /**
+   * Re-run a saved search right away instead of waiting for the schedule
+   */
+  run: publicProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ input }): Promise<{ newMatches: number }> => {
+      const savedSearch = await getSavedSearch(input.id);
+      if (!savedSearch) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Saved search not found",
+        });
+      }
+
+      const result = await runSavedSearch(savedSearch);
+      return { newMatches: result.newMatches.length };
+    }),
+});
@@ -1,669 +1,510 @@
+import { TRPCError } from "@trpc/server";
 import { geolocation } from "@vercel/functions";
-import * as cheerio from "cheerio";
-import { backOff } from "exponential-backoff";
-import { revalidateTag, unstable_cache } from "next/cache";
 import pLimit from "p-limit";
 import { z } from "zod";
-import { API_ENDPOINTS, SEARCH_CONFIG } from "~/lib/constants";
+import { getQueryRewrite } from "~/lib/aliases";
+import { SEARCH_CONFIG, SORT_OPTIONS } from "~/lib/constants";
+import { parseSearchQuery } from "~/lib/search-query";
 import type {
   Location,
+  LocationScope,
+  MakeCount,
+  ModelCount,
   ParsedVehicleData,
-  SearchFilters,
   SearchResult,
+  SearchStreamChunk,
+  UnknownMake,
   Vehicle,
-  VehicleImage,
+  VehicleHistory,
 } from "~/lib/types";
-import { calculateDistance } from "~/lib/utils";
+import { decodeVin } from "~/lib/vin";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  fetchVehicleInventory,
+  findStoredVehicle,
+  getCurrentInventory,
+  getVehicleHistory,
+  isInLocationScope,
+} from "~/server/inventory";
+import { getMakeCounts, getModelCounts } from "~/server/inventory/catalog";
+import { listUnknownMakes } from "~/server/inventory/makes";
+import {
+  decodeCursor,
+  filterVehicles,
+  findSimilarVehicles,
+  getFacets,
+  paginateVehicles,
+  sortVehicles,
+  withQueryFilters,
+  type SearchCursor,
+} from "~/server/inventory/results";
+import {
+  DEFAULT_USER_LOCATION,
+  searchLocation,
+  type LocationSearchResult,
+} from "~/server/inventory/search";
 import { locationsRouter } from "./locations";
 
+// A query in the search box's query language, rejected when it doesn't parse
+export const searchQuerySchema = z.string().superRefine((query, ctx) => {
+  parseSearchQuery(query).errors.forEach((error) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  });
+});
+
+export const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+// Limits which yards a search asks at all
+const locationScopeSchema = z.object({
+  states: z.array(z.string()).optional(),
+  locationCodes: z.array(z.string()).optional(),
+  near: coordinatesSchema
+    .extend({ radius: z.number().positive() }) // Miles
+    .optional(),
+});
+
 // Schema for search filters
-const searchFiltersSchema = z.object({
-  query: z.string(),
+export const searchFiltersSchema = z.object({
+  // Make, color, state and year clauses are left to the filters below
+  query: searchQuerySchema,
   makes: z.array(z.string()).optional(),
   models: z.array(z.string()).optional(),
   colors: z.array(z.string()).optional(),
+  engines: z.array(z.string()).optional(),
+  // State names or abbreviations
   states: z.array(z.string()).optional(),
+  salvageYards: z.array(z.string()).optional(),
   yearRange: z.tuple([z.number(), z.number()]).optional(),
   dateRange: z.tuple([z.date(), z.date()]).optional(),
   maxDistance: z.number().optional(),
+  // Where distances are measured from, instead of where the request came from
+  origin: coordinatesSchema.optional(),
+  // Only yards inside this scope are searched; unlike the filters above it
+  // also cuts the yards outside it from the facet counts
+  locations: locationScopeSchema.optional(),
+  // Location codes of yards to ask before the rest, so they answer first
+  favoriteLocations: z.array(z.string()).optional(),
+  // Ignore crawled data and caches and ask every yard directly
+  forceRefresh: z.boolean().default(false),
+  sortBy: z.enum(SORT_OPTIONS).default("newest"),
+  // Opaque cursor from the previous page's `nextCursor`
+  cursor: z.string().nullish(),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(SEARCH_CONFIG.MAX_PAGE_SIZE)
+    .default(SEARCH_CONFIG.PAGE_SIZE),
 });
 
-/**
- * Utility function to add delay between requests
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// Narrows make and model counts to one state or yard
+const inventoryScopeSchema = z.object({
+  state: z.string().optional(),
+  locationCode: z.string().optional(),
+});
 
 /**
- * Fetch with retry and exponential backoff
- * Uses Next.js Data Cache for optimal caching and request deduplication
+ * Resolve the user's coordinates for distance calculations, preferring an
+ * origin the user picked over geolocating the request, which only works
+ * when deployed on Vercel
  */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit = {},
-): Promise<Response> {
-  // Merge with Next.js Data Cache options
-  const cacheOptions: RequestInit = {
-    ...options,
-    cache: "force-cache", // Use Next.js Data Cache
-    next: { revalidate: 300 }, // Revalidate every 5 minutes
-  };
+export function getUserLocation(
+  req?: Request,
+  origin?: { lat: number; lng: number },
+): [number, number] {
+  if (origin) return [origin.lat, origin.lng];
 
-  return backOff(
-    async () => {
-      const response = await fetch(url, cacheOptions);
-
-      // If successful, return the response
-      if (response.ok) {
-        return response;
-      }
-
-      // If client error (4xx), don't retry
-      if (response.status >= 400 && response.status < 500) {
-        throw new Error(
-          `Client error: ${response.status} - ${response.statusText}`,
-        );
-      }
-
-      // Server error (5xx) - retry with backoff
-      throw new Error(
-        `Server error: ${response.status} - ${response.statusText}`,
-      );
-    },
-    {
-      numOfAttempts: SEARCH_CONFIG.MAX_RETRIES,
-      startingDelay: SEARCH_CONFIG.BASE_RETRY_DELAY,
-      maxDelay: SEARCH_CONFIG.MAX_RETRY_DELAY,
-      retry: (error: Error, attemptNumber: number) => {
-        console.log(
-          `Request failed (attempt ${attemptNumber}/${SEARCH_CONFIG.MAX_RETRIES}): ${error.message}`,
-        );
-        return true; // Always retry unless it's a client error (handled above)
-      },
-    },
-  );
-}
-
-/**
- * Internal function to fetch vehicle inventory without caching
- */
-async function fetchVehicleInventoryInternal(
-  location: Location,
-  searchQuery: string,
-): Promise<ParsedVehicleData[]> {
+  let userLocation = DEFAULT_USER_LOCATION;
   try {
-    // Use the AJAX endpoint that returns search results HTML
-    const url = new URL(
-      `${API_ENDPOINTS.LKQ_BASE}${API_ENDPOINTS.VEHICLE_INVENTORY}`,
-    );
-    url.searchParams.set("page", "1");
-    url.searchParams.set("filter", searchQuery);
-    url.searchParams.set("store", location.locationCode);
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      SEARCH_CONFIG.REQUEST_TIMEOUT,
-    );
-
-    // Realistic browser headers to simulate AJAX request from the inventory page
-    const response = await fetchWithRetry(url.toString(), {
-      signal: controller.signal,
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-        "Accept-Encoding": "gzip, deflate, br",
-        "X-Requested-With": "XMLHttpRequest", // Important for AJAX requests
-        Referer: `${API_ENDPOINTS.LKQ_BASE}${location.urls.inventory}`,
-        Origin: API_ENDPOINTS.LKQ_BASE,
-        DNT: "1",
-        Connection: "keep-alive",
-        "Sec-Fetch-Dest": "empty",
-        "Sec-Fetch-Mode": "cors",
-        "Sec-Fetch-Site": "same-origin",
-        "Cache-Control": "no-cache",
-      },
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (req) {
+      const geo = geolocation(req);
+      if (geo?.latitude && geo?.longitude) {
+        userLocation = [parseFloat(geo.latitude), parseFloat(geo.longitude)];
+      }
     }
-
-    const html = await response.text();
-
-    return parseVehicleInventoryHTML(html, location);
   } catch (error) {
-    console.error(
-      `Error fetching inventory for location ${location.locationCode}:`,
-      error,
-    );
-
-    // Add delay even on error to avoid hammering the server
-    await delay(SEARCH_CONFIG.REQUEST_DELAY);
-
-    return [];
+    console.error("Failed to get geolocation:", error);
+    // Keep default location
   }
+  return userLocation;
 }
 
 /**
- * Cached version of fetchVehicleInventoryInternal using Next.js cache
- *
- * ⚠️  LEGAL WARNING: This function performs web scraping of LKQ's website.
- * Before deploying to production, review LEGAL_CONSIDERATIONS.md and:
- * - Seek legal counsel
- * - Review LKQ's Terms of Service
- * - Consider requesting official API access
- * - Ensure compliance with applicable laws
+ * Get the locations that a search should fan out to, which is every
+ * location unless the search is scoped, with favorite locations first
  */
-const fetchVehicleInventory = unstable_cache(
-  async (location: Location, searchQuery: string) => {
-    return fetchVehicleInventoryInternal(location, searchQuery);
-  },
-  ["vehicle-inventory"],
-  {
-    revalidate: 300, // Cache for 5 minutes
-    tags: ["vehicles"],
-  },
-);
-
-/**
- * Helper function to clear vehicle cache when needed
- */
-export function clearVehicleCache(): void {
-  revalidateTag("vehicles");
+async function getLocationsToSearch(
+  scope?: LocationScope,
+  favoriteLocations: string[] = [],
+): Promise<Location[]> {
+  const locations = await locationsRouter
+    .createCaller({ headers: new Headers() })
+    .getAll();
+  const isFavorite = (location: Location) =>
+    favoriteLocations.includes(location.locationCode);
+  return (
+    scope
+      ? locations.filter((location) => isInLocationScope(location, scope))
+      : [...locations]
+  ).sort((a, b) => Number(isFavorite(b)) - Number(isFavorite(a)));
 }
 
 /**
- * Helper function to extract text after a label
+ * Attach a scraped listing to its location, with its VIN decoded
  */
-function extractAfterLabel(text: string, label: string): string {
-  const index = text.indexOf(label);
-  if (index === -1) return "";
-  return text
-    .substring(index + label.length)
-    .replace(/\s+/g, " ")
-    .trim();
+function toVehicle(vehicle: ParsedVehicleData, location: Location): Vehicle {
+  return {
+    ...vehicle,
+    decoded: decodeVin(vehicle.vin, vehicle.year) ?? undefined,
+    source: location.source,
+    location,
+  };
 }
 
 /**
- * Helper function to extract first word after a label
+ * Search every location given, with concurrency limit using p-limit
  */
-function extractWordAfterLabel(text: string, label: string): string {
-  const afterLabel = extractAfterLabel(text, label);
-  return afterLabel.split(" ")[0] ?? "";
+function searchLocations(
+  locations: Location[],
+  query: string,
+  userLocation: [number, number],
+  options: { forceRefresh?: boolean },
+): Promise<LocationSearchResult[]> {
+  const limit = pLimit(SEARCH_CONFIG.MAX_CONCURRENT_REQUESTS);
+  return Promise.all(
+    locations.map((location) =>
+      limit(() => searchLocation(location, query, userLocation, options)),
+    ),
+  );
 }
 
 /**
- * Determine image type from URL
+ * Every match of a search, filtered and sorted like `search` pages them
+ * but without the paging and facets, for reading a whole result at once
  */
-function getImageType(url: string): VehicleImage["type"] {
-  if (url.includes("CAR-FRONT-LEFT")) return "CAR-FRONT-LEFT";
-  if (url.includes("CAR-BACK-LEFT")) return "CAR-BACK-LEFT";
-  if (url.includes("CAR-BACK-RIGHT")) return "CAR-BACK-RIGHT";
-  if (url.includes("CAR-FRONT-RIGHT")) return "CAR-FRONT-RIGHT";
-  if (url.includes("CAR-BACK")) return "CAR-BACK";
-  if (url.includes("CAR-FRONT")) return "CAR-FRONT";
-  if (url.includes("CAR-LEFT")) return "CAR-LEFT";
-  if (url.includes("CAR-RIGHT")) return "CAR-RIGHT";
-  if (url.includes("ENGINE")) return "ENGINE";
-  if (url.includes("INTERIOR")) return "INTERIOR";
-  return "OTHER";
-}
+export async function findAllMatches(
+  input: Omit<z.infer<typeof searchFiltersSchema>, "cursor" | "limit">,
+  req?: Request,
+): Promise<Vehicle[]> {
+  const userLocation = getUserLocation(req, input.origin);
+  const locationsToSearch = await getLocationsToSearch(
+    input.locations,
+    input.favoriteLocations,
+  );
+  const locationResults = await searchLocations(
+    locationsToSearch,
+    input.query,
+    userLocation,
+    { forceRefresh: input.forceRefresh },
+  );
 
-/**
- * Remove crop parameters from image URL
- */
-function removeCropParameters(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    urlObj.searchParams.delete("w");
-    urlObj.searchParams.delete("h");
-    urlObj.searchParams.delete("mode");
-    return urlObj.toString();
-  } catch {
-    return url;
-  }
+  return sortVehicles(
+    filterVehicles(
+      locationResults.flatMap((result) => result.vehicles),
+      { ...withQueryFilters(input), userLocation },
+    ),
+    input.sortBy,
+  );
 }
 
 /**
- * Convert text to URL-friendly slug by replacing spaces with hyphens
+ * Filter, sort and page the vehicles the searched locations answered with
  */
-function createSlug(text: string): string {
-  return text.toLowerCase().split(" ").join("-");
-}
+function toSearchResult(
+  locationResults: LocationSearchResult[],
+  locationsToSearch: Location[],
+  {
+    input,
+    userLocation,
+    cursor,
+    startTime,
+  }: {
+    input: z.infer<typeof searchFiltersSchema>;
+    userLocation: [number, number];
+    cursor: SearchCursor | null;
+    startTime: number;
+  },
+): SearchResult {
+  const allVehicles = locationResults.flatMap((result) => result.vehicles);
+  const locationsWithErrors = locationResults
+    .filter((result) => result.error)
+    .map((result) => result.location.locationCode);
+  const truncatedLocations = locationResults
+    .filter((result) => result.truncated)
+    .map((result) => result.location.locationCode);
+  const pagesFetched = locationResults.reduce(
+    (total, result) => total + result.pagesFetched,
+    0,
+  );
 
-/**
- * Generate vehicle URLs
- */
-function generateVehicleUrls(
-  year: number,
-  make: string,
-  model: string,
-  location: Location,
-): { detailsUrl: string; partsUrl: string; pricesUrl: string } {
-  const modelSlug = createSlug(model);
+  // Apply filters, then sort and cut out the requested page
+  const filters = { ...withQueryFilters(input), userLocation };
+  const filteredVehicles = filterVehicles(allVehicles, filters);
+  const { vehicles, page, hasMore, nextCursor } = paginateVehicles(
+    sortVehicles(filteredVehicles, input.sortBy),
+    input.sortBy,
+    cursor,
+    input.limit,
+  );
 
   return {
-    detailsUrl: `${API_ENDPOINTS.LKQ_BASE}${location.urls.inventory}${year}-${make.toLowerCase()}-${modelSlug}/`,
-    partsUrl: `${API_ENDPOINTS.LKQ_BASE}${location.urls.parts}?year=${year}&make=${make}&model=${model}`,
-    pricesUrl: `${API_ENDPOINTS.LKQ_BASE}${location.urls.prices}`,
+    vehicles,
+    totalCount: filteredVehicles.length,
+    page,
+    hasMore,
+    searchTime: Date.now() - startTime,
+    locationsCovered: locationsToSearch.length - locationsWithErrors.length,
+    queriedLocations: locationsToSearch.map(
+      (location) => location.locationCode,
+    ),
+    locationsWithErrors,
+    pagesFetched,
+    truncatedLocations,
+    rewrite: getQueryRewrite(parseSearchQuery(input.query).upstreamQueries),
+    nextCursor,
+    facets: getFacets(allVehicles, filters),
   };
 }
 
-/**
- * Parses vehicle inventory HTML to extract vehicle data using simplified Cheerio parsing
- */
-function parseVehicleInventoryHTML(
-  html: string,
-  location: Location,
-): ParsedVehicleData[] {
-  const vehicles: ParsedVehicleData[] = [];
-
-  try {
-    const $ = cheerio.load(html);
-    const base = new URL(API_ENDPOINTS.LKQ_BASE);
-
-    $(".pypvi_resultRow[id]").each((_, el) => {
-      try {
-        const id = $(el).attr("id");
-        if (!id) return;
-
-        // Main image
-        const mainImageHref =
-          $(el).find("a.fancybox-thumb.pypvi_image").attr("href") ?? "";
-        const mainImageUrl = mainImageHref
-          ? new URL(mainImageHref, base).toString()
-          : "";
-
-        // Thumbnails
-        const thumbnails = $(el)
-          .find(".pypvi_images a[data-fancybox]")
-          .map((_, a) => {
-            const href = $(a).attr("href");
-            return href ? new URL(href, base).toString() : "";
-          })
-          .get()
-          .filter((url) => url !== "");
-
-        // Combine main image and thumbnails into VehicleImage array
-        const images: VehicleImage[] = [];
-
-        if (mainImageUrl) {
-          images.push({
-            url: removeCropParameters(mainImageUrl),
-            thumbnailUrl: mainImageUrl,
-            type: getImageType(mainImageUrl),
-          });
-        }
-
-        thumbnails.forEach((thumbnailUrl) => {
-          images.push({
-            url: removeCropParameters(thumbnailUrl),
-            thumbnailUrl,
-            type: getImageType(thumbnailUrl),
-          });
-        });
-
-        // Year, Make, Model
-        const ymmText = $(el).find(".pypvi_ymm").text().trim();
-        const normalizedYmm = ymmText.replace(/\s+/g, " ").trim();
-        const [yearStr = "", make = "", ...modelParts] =
-          normalizedYmm.split(" ");
-        const model = modelParts.join(" ");
-        const year = parseInt(yearStr) || 0;
-
-        // Details
-        const colorText = $(el)
-          .find(".pypvi_detailItem:contains('Color:')")
-          .text();
-        const color = extractAfterLabel(colorText, "Color:");
-
-        const vinText = $(el).find(".pypvi_detailItem:contains('VIN:')").text();
-        const vin = extractAfterLabel(vinText, "VIN:");
-
-        const sectionText = $(el)
-          .find(".pypvi_detailItem:contains('Section:')")
-          .text();
-        const section = extractWordAfterLabel(sectionText, "Section:");
-
-        const rowText = $(el).find(".pypvi_detailItem:contains('Row:')").text();
-        const row = extractWordAfterLabel(rowText, "Row:");
-
-        const spaceText = $(el)
-          .find(".pypvi_detailItem:contains('Space:')")
-          .text();
-        const space = extractWordAfterLabel(spaceText, "Space:");
-
-        const stockText = $(el)
-          .find(".pypvi_detailItem:contains('Stock #:')")
-          .text();
-        const stockNumber = extractAfterLabel(stockText, "Stock #:");
-
-        // Available date
-        let availableDate = new Date().toISOString();
-        const datetimeAttr = $(el).find("time[datetime]").attr("datetime");
-        if (datetimeAttr) {
-          const parsedDate = new Date(datetimeAttr);
-          if (!isNaN(parsedDate.getTime())) {
-            availableDate = parsedDate.toISOString();
-          }
-        } else {
-          const availableText = $(el)
-            .find(".pypvi_detailItem:contains('Available:')")
-            .text();
-          const availableRaw = extractAfterLabel(availableText, "Available:");
-          if (availableRaw) {
-            const dateMatch = /(\d{1,2}\/\d{1,2}\/\d{4})/.exec(availableRaw);
-            if (dateMatch?.[1]) {
-              const parsedDate = new Date(dateMatch[1]);
-              if (!isNaN(parsedDate.getTime())) {
-                availableDate = parsedDate.toISOString();
-              }
-            }
-          }
-        }
-
-        // Generate URLs
-        const { detailsUrl, partsUrl, pricesUrl } = generateVehicleUrls(
-          year,
-          make,
-          model,
-          location,
-        );
-
-        vehicles.push({
-          id,
-          year,
-          make,
-          model,
-          color,
-          vin,
-          stockNumber,
-          availableDate,
-          yardLocation: {
-            section,
-            row,
-            space,
-          },
-          images,
-          detailsUrl,
-          partsUrl,
-          pricesUrl,
-        });
-      } catch (error) {
-        console.error(`Error parsing vehicle element:`, error);
-      }
-    });
-  } catch (error) {
-    console.error("Error parsing vehicle inventory HTML:", error);
-  }
-
-  return vehicles;
-}
-
-/**
- * Filter vehicles based on search criteria
- */
-function filterVehicles(
-  vehicles: Vehicle[],
-  filters: SearchFilters,
-): Vehicle[] {
-  return vehicles.filter((vehicle) => {
-    // Filter by makes
-    if (filters.makes?.length && !filters.makes.includes(vehicle.make)) {
-      return false;
-    }
-
-    // Filter by models
-    if (filters.models?.length && !filters.models.includes(vehicle.model)) {
-      return false;
-    }
-
-    // Filter by colors
-    if (filters.colors?.length && !filters.colors.includes(vehicle.color)) {
-      return false;
-    }
-
-    // Filter by states
-    if (
-      filters.states?.length &&
-      !filters.states.includes(vehicle.location.stateAbbr)
-    ) {
-      return false;
-    }
-
-    // Filter by year range
-    if (filters.yearRange) {
-      const [minYear, maxYear] = filters.yearRange;
-      if (vehicle.year < minYear || vehicle.year > maxYear) {
-        return false;
-      }
-    }
-
-    // Filter by date range
-    if (filters.dateRange) {
-      const [startDate, endDate] = filters.dateRange;
-      const vehicleDate = new Date(vehicle.availableDate);
-      if (vehicleDate < startDate || vehicleDate > endDate) {
-        return false;
-      }
-    }
-
-    // Filter by distance
-    if (
-      filters.maxDistance &&
-      filters.userLocation &&
-      vehicle.location.distance > filters.maxDistance
-    ) {
-      return false;
-    }
-
-    return true;
-  });
-}
-
 export const vehiclesRouter = createTRPCRouter({
   /**
-   * Global search across all LKQ locations
+   * Global search across the locations of every enabled inventory source,
+   * filtered, sorted and returned a page at a time
    */
   search: publicProcedure
     .input(searchFiltersSchema)
     .query(async ({ input, ctx }): Promise<SearchResult> => {
       const startTime = Date.now();
 
-      // Always get user's geolocation for distance calculations
-      let userLocation: [number, number] = [39.8283, -98.5795]; // Default to center of US
-      try {
-        if (ctx.req) {
-          const geo = geolocation(ctx.req);
-          if (geo?.latitude && geo?.longitude) {
-            userLocation = [
-              parseFloat(geo.latitude),
-              parseFloat(geo.longitude),
-            ];
-          }
-        }
-      } catch (error) {
-        console.error("Failed to get geolocation:", error);
-        // Keep default location
+      const cursor = input.cursor
+        ? decodeCursor(input.cursor, input.sortBy)
+        : null;
+      if (input.cursor && !cursor) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Invalid cursor, start the search again",
+        });
       }
 
-      // Search all locations
-      const locationsToSearch = await locationsRouter
-        .createCaller({ headers: new Headers() })
-        .getAll();
+      // Always get user's location for distance calculations
+      const userLocation = getUserLocation(ctx.req, input.origin);
 
-      // Perform parallel searches with concurrency limit using p-limit
-      const limit = pLimit(SEARCH_CONFIG.MAX_CONCURRENT_REQUESTS);
-      const locationsWithErrors: string[] = [];
-
-      const allVehiclePromises = locationsToSearch.map((location) =>
-        limit(async () => {
-          try {
-            const parsedVehicles = await fetchVehicleInventory(
-              location,
-              input.query,
-            );
-            return parsedVehicles.map((vehicle) => {
-              // Always calculate distance from user's location
-              const distance = calculateDistance(
-                userLocation[0],
-                userLocation[1],
-                location.lat,
-                location.lng,
-              );
-
-              return {
-                ...vehicle,
-                location: {
-                  ...location,
-                  distance,
-                },
-              } as Vehicle;
-            });
-          } catch (error) {
-            console.error(
-              `Error fetching vehicles from ${location.locationCode}:`,
-              error,
-            );
-            locationsWithErrors.push(location.locationCode);
-            return [];
-          }
-        }),
+      // Search every location in scope
+      const locationsToSearch = await getLocationsToSearch(
+        input.locations,
+        input.favoriteLocations,
       );
 
-      const allVehicleResults = await Promise.all(allVehiclePromises);
-      const allVehicles = allVehicleResults.flat();
+      const locationResults = await searchLocations(
+        locationsToSearch,
+        input.query,
+        userLocation,
+        // Later pages read what the first page just fetched
+        { forceRefresh: input.forceRefresh && !cursor },
+      );
+
+      return toSearchResult(locationResults, locationsToSearch, {
+        input,
+        userLocation,
+        cursor,
+        startTime,
+      });
+    }),
 
-      // Apply filters
-      const filteredVehicles = filterVehicles(allVehicles, input);
+  /**
+   * Streaming variant of search that yields progress each time a location
+   * answers, and the first page of results once every location has
+   *
+   * The last chunk's page is the same as the first page of `search`, so
+   * later pages are read from `search` with its `nextCursor`.
+   */
+  searchStream: publicProcedure
+    .input(searchFiltersSchema)
+    .query(async function* ({ input, ctx }): AsyncGenerator<SearchStreamChunk> {
+      const startTime = Date.now();
+      const userLocation = getUserLocation(ctx.req, input.origin);
+      const locationsToSearch = await getLocationsToSearch(
+        input.locations,
+        input.favoriteLocations,
+      );
+      const filters = { ...withQueryFilters(input), userLocation };
 
-      // Return ALL results - no pagination (sorting is done client-side)
-      const allResults = filteredVehicles;
+      const limit = pLimit(SEARCH_CONFIG.MAX_CONCURRENT_REQUESTS);
+      const pending = new Map(
+        locationsToSearch.map((location, index) => [
+          index,
+          limit(() =>
+            searchLocation(location, input.query, userLocation, {
+              forceRefresh: input.forceRefresh,
+            }),
+          ).then((result) => ({ index, result })),
+        ]),
+      );
 
-      const searchTime = Date.now() - startTime;
+      // Yield locations in the order they finish, not the order they
+      // started; only the count of matches is sent until the last one
+      const locationResults: LocationSearchResult[] = [];
+      let vehiclesFound = 0;
+      while (pending.size > 0) {
+        const { index, result } = await Promise.race(pending.values());
+        pending.delete(index);
+        locationResults.push(result);
+        vehiclesFound += filterVehicles(result.vehicles, filters).length;
+
+        if (pending.size > 0) {
+          yield {
+            locationsSearched: locationResults.length,
+            totalLocations: locationsToSearch.length,
+            vehiclesFound,
+            result: null,
+          };
+        }
+      }
 
-      return {
-        vehicles: allResults,
-        totalCount: allResults.length,
-        page: 1,
-        hasMore: false,
-        searchTime,
-        locationsCovered: locationsToSearch.length - locationsWithErrors.length,
-        locationsWithErrors,
+      // Then the first page of the whole result, empty when no location was
+      // in scope
+      yield {
+        locationsSearched: locationResults.length,
+        totalLocations: locationsToSearch.length,
+        vehiclesFound,
+        result: toSearchResult(locationResults, locationsToSearch, {
+          input,
+          userLocation,
+          cursor: null,
+          startTime,
+        }),
       };
     }),
 
   /**
-   * Get vehicle by ID
+   * Get a vehicle by listing id, stock number or VIN
+   *
+   * Read from the snapshot store, so no search has to have run first.
+   * Vehicles the store hasn't recorded yet are looked for in the yard's
+   * inventory when the location is given.
    */
   getById: publicProcedure
     .input(
-      z.object({
-        vehicleId: z.string(),
-        locationCode: z.string(),
-      }),
+      z
+        .object({
+          vehicleId: z.string().optional(),
+          stockNumber: z.string().optional(),
+          vin: z.string().optional(),
+          locationCode: z.string().optional(),
+          source: z.string().optional(),
+        })
+        .refine(
+          (input) => input.vehicleId ?? input.stockNumber ?? input.vin,
+          "Give a vehicle id, stock number or VIN",
+        ),
     )
     .query(async ({ input }): Promise<Vehicle | null> => {
+      const stored = await findStoredVehicle(input);
+      const locationCode = stored?.locationCode ?? input.locationCode;
+      if (!locationCode) return null;
+
       const location = await locationsRouter
         .createCaller({ headers: new Headers() })
-        .getByCode({
-          locationCode: input.locationCode,
-        });
-
+        .getByCode({ locationCode, source: stored?.source ?? input.source });
       if (!location) return null;
 
-      // Fetch specific vehicle (this is simplified - in reality would need to search)
-      const vehicles = await fetchVehicleInventory(location, "");
-      const vehicleData = vehicles.find((v) => v.id === input.vehicleId);
+      if (stored) {
+        return {
+          ...toVehicle(stored.vehicle, location),
+          firstSeenAt: stored.firstSeenAt,
+          lastSeenAt: stored.lastSeenAt,
+        };
+      }
 
-      if (!vehicleData) return null;
+      const { vehicles } = await fetchVehicleInventory(location, "");
+      const vehicleData = vehicles.find(
+        (vehicle) =>
+          vehicle.id === input.vehicleId ||
+          (!!input.stockNumber && vehicle.stockNumber === input.stockNumber) ||
+          (!!input.vin &&
+            vehicle.vin.toUpperCase() === input.vin.toUpperCase()),
+      );
 
-      return {
-        ...vehicleData,
-        location,
-      };
+      return vehicleData ? toVehicle(vehicleData, location) : null;
     }),
 
   /**
-   * Get popular makes across all locations
+   * Get vehicles on the same yard's lot that are most like a vehicle: the
+   * same model first, then the same make, closest in year
    */
-  getPopularMakes: publicProcedure.query(async (): Promise<string[]> => {
-    // This would ideally analyze actual inventory data
-    // For now, return predefined popular makes
-    return [
-      "HONDA",
-      "TOYOTA",
-      "FORD",
-      "CHEVROLET",
-      "NISSAN",
-      "HYUNDAI",
-      "KIA",
-      "MAZDA",
-      "SUBARU",
-      "VOLKSWAGEN",
-    ];
-  }),
+  getSimilar: publicProcedure
+    .input(
+      z.object({
+        source: z.string(),
+        locationCode: z.string(),
+        vehicleId: z.string(), // Left out of the results
+        make: z.string(),
+        model: z.string(),
+        year: z.number(),
+        limit: z.number().int().min(1).max(24).default(8),
+      }),
+    )
+    .query(async ({ input }): Promise<Vehicle[]> => {
+      const location = await locationsRouter
+        .createCaller({ headers: new Headers() })
+        .getByCode({ locationCode: input.locationCode, source: input.source });
+      if (!location) return [];
+
+      const inventory = await getCurrentInventory(location);
+      return findSimilarVehicles(
+        { id: input.vehicleId, ...input },
+        inventory,
+        input.limit,
+      ).map((vehicle) => toVehicle(vehicle, location));
+    }),
 
   /**
-   * Get models for a specific make
+   * Get the recorded snapshot history of a vehicle
    */
-  getModelsForMake: publicProcedure
+  getHistory: publicProcedure
     .input(
       z.object({
-        make: z.string(),
+        source: z.string().default("lkq"),
+        locationCode: z.string(),
+        stockNumber: z.string(),
       }),
     )
-    .query(async ({ input }): Promise<string[]> => {
-      // This would ideally query actual inventory data
-      // For now, return common models for popular makes
-      const makeModels: Record<string, string[]> = {
-        HONDA: ["ACCORD", "CIVIC", "CR-V", "PILOT", "ODYSSEY", "FIT", "HR-V"],
-        TOYOTA: [
-          "CAMRY",
-          "COROLLA",
-          "RAV4",
-          "PRIUS",
-          "HIGHLANDER",
-          "SIENNA",
-          "TACOMA",
-        ],
-        FORD: [
-          "F-150",
-          "ESCAPE",
-          "FOCUS",
-          "FUSION",
-          "EXPLORER",
-          "EDGE",
-          "MUSTANG",
-        ],
-        CHEVROLET: [
-          "SILVERADO",
-          "EQUINOX",
-          "MALIBU",
-          "CRUZE",
-          "TAHOE",
-          "SUBURBAN",
-          "IMPALA",
-        ],
-        NISSAN: [
-          "ALTIMA",
-          "SENTRA",
-          "ROGUE",
-          "PATHFINDER",
-          "FRONTIER",
-          "TITAN",
-          "VERSA",
-        ],
-      };
+    .query(async ({ input }): Promise<VehicleHistory | null> => {
+      return getVehicleHistory(
+        input.source,
+        input.locationCode,
+        input.stockNumber,
+      );
+    }),
+
+  /**
+   * Get the makes currently on the lot with their vehicle counts, most
+   * common first, optionally scoped to a state or yard
+   */
+  getPopularMakes: publicProcedure
+    .input(inventoryScopeSchema.extend({ limit: z.number().optional() }))
+    .query(async ({ input }): Promise<MakeCount[]> => {
+      const makes = await getMakeCounts(input);
+      return input.limit ? makes.slice(0, input.limit) : makes;
+    }),
 
-      return makeModels[input.make.toUpperCase()] ?? [];
+  /**
+   * Get the models of a make currently on the lot with their vehicle
+   * counts, optionally scoped to a state or yard
+   */
+  getModelsForMake: publicProcedure
+    .input(inventoryScopeSchema.extend({ make: z.string() }))
+    .query(async ({ input }): Promise<ModelCount[]> => {
+      return getModelCounts(input.make, input);
     }),
+
+  /**
+   * Get the makes that listings used but the make dictionary doesn't know
+   */
+  getUnknownMakes: publicProcedure.query(async (): Promise<UnknownMake[]> => {
+    return listUnknownMakes();
+  }),
 });
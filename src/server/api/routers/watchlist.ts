@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { Vehicle, WatchCheck, WatchedVehicle } from "~/lib/types";
+import { MAX_WATCHED_VEHICLES } from "~/lib/watchlist";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import {
+  checkWatchedVehicles,
+  listWatchedVehicles,
+  saveWatchlist,
+} from "~/server/watchlist";
+
+// Secret a synced watchlist is kept under, made by createWatchlistSyncCode
+const syncCodeSchema = z.string().uuid();
+
+const watchedVehicleRefSchema = z.object({
+  source: z.string(),
+  locationCode: z.string(),
+  stockNumber: z.string().min(1),
+});
+
+// The fields a watched vehicle is keyed on, the rest is stored as sent
+const vehicleKeySchema = z.object({
+  id: z.string(),
+  stockNumber: z.string(),
+  source: z.string(),
+  location: z.object({ locationCode: z.string() }),
+});
+
+const watchedVehicleSchema = z.object({
+  vehicle: z.custom<Vehicle>(
+    (value) => vehicleKeySchema.safeParse(value).success,
+    "Not a vehicle",
+  ),
+  addedAt: z.string().datetime(),
+});
+
+export const watchlistRouter = createTRPCRouter({
+  /**
+   * Get the watchlist synced under a sync code
+   */
+  getAll: publicProcedure
+    .input(z.object({ syncCode: syncCodeSchema }))
+    .query(async ({ input }): Promise<WatchedVehicle[]> => {
+      return listWatchedVehicles(input.syncCode);
+    }),
+
+  /**
+   * Replace the watchlist synced under a sync code with a browser's copy
+   */
+  save: publicProcedure
+    .input(
+      z.object({
+        syncCode: syncCodeSchema,
+        watchlist: z.array(watchedVehicleSchema).max(MAX_WATCHED_VEHICLES),
+      }),
+    )
+    .mutation(async ({ input }): Promise<void> => {
+      await saveWatchlist(input.syncCode, input.watchlist);
+    }),
+
+  /**
+   * Check which watched vehicles are still listed at their yards
+   */
+  check: publicProcedure
+    .input(
+      z.object({
+        vehicles: z.array(watchedVehicleRefSchema).max(MAX_WATCHED_VEHICLES),
+      }),
+    )
+    .query(async ({ input }): Promise<WatchCheck[]> => {
+      return checkWatchedVehicles(input.vehicles);
+    }),
+});
@@ -6,10 +6,12 @@
  * TL;DR - This is where all the tRPC server stuff is created and plugged in. The pieces you will
  * need to use are documented accordingly near the end.
  */
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { isAuthorizedCronRequest } from "~/server/cron/auth";
+
 /**
  * 1. CONTEXT
  *
@@ -104,3 +106,14 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * are logged in.
  */
 export const publicProcedure = t.procedure.use(timingMiddleware);
+
+/**
+ * Procedure for operator settings, which need the cron secret in the `Authorization` header just
+ * like the scheduled job routes
+ */
+export const cronProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!isAuthorizedCronRequest(ctx)) {
+    throw new TRPCError({ code: "UNAUTHORIZED" });
+  }
+  return next();
+});
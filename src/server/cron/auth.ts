@@ -0,0 +1,13 @@
+import { env } from "~/env";
+
+/**
+ * Check that a scheduled job request carries the cron secret
+ *
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`. Without a
+ * configured secret every request is rejected, so the job routes are never
+ * left open.
+ */
+export function isAuthorizedCronRequest(req: { headers: Headers }): boolean {
+  if (!env.CRON_SECRET) return false;
+  return req.headers.get("authorization") === `Bearer ${env.CRON_SECRET}`;
+}
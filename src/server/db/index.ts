@@ -0,0 +1,38 @@
+import { createClient, type Client } from "@libsql/client";
+import { env } from "~/env";
+import { SCHEMA } from "./schema";
+
+/**
+ * Open the database and make sure the schema exists
+ */
+async function createDatabase(): Promise<Client> {
+  const client = createClient({
+    url: env.DATABASE_URL,
+    authToken: env.DATABASE_AUTH_TOKEN,
+  });
+  await client.batch(SCHEMA, "write");
+  return client;
+}
+
+/**
+ * Cache the connection in development. This avoids opening a new
+ * connection on every HMR update.
+ */
+const globalForDb = globalThis as unknown as {
+  db: Promise<Client> | undefined;
+};
+
+let db = globalForDb.db;
+
+/**
+ * Get the shared database connection
+ */
+export function getDb(): Promise<Client> {
+  db ??= createDatabase().catch((error: unknown) => {
+    // Let the next caller try again instead of caching the failure
+    db = undefined;
+    throw error;
+  });
+  if (env.NODE_ENV !== "production") globalForDb.db = db;
+  return db;
+}
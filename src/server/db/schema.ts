@@ -0,0 +1,129 @@
+/**
+ * Database schema
+ *
+ * Every statement must be idempotent; they all run whenever a new database
+ * connection is opened.
+ */
+export const SCHEMA: string[] = [
+  // Latest known state of every vehicle we've seen, keyed by yard and stock number
+  `CREATE TABLE IF NOT EXISTS vehicle_snapshots (
+    source TEXT NOT NULL,
+    location_code TEXT NOT NULL,
+    stock_number TEXT NOT NULL,
+    vehicle_id TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    make TEXT NOT NULL,
+    model TEXT NOT NULL,
+    color TEXT NOT NULL,
+    vin TEXT NOT NULL,
+    available_date TEXT NOT NULL,
+    data TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    removed_at TEXT,
+    PRIMARY KEY (source, location_code, stock_number)
+  )`,
+  `CREATE INDEX IF NOT EXISTS vehicle_snapshots_vin_idx
+    ON vehicle_snapshots (vin)`,
+  // Every change to a tracked field, oldest first
+  `CREATE TABLE IF NOT EXISTS vehicle_field_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,
+    location_code TEXT NOT NULL,
+    stock_number TEXT NOT NULL,
+    field TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    changed_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS vehicle_field_history_vehicle_idx
+    ON vehicle_field_history (source, location_code, stock_number)`,
+  // Named searches that are re-run on a schedule
+  `CREATE TABLE IF NOT EXISTS saved_searches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    query TEXT NOT NULL,
+    filters TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_run_at TEXT
+  )`,
+  // Vehicles that matched a saved search on its previous run
+  `CREATE TABLE IF NOT EXISTS saved_search_matches (
+    saved_search_id INTEGER NOT NULL,
+    location_code TEXT NOT NULL,
+    vehicle_id TEXT NOT NULL,
+    PRIMARY KEY (saved_search_id, location_code, vehicle_id)
+  )`,
+  // New matches waiting in the inbox
+  `CREATE TABLE IF NOT EXISTS search_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    saved_search_id INTEGER NOT NULL,
+    location_code TEXT NOT NULL,
+    vehicle_id TEXT NOT NULL,
+    vehicle TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    read_at TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS search_alerts_unread_idx
+    ON search_alerts (read_at)`,
+  // When each location was last crawled and when it's due again
+  `CREATE TABLE IF NOT EXISTS crawl_schedule (
+    source TEXT NOT NULL,
+    location_code TEXT NOT NULL,
+    interval_minutes INTEGER NOT NULL,
+    next_crawl_at TEXT NOT NULL,
+    last_crawled_at TEXT,
+    last_complete_at TEXT,
+    last_error TEXT,
+    vehicle_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (source, location_code)
+  )`,
+  // One row per crawler run
+  `CREATE TABLE IF NOT EXISTS crawl_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    locations_due INTEGER NOT NULL,
+    locations_crawled INTEGER NOT NULL,
+    locations_failed INTEGER NOT NULL,
+    vehicles_seen INTEGER NOT NULL
+  )`,
+  // Browsers subscribed to Web Push alerts
+  `CREATE TABLE IF NOT EXISTS push_subscriptions (
+    endpoint TEXT PRIMARY KEY,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  // Every notification we tried to send, one row per channel and target
+  `CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    saved_search_id INTEGER NOT NULL,
+    channel TEXT NOT NULL,
+    target TEXT NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL
+  )`,
+  // Starred vehicles of browsers that sync their watchlist, by the hash of
+  // the sync code they share
+  `CREATE TABLE IF NOT EXISTS watchlist_vehicles (
+    owner TEXT NOT NULL,
+    source TEXT NOT NULL,
+    location_code TEXT NOT NULL,
+    stock_number TEXT NOT NULL,
+    vehicle TEXT NOT NULL,
+    added_at TEXT NOT NULL,
+    PRIMARY KEY (owner, source, location_code, stock_number)
+  )`,
+  // Leading words of listings whose make isn't in the make dictionary
+  `CREATE TABLE IF NOT EXISTS unknown_makes (
+    make TEXT PRIMARY KEY,
+    example TEXT NOT NULL,
+    sightings INTEGER NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL
+  )`,
+];
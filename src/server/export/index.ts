@@ -0,0 +1,194 @@
+import superjson from "superjson";
+import { type z } from "zod";
+import { EXPORT_FORMATS, SEARCH_CONFIG } from "~/lib/constants";
+import {
+  EXPORT_COLUMN_IDS,
+  getExportColumns,
+  type ExportColumn,
+} from "~/lib/export";
+import type { ExportFormat, Vehicle } from "~/lib/types";
+import {
+  findAllMatches,
+  searchFiltersSchema,
+} from "~/server/api/routers/vehicles";
+import { writeXlsx } from "./xlsx";
+
+// The search being exported, as the search page runs it minus the paging
+const exportInputSchema = searchFiltersSchema.omit({
+  cursor: true,
+  limit: true,
+});
+
+export interface ExportRequest {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  input: z.infer<typeof exportInputSchema>;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+/**
+ * Validate the `format`, `columns` and `input` params of an export
+ *
+ * `input` is the search page's search input, serialized with superjson so
+ * its date range survives the URL. Without `columns` every column is
+ * exported.
+ */
+export function parseExportRequest(params: URLSearchParams): ExportRequest {
+  const format = EXPORT_FORMATS.find(
+    (candidate) => candidate === params.get("format"),
+  );
+  if (!format) {
+    throw new ExportError(
+      `"format" must be one of ${EXPORT_FORMATS.join(", ")}`,
+      400,
+    );
+  }
+
+  const columns = getExportColumns(
+    params.get("columns")?.split(",") ?? EXPORT_COLUMN_IDS,
+  );
+  if (columns.length === 0) {
+    throw new ExportError('"columns" has no known columns', 400);
+  }
+
+  let rawInput: unknown;
+  try {
+    rawInput = superjson.parse(params.get("input") ?? "");
+  } catch {
+    throw new ExportError('"input" is missing or not valid', 400);
+  }
+  const input = exportInputSchema.safeParse(rawInput);
+  if (!input.success) {
+    throw new ExportError(
+      `"input" is not a valid search: ${input.error.issues[0]?.message}`,
+      400,
+    );
+  }
+
+  return { format, columns, input: input.data };
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvField(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(values: (string | number)[]): string {
+  return `${values.map(toCsvField).join(",")}\r\n`;
+}
+
+/**
+ * CSV with a header row, led by a byte order mark so Excel reads it as
+ * UTF-8
+ */
+async function* writeCsv(
+  columns: ExportColumn[],
+  pages: AsyncIterable<Vehicle[]>,
+): AsyncGenerator<string> {
+  yield `\uFEFF${toCsvLine(columns.map((column) => column.label))}`;
+  for await (const vehicles of pages) {
+    yield vehicles
+      .map((vehicle) =>
+        toCsvLine(columns.map((column) => column.value(vehicle))),
+      )
+      .join("");
+  }
+}
+
+/**
+ * A JSON array with an object per vehicle, keyed by column id
+ */
+async function* writeJson(
+  columns: ExportColumn[],
+  pages: AsyncIterable<Vehicle[]>,
+): AsyncGenerator<string> {
+  let separator = "[\n";
+  for await (const vehicles of pages) {
+    for (const vehicle of vehicles) {
+      yield separator +
+        JSON.stringify(
+          Object.fromEntries(
+            columns.map((column) => [column.id, column.value(vehicle)]),
+          ),
+        );
+      separator = ",\n";
+    }
+  }
+  yield separator === "[\n" ? "[]\n" : "\n]\n";
+}
+
+async function* toRows(
+  columns: ExportColumn[],
+  pages: AsyncIterable<Vehicle[]>,
+): AsyncGenerator<(string | number)[][]> {
+  for await (const vehicles of pages) {
+    yield vehicles.map((vehicle) =>
+      columns.map((column) => column.value(vehicle)),
+    );
+  }
+}
+
+async function* encode(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  for await (const chunk of chunks) {
+    yield encoder.encode(chunk);
+  }
+}
+
+/**
+ * Export every result of a search, in the order the search page shows them
+ *
+ * The search is filtered and sorted once, then written out a batch of rows
+ * at a time. It runs before this returns, so a search that fails outright
+ * fails the request rather than cutting the file short.
+ */
+export async function exportSearchResults(
+  { format, columns, input }: ExportRequest,
+  req: Request,
+): Promise<AsyncGenerator<Uint8Array>> {
+  // Export what the search page is showing rather than asking every yard
+  // again
+  const vehicles = await findAllMatches({ ...input, forceRefresh: false }, req);
+  async function* readPages(): AsyncGenerator<Vehicle[]> {
+    for (
+      let start = 0;
+      start < vehicles.length;
+      start += SEARCH_CONFIG.MAX_PAGE_SIZE
+    ) {
+      yield vehicles.slice(start, start + SEARCH_CONFIG.MAX_PAGE_SIZE);
+    }
+  }
+
+  switch (format) {
+    case "csv":
+      return encode(writeCsv(columns, readPages()));
+    case "json":
+      return encode(writeJson(columns, readPages()));
+    case "xlsx":
+      return writeXlsx(
+        columns.map((column) => column.label),
+        toRows(columns, readPages()),
+      );
+  }
+}
@@ -0,0 +1,241 @@
+import { constants, deflateRawSync } from "node:zlib";
+
+// Version 2.0 (deflate), with sizes after the data and UTF-8 names
+const ZIP_VERSION = 20;
+const ZIP_FLAGS = 0x0808;
+const DEFLATE = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let crc = n;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+// A file in the archive, its content produced a piece at a time
+interface ZipFile {
+  name: string;
+  content: AsyncIterable<string> | Iterable<string>;
+}
+
+// What the central directory records about a file once it's written
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  let value = ~crc;
+  for (const byte of data) {
+    value = CRC_TABLE[(value ^ byte) & 0xff]! ^ (value >>> 8);
+  }
+  return ~value >>> 0;
+}
+
+/**
+ * Date and time in the two 16-bit MS-DOS fields zip headers use
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Write a zip archive without knowing any file's size up front
+ *
+ * Each piece of content is deflated on its own and ends on a sync flush,
+ * so the pieces join into one valid deflate stream and nothing is held
+ * back. Sizes and checksums follow each file in a data descriptor.
+ */
+async function* writeZip(files: ZipFile[]): AsyncGenerator<Uint8Array> {
+  const modified = toDosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const entry: ZipEntry = {
+      name: Buffer.from(file.name),
+      offset,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(modified.time, 10);
+    header.writeUInt16LE(modified.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    yield Buffer.concat([header, entry.name]);
+    offset += header.length + entry.name.length;
+
+    for await (const text of file.content) {
+      const data = Buffer.from(text);
+      if (data.length === 0) continue;
+      const compressed = deflateRawSync(data, {
+        finishFlush: constants.Z_SYNC_FLUSH,
+      });
+      entry.crc = updateCrc32(entry.crc, data);
+      entry.size += data.length;
+      entry.compressedSize += compressed.length;
+      yield compressed;
+    }
+    // An empty final block closes the deflate stream
+    const end = deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += end.length;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield Buffer.concat([end, descriptor]);
+    offset += entry.compressedSize + descriptor.length;
+
+    entries.push(entry);
+  }
+
+  const directory = Buffer.concat(
+    entries.flatMap((entry) => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(modified.time, 12);
+      header.writeUInt16LE(modified.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      return [header, entry.name];
+    }),
+  );
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield Buffer.concat([directory, end]);
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters aren't allowed in XML at all
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+  );
+}
+
+function toCell(value: string | number): string {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c><v>${value}</v></c>`;
+  }
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function toRow(values: (string | number)[]): string {
+  return `<row>${values.map(toCell).join("")}</row>`;
+}
+
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const OFFICE_RELATIONSHIP =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * The single sheet, with the header row frozen above the data
+ */
+async function* writeSheet(
+  header: string[],
+  batches: AsyncIterable<(string | number)[][]>,
+): AsyncGenerator<string> {
+  yield `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    "</sheetView></sheetViews>" +
+    `<sheetData>${toRow(header)}`;
+  for await (const rows of batches) {
+    yield rows.map(toRow).join("");
+  }
+  yield "</sheetData></worksheet>";
+}
+
+/**
+ * Write a one-sheet XLSX workbook as its rows arrive, a batch at a time
+ *
+ * Strings are written inline rather than to a shared strings table, which
+ * would have to be complete before the sheet could be.
+ */
+export function writeXlsx(
+  header: string[],
+  batches: AsyncIterable<(string | number)[][]>,
+): AsyncGenerator<Uint8Array> {
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      content: [
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          "</Types>",
+      ],
+    },
+    {
+      name: "_rels/.rels",
+      content: [
+        `${XML_DECLARATION}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+          `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>` +
+          "</Relationships>",
+      ],
+    },
+    {
+      name: "xl/workbook.xml",
+      content: [
+        `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${OFFICE_RELATIONSHIP}">` +
+          '<sheets><sheet name="Vehicles" sheetId="1" r:id="rId1"/></sheets>' +
+          "</workbook>",
+      ],
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: [
+        `${XML_DECLARATION}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+          `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>` +
+          "</Relationships>",
+      ],
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content: writeSheet(header, batches),
+    },
+  ]);
+}
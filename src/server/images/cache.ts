@@ -0,0 +1,112 @@
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { env } from "~/env";
+
+// Size and last use of every cached file, loaded from disk on first use
+interface CacheEntry {
+  size: number;
+  usedAt: number;
+}
+
+let entries: Promise<Map<string, CacheEntry>> | null = null;
+
+function getCacheDir(): string {
+  return path.resolve(env.IMAGE_CACHE_DIR);
+}
+
+/**
+ * Read what's already cached, using modification times as last use so the
+ * order survives restarts
+ */
+async function loadEntries(): Promise<Map<string, CacheEntry>> {
+  const dir = getCacheDir();
+  await mkdir(dir, { recursive: true });
+
+  const loaded = new Map<string, CacheEntry>();
+  for (const name of await readdir(dir)) {
+    const stats = await stat(path.join(dir, name)).catch(() => null);
+    if (stats?.isFile()) {
+      loaded.set(name, { size: stats.size, usedAt: stats.mtimeMs });
+    }
+  }
+  return loaded;
+}
+
+function getEntries(): Promise<Map<string, CacheEntry>> {
+  entries ??= loadEntries().catch((error: unknown) => {
+    entries = null;
+    throw error;
+  });
+  return entries;
+}
+
+/**
+ * File name an image variant is cached under
+ */
+export function getImageCacheKey(parts: Array<string | number>): string {
+  return createHash("sha256").update(parts.join("\n")).digest("hex");
+}
+
+/**
+ * Read a cached image, marking it as just used
+ * Returns null on a miss
+ */
+export async function readCachedImage(key: string): Promise<Buffer | null> {
+  const cached = await getEntries();
+  const entry = cached.get(key);
+  if (!entry) return null;
+
+  const file = path.join(getCacheDir(), key);
+  try {
+    const body = await readFile(file);
+    entry.usedAt = Date.now();
+    // Only worth persisting for the order after a restart, so don't wait
+    const usedAt = new Date(entry.usedAt);
+    void utimes(file, usedAt, usedAt).catch(() => undefined);
+    return body;
+  } catch {
+    // Deleted from under us
+    cached.delete(key);
+    return null;
+  }
+}
+
+/**
+ * Cache an image, then evict the least recently used images until the
+ * cache is back under IMAGE_CACHE_MAX_MB
+ */
+export async function writeCachedImage(
+  key: string,
+  body: Buffer,
+): Promise<void> {
+  const cached = await getEntries();
+  const dir = getCacheDir();
+  await writeFile(path.join(dir, key), body);
+  cached.set(key, { size: body.length, usedAt: Date.now() });
+
+  const maxBytes = env.IMAGE_CACHE_MAX_MB * 1024 * 1024;
+  let totalBytes = [...cached.values()].reduce(
+    (total, entry) => total + entry.size,
+    0,
+  );
+  if (totalBytes <= maxBytes) return;
+
+  const leastRecentlyUsed = [...cached].sort(
+    ([, a], [, b]) => a.usedAt - b.usedAt,
+  );
+  for (const [name, entry] of leastRecentlyUsed) {
+    if (totalBytes <= maxBytes) break;
+    cached.delete(name);
+    totalBytes -= entry.size;
+    await rm(path.join(dir, name), { force: true });
+  }
+}
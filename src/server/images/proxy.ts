@@ -0,0 +1,171 @@
+import sharp from "sharp";
+import { IMAGE_HOSTS } from "~/lib/image-hosts";
+import { getImageCacheKey, readCachedImage, writeCachedImage } from "./cache";
+
+const MAX_URL_LENGTH = 2048;
+const MAX_WIDTH = 3840;
+const DEFAULT_QUALITY = 75;
+// Photos bigger than this upstream are refused rather than resized
+const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+const FETCH_TIMEOUT = 15_000;
+
+export type ImageFormat = "avif" | "webp";
+
+// A validated request for one size of one photo
+export interface ImageRequest {
+  url: URL;
+  width: number;
+  quality: number;
+  format: ImageFormat;
+}
+
+/**
+ * A request the proxy won't serve, with the HTTP status to answer with
+ */
+export class ImageProxyError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ImageProxyError";
+  }
+}
+
+function parseIntegerParam(
+  value: string | null,
+  name: string,
+  [min, max]: [number, number],
+): number | null {
+  if (value === null) return null;
+  if (!/^\d+$/.test(value) || Number(value) < min || Number(value) > max) {
+    throw new ImageProxyError(
+      `"${name}" must be a whole number from ${min} to ${max}`,
+      400,
+    );
+  }
+  return Number(value);
+}
+
+/**
+ * Validate the `url`, `w` and `q` params of an image request, and pick
+ * the best format the browser accepts
+ *
+ * Only plain https URLs on the allow-listed photo hosts get through, so
+ * the proxy can't be pointed at internal addresses or other sites.
+ */
+export function parseImageRequest(
+  params: URLSearchParams,
+  accept: string | null,
+): ImageRequest {
+  const rawUrl = params.get("url");
+  if (!rawUrl || rawUrl.length > MAX_URL_LENGTH) {
+    throw new ImageProxyError('"url" is missing or too long', 400);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ImageProxyError('"url" is not a valid URL', 400);
+  }
+  if (
+    url.protocol !== "https:" ||
+    url.username ||
+    url.password ||
+    url.port ||
+    !IMAGE_HOSTS.includes(url.hostname)
+  ) {
+    throw new ImageProxyError('"url" is not on an allowed image host', 403);
+  }
+
+  const width = parseIntegerParam(params.get("w"), "w", [1, MAX_WIDTH]);
+  if (width === null) {
+    throw new ImageProxyError('"w" is required', 400);
+  }
+
+  return {
+    url,
+    width,
+    quality:
+      parseIntegerParam(params.get("q"), "q", [1, 100]) ?? DEFAULT_QUALITY,
+    format: accept?.includes("image/avif") ? "avif" : "webp",
+  };
+}
+
+/**
+ * Download a photo from its host, refusing redirects (which could lead off
+ * the allow-list), anything that isn't an image, and oversized files
+ */
+async function fetchSourceImage(url: URL): Promise<Buffer> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      redirect: "error",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+  } catch {
+    throw new ImageProxyError("Could not fetch the image", 502);
+  }
+
+  if (!response.ok) {
+    throw new ImageProxyError(
+      `Image host answered ${response.status}`,
+      response.status === 404 ? 404 : 502,
+    );
+  }
+  if (!response.headers.get("content-type")?.startsWith("image/")) {
+    throw new ImageProxyError("The URL is not an image", 415);
+  }
+  if (Number(response.headers.get("content-length")) > MAX_SOURCE_BYTES) {
+    throw new ImageProxyError("The image is too large", 413);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  if (body.length > MAX_SOURCE_BYTES) {
+    throw new ImageProxyError("The image is too large", 413);
+  }
+  return body;
+}
+
+/**
+ * Get a photo resized to the requested width and encoded in the requested
+ * format, from the disk cache when it's been asked for before
+ */
+export async function getProxiedImage(request: ImageRequest): Promise<Buffer> {
+  const key = getImageCacheKey([
+    request.url.href,
+    request.width,
+    request.quality,
+    request.format,
+  ]);
+  // A cache that can't be set up or read (e.g. a read-only filesystem) is
+  // a miss, the same as a failed write below
+  const cached = await readCachedImage(key).catch((error: unknown) => {
+    console.error("Error reading cached image:", error);
+    return null;
+  });
+  if (cached) return cached;
+
+  const source = await fetchSourceImage(request.url);
+  let image: Buffer;
+  try {
+    const resized = sharp(source)
+      .rotate() // Apply EXIF orientation before it's stripped
+      .resize({ width: request.width, withoutEnlargement: true });
+    image = await (
+      request.format === "avif"
+        ? resized.avif({ quality: request.quality })
+        : resized.webp({ quality: request.quality })
+    ).toBuffer();
+  } catch {
+    throw new ImageProxyError("The image could not be decoded", 422);
+  }
+
+  try {
+    await writeCachedImage(key, image);
+  } catch (error) {
+    console.error("Error caching proxied image:", error);
+  }
+  return image;
+}
@@ -0,0 +1,122 @@
+import { canonicalizeMake } from "~/lib/makes";
+import type {
+  InventoryScope,
+  Location,
+  MakeCount,
+  ModelCount,
+} from "~/lib/types";
+import { getDb } from "~/server/db";
+import { listAllLocations } from "./index";
+
+// Raw rows as returned by the aggregate queries below
+interface CountRow {
+  source: string;
+  location_code: string;
+  name: string;
+  count: number;
+}
+
+function getLocationKey(source: string, locationCode: string): string {
+  return `${source}:${locationCode}`;
+}
+
+/**
+ * Keys of the enabled locations that fall inside a scope
+ */
+async function getScopedLocationKeys(
+  scope: InventoryScope,
+): Promise<Set<string>> {
+  const locations = await listAllLocations();
+  const matches = (location: Location) =>
+    (!scope.state ||
+      location.state === scope.state ||
+      location.stateAbbr === scope.state) &&
+    (!scope.locationCode || location.locationCode === scope.locationCode);
+
+  return new Set(
+    locations
+      .filter(matches)
+      .map((location) =>
+        getLocationKey(location.source, location.locationCode),
+      ),
+  );
+}
+
+/**
+ * Sum per-location counts into one count per name, largest first
+ */
+function sumCounts(
+  rows: CountRow[],
+  locationKeys: Set<string>,
+): Array<{ name: string; count: number }> {
+  const totals = new Map<string, number>();
+  rows
+    .filter((row) =>
+      locationKeys.has(getLocationKey(row.source, row.location_code)),
+    )
+    .forEach((row) => {
+      totals.set(row.name, (totals.get(row.name) ?? 0) + row.count);
+    });
+
+  return [...totals]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Count the vehicles currently on the lot per make
+ *
+ * Counts come straight from the snapshot store, which every search and
+ * crawl updates, so they're as fresh as the inventory itself. Makes that
+ * aren't in the make dictionary are left out.
+ */
+export async function getMakeCounts(
+  scope: InventoryScope = {},
+): Promise<MakeCount[]> {
+  const db = await getDb();
+  const [result, locationKeys] = await Promise.all([
+    db.execute(
+      `SELECT source, location_code, make AS name, COUNT(*) AS count
+        FROM vehicle_snapshots
+        WHERE removed_at IS NULL
+        GROUP BY source, location_code, make`,
+    ),
+    getScopedLocationKeys(scope),
+  ]);
+
+  const canonicalRows = (result.rows as unknown as CountRow[]).flatMap(
+    (row) => {
+      const make = canonicalizeMake(row.name);
+      return make ? [{ ...row, name: make }] : [];
+    },
+  );
+
+  return sumCounts(canonicalRows, locationKeys).map(({ name, count }) => ({
+    make: name,
+    count,
+  }));
+}
+
+/**
+ * Count the vehicles of one make currently on the lot per model
+ */
+export async function getModelCounts(
+  make: string,
+  scope: InventoryScope = {},
+): Promise<ModelCount[]> {
+  const db = await getDb();
+  const [result, locationKeys] = await Promise.all([
+    db.execute({
+      sql: `SELECT source, location_code, model AS name, COUNT(*) AS count
+        FROM vehicle_snapshots
+        WHERE removed_at IS NULL AND make = ? AND model != ''
+        GROUP BY source, location_code, model`,
+      args: [canonicalizeMake(make) ?? make.toUpperCase()],
+    }),
+    getScopedLocationKeys(scope),
+  ]);
+
+  return sumCounts(result.rows as unknown as CountRow[], locationKeys).map(
+    ({ name, count }) => ({ model: name, count }),
+  );
+}
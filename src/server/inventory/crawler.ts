@@ -0,0 +1,317 @@
+import pLimit from "p-limit";
+import { CRAWLER_CONFIG } from "~/lib/constants";
+import type {
+  CrawlLocationStatus,
+  CrawlRun,
+  InventoryFetchResult,
+  Location,
+} from "~/lib/types";
+import { getDb } from "~/server/db";
+import { getInventorySource, listAllLocations } from "./index";
+import { matchesInventoryQuery } from "./query";
+import { getCurrentInventory, recordInventorySnapshot } from "./snapshots";
+
+// Raw rows as returned by the crawler queries below
+interface CrawlScheduleRow {
+  source: string;
+  location_code: string;
+  interval_minutes: number;
+  next_crawl_at: string;
+  last_crawled_at: string | null;
+  last_complete_at: string | null;
+  last_error: string | null;
+  vehicle_count: number;
+}
+
+interface CrawlRunRow {
+  id: number;
+  started_at: string;
+  finished_at: string;
+  locations_due: number;
+  locations_crawled: number;
+  locations_failed: number;
+  vehicles_seen: number;
+}
+
+function toCrawlLocationStatus(row: CrawlScheduleRow): CrawlLocationStatus {
+  return {
+    source: row.source,
+    locationCode: row.location_code,
+    intervalMinutes: row.interval_minutes,
+    nextCrawlAt: row.next_crawl_at,
+    lastCrawledAt: row.last_crawled_at,
+    lastCompleteAt: row.last_complete_at,
+    lastError: row.last_error,
+    vehicleCount: row.vehicle_count,
+  };
+}
+
+function toCrawlRun(row: CrawlRunRow): CrawlRun {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    locationsDue: row.locations_due,
+    locationsCrawled: row.locations_crawled,
+    locationsFailed: row.locations_failed,
+    vehiclesSeen: row.vehicles_seen,
+  };
+}
+
+function getScheduleKey(source: string, locationCode: string): string {
+  return `${source}:${locationCode}`;
+}
+
+/**
+ * Pick the next crawl time, spread by a random jitter so locations that
+ * were crawled together drift apart over time
+ */
+function getNextCrawlAt(from: number, intervalMinutes: number): string {
+  const jitterMinutes = (Math.random() * 2 - 1) * CRAWLER_CONFIG.JITTER_MINUTES;
+  return new Date(
+    from + (intervalMinutes + jitterMinutes) * 60 * 1000,
+  ).toISOString();
+}
+
+async function getScheduleRow(
+  location: Location,
+): Promise<CrawlScheduleRow | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `SELECT * FROM crawl_schedule
+      WHERE source = ? AND location_code = ?`,
+    args: [location.source, location.locationCode],
+  });
+  return (result.rows as unknown as CrawlScheduleRow[])[0] ?? null;
+}
+
+/**
+ * Crawl one location's full inventory into the snapshot store and
+ * schedule its next crawl
+ *
+ * A crawl cut short by the run's deadline stays due, so the next run
+ * crawls it again before anything else.
+ */
+async function crawlLocation(
+  location: Location,
+  intervalMinutes: number,
+  deadline: number,
+): Promise<{ vehicles: number; error: string | null }> {
+  let inventory: InventoryFetchResult | null = null;
+  let error: string | null = null;
+
+  try {
+    inventory = await getInventorySource(location.source).searchInventory(
+      location,
+      "",
+      { maxPages: CRAWLER_CONFIG.MAX_PAGES, fresh: true, deadline },
+    );
+
+    if (inventory.pagesFetched === 0) {
+      error = "No inventory pages could be fetched";
+    } else {
+      await recordInventorySnapshot(location, inventory.vehicles, {
+        complete: !inventory.truncated,
+      });
+    }
+  } catch (crawlError) {
+    error = crawlError instanceof Error ? crawlError.message : "Crawl failed";
+    console.error(`Error crawling ${location.locationCode}:`, crawlError);
+  }
+
+  const now = Date.now();
+  const complete = !error && inventory !== null && !inventory.truncated;
+  const outOfTime = inventory?.truncated === true && now >= deadline;
+  const vehicles = error ? 0 : (inventory?.vehicles.length ?? 0);
+
+  const db = await getDb();
+  await db.execute({
+    sql: `INSERT INTO crawl_schedule
+      (source, location_code, interval_minutes, next_crawl_at, last_crawled_at,
+        last_complete_at, last_error, vehicle_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (source, location_code) DO UPDATE SET
+        next_crawl_at = excluded.next_crawl_at,
+        last_crawled_at = excluded.last_crawled_at,
+        last_complete_at = COALESCE(excluded.last_complete_at, crawl_schedule.last_complete_at),
+        last_error = excluded.last_error,
+        vehicle_count = CASE WHEN excluded.last_error IS NULL
+          THEN excluded.vehicle_count ELSE crawl_schedule.vehicle_count END`,
+    args: [
+      location.source,
+      location.locationCode,
+      intervalMinutes,
+      outOfTime
+        ? new Date(now).toISOString()
+        : getNextCrawlAt(now, intervalMinutes),
+      new Date(now).toISOString(),
+      complete ? new Date(now).toISOString() : null,
+      error,
+      vehicles,
+    ],
+  });
+
+  return { vehicles, error };
+}
+
+/**
+ * Crawl the locations that are due, oldest first
+ *
+ * Locations that have never been crawled are due straight away. Each run
+ * starts at most `MAX_LOCATIONS_PER_RUN` locations and stops paging once
+ * `RUN_TIME_LIMIT` has passed, so it finishes inside the cron route's time
+ * limit; locations it didn't get to, or didn't finish, are picked up by
+ * the next run.
+ */
+export async function runCrawl(): Promise<CrawlRun> {
+  const startedAt = new Date().toISOString();
+  const deadline = Date.parse(startedAt) + CRAWLER_CONFIG.RUN_TIME_LIMIT;
+
+  const db = await getDb();
+  const [locations, schedule] = await Promise.all([
+    listAllLocations(),
+    db.execute("SELECT * FROM crawl_schedule"),
+  ]);
+  const scheduleRows = new Map(
+    (schedule.rows as unknown as CrawlScheduleRow[]).map((row) => [
+      getScheduleKey(row.source, row.location_code),
+      row,
+    ]),
+  );
+
+  const due = locations
+    .map((location) => ({
+      location,
+      row: scheduleRows.get(
+        getScheduleKey(location.source, location.locationCode),
+      ),
+    }))
+    .filter(({ row }) => !row || row.next_crawl_at <= startedAt)
+    .sort((a, b) =>
+      (a.row?.next_crawl_at ?? "").localeCompare(b.row?.next_crawl_at ?? ""),
+    );
+
+  const limit = pLimit(CRAWLER_CONFIG.MAX_CONCURRENT_LOCATIONS);
+  const results = await Promise.all(
+    due
+      .slice(0, CRAWLER_CONFIG.MAX_LOCATIONS_PER_RUN)
+      .map(({ location, row }) =>
+        limit(() =>
+          // Locations still queued at the deadline wait for the next run
+          Date.now() < deadline
+            ? crawlLocation(
+                location,
+                row?.interval_minutes ??
+                  CRAWLER_CONFIG.DEFAULT_INTERVAL_MINUTES,
+                deadline,
+              )
+            : null,
+        ),
+      ),
+  ).then((crawled) => crawled.filter((result) => result !== null));
+
+  const run = await db.execute({
+    sql: `INSERT INTO crawl_runs
+      (started_at, finished_at, locations_due, locations_crawled,
+        locations_failed, vehicles_seen)
+      VALUES (?, ?, ?, ?, ?, ?) RETURNING *`,
+    args: [
+      startedAt,
+      new Date().toISOString(),
+      due.length,
+      results.filter((result) => !result.error).length,
+      results.filter((result) => result.error).length,
+      results.reduce((total, result) => total + result.vehicles, 0),
+    ],
+  });
+
+  return toCrawlRun((run.rows as unknown as CrawlRunRow[])[0]!);
+}
+
+/**
+ * Serve a search from crawled data when the location's last complete
+ * crawl is recent enough, or return null to fall back to a live search
+ */
+export async function getWarmInventory(
+  location: Location,
+  query: string,
+): Promise<InventoryFetchResult | null> {
+  const row = await getScheduleRow(location);
+  if (!row?.last_complete_at) return null;
+
+  const maxAge =
+    row.interval_minutes * CRAWLER_CONFIG.WARM_DATA_MAX_INTERVALS * 60 * 1000;
+  if (Date.now() - Date.parse(row.last_complete_at) > maxAge) return null;
+
+  const vehicles = await getCurrentInventory(location);
+  return {
+    vehicles: vehicles.filter((vehicle) =>
+      matchesInventoryQuery(vehicle, query),
+    ),
+    pagesFetched: 0,
+    truncated: false,
+    warm: true,
+  };
+}
+
+/**
+ * Get the crawl state of every location that has been scheduled
+ */
+export async function listCrawlStatus(): Promise<CrawlLocationStatus[]> {
+  const db = await getDb();
+  const result = await db.execute(
+    "SELECT * FROM crawl_schedule ORDER BY next_crawl_at",
+  );
+  return (result.rows as unknown as CrawlScheduleRow[]).map(
+    toCrawlLocationStatus,
+  );
+}
+
+/**
+ * List crawler runs, newest first
+ */
+export async function listCrawlRuns(limit: number): Promise<CrawlRun[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM crawl_runs ORDER BY id DESC LIMIT ?",
+    args: [limit],
+  });
+  return (result.rows as unknown as CrawlRunRow[]).map(toCrawlRun);
+}
+
+/**
+ * Change how often a location is crawled
+ *
+ * The next crawl is rescheduled from the last one, so shortening the
+ * interval of a stale location makes it due straight away.
+ */
+export async function setCrawlInterval(
+  location: Location,
+  intervalMinutes: number,
+): Promise<CrawlLocationStatus> {
+  const existing = await getScheduleRow(location);
+  const from = existing?.last_crawled_at
+    ? Date.parse(existing.last_crawled_at)
+    : Date.now() - intervalMinutes * 60 * 1000;
+
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `INSERT INTO crawl_schedule
+      (source, location_code, interval_minutes, next_crawl_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (source, location_code) DO UPDATE SET
+        interval_minutes = excluded.interval_minutes,
+        next_crawl_at = excluded.next_crawl_at
+      RETURNING *`,
+    args: [
+      location.source,
+      location.locationCode,
+      intervalMinutes,
+      getNextCrawlAt(from, intervalMinutes),
+    ],
+  });
+
+  return toCrawlLocationStatus(
+    (result.rows as unknown as CrawlScheduleRow[])[0]!,
+  );
+}
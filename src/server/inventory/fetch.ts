@@ -0,0 +1,51 @@
+import { retryWithBackoff } from "~/server/retry";
+
+/**
+ * Utility function to add delay between requests
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetch with retry and exponential backoff
+ * Uses Next.js Data Cache for optimal caching and request deduplication,
+ * unless the caller passes its own `cache` mode
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+): Promise<Response> {
+  // Merge with Next.js Data Cache options
+  const cacheOptions: RequestInit = options.cache
+    ? options
+    : {
+        ...options,
+        cache: "force-cache", // Use Next.js Data Cache
+        next: { revalidate: 300 }, // Revalidate every 5 minutes
+      };
+
+  return retryWithBackoff(
+    async () => {
+      const response = await fetch(url, cacheOptions);
+
+      // If successful, return the response
+      if (response.ok) {
+        return response;
+      }
+
+      // If client error (4xx), don't retry
+      if (response.status >= 400 && response.status < 500) {
+        throw new Error(
+          `Client error: ${response.status} - ${response.statusText}`,
+        );
+      }
+
+      // Server error (5xx) - retry with backoff
+      throw new Error(
+        `Server error: ${response.status} - ${response.statusText}`,
+      );
+    },
+    { label: "Request" },
+  );
+}
@@ -0,0 +1,181 @@
+import { revalidateTag, unstable_cache } from "next/cache";
+import { env } from "~/env";
+import type {
+  InventoryFetchResult,
+  Location,
+  LocationScope,
+} from "~/lib/types";
+import { calculateDistance } from "~/lib/utils";
+import { recordInventorySnapshot } from "./snapshots";
+import { fakeSource } from "./sources/fake";
+import { lkqSource } from "./sources/lkq";
+import type { InventorySearchOptions, InventorySource } from "./types";
+
+export {
+  findStoredVehicle,
+  getCurrentInventory,
+  getSeenTimes,
+  getVehicleHistory,
+} from "./snapshots";
+export type { StoredVehicle, VehicleLookup } from "./snapshots";
+export type {
+  InventorySearchOptions,
+  InventorySource,
+  VehicleUrls,
+} from "./types";
+
+// Every adapter that can be enabled through INVENTORY_SOURCES
+const AVAILABLE_SOURCES: Record<string, InventorySource> = {
+  [lkqSource.id]: lkqSource,
+  [fakeSource.id]: fakeSource,
+};
+
+/**
+ * Get the inventory sources enabled for this deployment
+ */
+export function getInventorySources(): InventorySource[] {
+  return env.INVENTORY_SOURCES.split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => {
+      const source = AVAILABLE_SOURCES[id];
+      if (!source) {
+        console.warn(`Unknown inventory source "${id}" ignored`);
+      }
+      return source;
+    })
+    .filter((source): source is InventorySource => source !== undefined);
+}
+
+/**
+ * Look up the source that owns a location
+ */
+export function getInventorySource(id: string): InventorySource {
+  const source = AVAILABLE_SOURCES[id];
+  if (!source) {
+    throw new Error(`Unknown inventory source "${id}"`);
+  }
+  return source;
+}
+
+/**
+ * List the locations of every enabled source
+ * A failing source is logged and skipped so the others still show up
+ */
+export async function listAllLocations(): Promise<Location[]> {
+  const results = await Promise.all(
+    getInventorySources().map(async (source) => {
+      try {
+        return await source.listLocations();
+      } catch (error) {
+        console.error(`Error listing locations for ${source.id}:`, error);
+        return [];
+      }
+    }),
+  );
+
+  return results.flat();
+}
+
+/**
+ * Check whether a location falls inside a location scope
+ * Every part of the scope that is set has to match
+ */
+export function isInLocationScope(
+  location: Location,
+  scope: LocationScope,
+): boolean {
+  if (
+    scope.states?.length &&
+    !scope.states.includes(location.state) &&
+    !scope.states.includes(location.stateAbbr)
+  ) {
+    return false;
+  }
+
+  if (
+    scope.locationCodes?.length &&
+    !scope.locationCodes.includes(location.locationCode)
+  ) {
+    return false;
+  }
+
+  if (
+    scope.near &&
+    calculateDistance(
+      scope.near.lat,
+      scope.near.lng,
+      location.lat,
+      location.lng,
+    ) > scope.near.radius
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Search a location's inventory through the source that owns it
+ *
+ * Every fetch is also recorded in the snapshot store, so the history is
+ * built from requests we were making anyway.
+ */
+async function searchAndRecordInventory(
+  location: Location,
+  searchQuery: string,
+  options?: InventorySearchOptions,
+): Promise<InventoryFetchResult> {
+  const inventory = await getInventorySource(location.source).searchInventory(
+    location,
+    searchQuery,
+    options,
+  );
+
+  try {
+    await recordInventorySnapshot(location, inventory.vehicles, {
+      // Only an unfiltered fetch of every page proves a vehicle is gone
+      complete:
+        searchQuery.trim() === "" &&
+        inventory.pagesFetched > 0 &&
+        !inventory.truncated,
+    });
+  } catch (error) {
+    console.error(
+      `Error recording inventory snapshot for ${location.locationCode}:`,
+      error,
+    );
+  }
+
+  return inventory;
+}
+
+/**
+ * Search a location's inventory, cached using Next.js cache
+ */
+export const fetchVehicleInventory = unstable_cache(
+  async (location: Location, searchQuery: string) =>
+    searchAndRecordInventory(location, searchQuery),
+  ["vehicle-inventory-pages"],
+  {
+    revalidate: 300, // Cache for 5 minutes
+    tags: ["vehicles"],
+  },
+);
+
+/**
+ * Search a location's inventory live, bypassing every cache
+ */
+export async function fetchLiveInventory(
+  location: Location,
+  searchQuery: string,
+): Promise<InventoryFetchResult> {
+  return searchAndRecordInventory(location, searchQuery, { fresh: true });
+}
+
+/**
+ * Helper function to clear vehicle cache when needed
+ */
+export function clearVehicleCache(): void {
+  revalidateTag("vehicles");
+}
@@ -0,0 +1,71 @@
+import { isCanonicalMake, splitMakeAndModel } from "~/lib/makes";
+import type { ParsedVehicleData, UnknownMake } from "~/lib/types";
+import { getDb } from "~/server/db";
+
+// Raw rows as returned by the unknown make queries below
+interface UnknownMakeRow {
+  make: string;
+  example: string;
+  sightings: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * Add the makes the make dictionary didn't recognise to the unknown make
+ * report, so the dictionary can be extended
+ */
+export async function recordUnknownMakes(
+  vehicles: ParsedVehicleData[],
+): Promise<void> {
+  const unknown = new Map<string, { example: string; sightings: number }>();
+  vehicles
+    .filter((vehicle) => !isCanonicalMake(vehicle.make))
+    .forEach((vehicle) => {
+      const entry = unknown.get(vehicle.make);
+      unknown.set(vehicle.make, {
+        example: `${vehicle.make} ${vehicle.model}`.trim(),
+        sightings: (entry?.sightings ?? 0) + 1,
+      });
+    });
+
+  if (unknown.size === 0) return;
+
+  const db = await getDb();
+  const now = new Date().toISOString();
+  await db.batch(
+    [...unknown].map(([make, { example, sightings }]) => ({
+      sql: `INSERT INTO unknown_makes
+        (make, example, sightings, first_seen_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (make) DO UPDATE SET
+          example = excluded.example,
+          sightings = unknown_makes.sightings + excluded.sightings,
+          last_seen_at = excluded.last_seen_at`,
+      args: [make, example, sightings, now, now],
+    })),
+    "write",
+  );
+}
+
+/**
+ * List unrecognised makes, most often seen first
+ *
+ * Makes that have since been added to the dictionary are left out, so the
+ * report only shows what still needs an entry.
+ */
+export async function listUnknownMakes(): Promise<UnknownMake[]> {
+  const db = await getDb();
+  const result = await db.execute(
+    "SELECT * FROM unknown_makes ORDER BY sightings DESC",
+  );
+  return (result.rows as unknown as UnknownMakeRow[])
+    .filter((row) => !splitMakeAndModel(row.example).known)
+    .map((row) => ({
+      make: row.make,
+      example: row.example,
+      sightings: row.sightings,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+    }));
+}
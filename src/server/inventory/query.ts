@@ -0,0 +1,18 @@
+import type { ParsedVehicleData } from "~/lib/types";
+
+/**
+ * Match a search query the same loose way the upstream yards do: every
+ * word in the query has to appear somewhere in the year/make/model line
+ */
+export function matchesInventoryQuery(
+  vehicle: ParsedVehicleData,
+  query: string,
+): boolean {
+  const haystack =
+    `${vehicle.year} ${vehicle.make} ${vehicle.model}`.toUpperCase();
+  return query
+    .toUpperCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
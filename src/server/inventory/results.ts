@@ -0,0 +1,346 @@
+import { z } from "zod";
+import { SORT_OPTIONS } from "~/lib/constants";
+import { canonicalizeMake } from "~/lib/makes";
+import { getSyncedFilters, parseSearchQuery } from "~/lib/search-query";
+import type {
+  FacetBucket,
+  ParsedVehicleData,
+  SearchFacets,
+  SearchFilters,
+  SearchSort,
+  Vehicle,
+  YearBin,
+} from "~/lib/types";
+import { getEngineLabel } from "~/lib/vin";
+
+// Position in a sorted result list that the next page starts after
+const searchCursorSchema = z.object({
+  sort: z.enum(SORT_OPTIONS),
+  key: z.number(),
+  id: z.string(),
+  page: z.number().int().positive(),
+});
+
+export type SearchCursor = z.infer<typeof searchCursorSchema>;
+
+// One page of a sorted result list
+export interface VehiclePage {
+  vehicles: Vehicle[];
+  page: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * Value a vehicle is ordered by, smallest first, so descending sorts use
+ * the negated value
+ */
+function getSortKey(vehicle: Vehicle, sort: SearchSort): number {
+  switch (sort) {
+    case "newest":
+      return -(new Date(vehicle.availableDate).getTime() || 0);
+    case "oldest":
+      return new Date(vehicle.availableDate).getTime() || 0;
+    case "year-desc":
+      return -vehicle.year;
+    case "year-asc":
+      return vehicle.year;
+    case "distance":
+      return vehicle.location.distance;
+  }
+}
+
+// Breaks ties between vehicles with the same sort key
+function getTieBreaker(vehicle: Vehicle): string {
+  return `${vehicle.source}:${vehicle.location.locationCode}:${vehicle.id}`;
+}
+
+function compareEntries(
+  a: { key: number; id: string },
+  b: { key: number; id: string },
+): number {
+  return a.key - b.key || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * Sort vehicles into a stable order, so a cursor taken from one request
+ * picks up in the same place on the next
+ */
+export function sortVehicles(vehicles: Vehicle[], sort: SearchSort): Vehicle[] {
+  return vehicles
+    .map((vehicle) => ({
+      vehicle,
+      key: getSortKey(vehicle, sort),
+      id: getTieBreaker(vehicle),
+    }))
+    .sort(compareEntries)
+    .map(({ vehicle }) => vehicle);
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Read a cursor handed out with a previous page
+ * Returns null when it's malformed or was taken with a different sort
+ */
+export function decodeCursor(
+  cursor: string,
+  sort: SearchSort,
+): SearchCursor | null {
+  try {
+    const decoded = searchCursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString()),
+    );
+    return decoded.success && decoded.data.sort === sort ? decoded.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take one page from vehicles already in `sortVehicles` order
+ *
+ * The cursor holds the sort key of the last vehicle handed out rather than
+ * an offset, so vehicles arriving or leaving between requests don't shift
+ * the next page or repeat what was already shown.
+ */
+export function paginateVehicles(
+  sortedVehicles: Vehicle[],
+  sort: SearchSort,
+  cursor: SearchCursor | null,
+  limit: number,
+): VehiclePage {
+  const start = cursor
+    ? sortedVehicles.findIndex(
+        (vehicle) =>
+          compareEntries(
+            { key: getSortKey(vehicle, sort), id: getTieBreaker(vehicle) },
+            cursor,
+          ) > 0,
+      )
+    : 0;
+  const vehicles =
+    start === -1 ? [] : sortedVehicles.slice(start, start + limit);
+  const page = (cursor?.page ?? 0) + 1;
+  const hasMore = start !== -1 && start + limit < sortedVehicles.length;
+  const last = vehicles[vehicles.length - 1];
+
+  return {
+    vehicles,
+    page,
+    hasMore,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({
+            sort,
+            key: getSortKey(last, sort),
+            id: getTieBreaker(last),
+            page,
+          })
+        : null,
+  };
+}
+
+// Filters a vehicle has to pass, keyed by the search filter they check
+type FilterName = Exclude<
+  keyof SearchFilters,
+  "query" | "userLocation" | "sortBy" | "sortOrder"
+>;
+
+const FILTER_CHECKS: Record<
+  FilterName,
+  (vehicle: Vehicle, filters: SearchFilters) => boolean
+> = {
+  // Makes are compared in their canonical spelling
+  makes: (vehicle, { makes }) =>
+    !makes?.length ||
+    makes.map(canonicalizeMake).includes(canonicalizeMake(vehicle.make) ?? ""),
+  models: (vehicle, { models }) =>
+    !models?.length || models.includes(vehicle.model),
+  colors: (vehicle, { colors }) =>
+    !colors?.length || colors.includes(vehicle.color),
+  // Only vehicles whose VIN decoded to an engine can match
+  engines: (vehicle, { engines }) =>
+    !engines?.length || engines.includes(getEngineLabel(vehicle.decoded) ?? ""),
+  // States match by name or abbreviation
+  states: (vehicle, { states }) =>
+    !states?.length ||
+    states.includes(vehicle.location.state) ||
+    states.includes(vehicle.location.stateAbbr),
+  salvageYards: (vehicle, { salvageYards }) =>
+    !salvageYards?.length || salvageYards.includes(vehicle.location.name),
+  yearRange: (vehicle, { yearRange }) =>
+    !yearRange ||
+    (vehicle.year >= yearRange[0] && vehicle.year <= yearRange[1]),
+  dateRange: (vehicle, { dateRange }) =>
+    !dateRange ||
+    (new Date(vehicle.availableDate) >= dateRange[0] &&
+      new Date(vehicle.availableDate) <= dateRange[1]),
+  maxDistance: (vehicle, { maxDistance, userLocation }) =>
+    !maxDistance || !userLocation || vehicle.location.distance <= maxDistance,
+};
+
+/**
+ * Fill in the make, color, state and year filters from the query's own
+ * clauses wherever the caller didn't pass that filter itself
+ *
+ * `searchLocation` leaves those clauses to the caller. The search page
+ * always sends them as filters too, kept in sync with the sidebar, but a
+ * caller that only sends a query still gets them applied.
+ */
+export function withQueryFilters<T extends SearchFilters>(filters: T): T {
+  const fromQuery = getSyncedFilters(parseSearchQuery(filters.query));
+  const hasYears = fromQuery.minYear !== null || fromQuery.maxYear !== null;
+
+  return {
+    ...filters,
+    makes: filters.makes?.length ? filters.makes : fromQuery.makes,
+    colors: filters.colors?.length ? filters.colors : fromQuery.colors,
+    states: filters.states?.length ? filters.states : fromQuery.states,
+    yearRange:
+      filters.yearRange ??
+      (hasYears
+        ? [fromQuery.minYear ?? 0, fromQuery.maxYear ?? Infinity]
+        : undefined),
+  };
+}
+
+/**
+ * Keep the vehicles that pass every filter, except the one named in
+ * `except` when counting that filter's own facet
+ */
+export function filterVehicles(
+  vehicles: Vehicle[],
+  filters: SearchFilters,
+  except?: FilterName,
+): Vehicle[] {
+  const checks = Object.entries(FILTER_CHECKS)
+    .filter(([name]) => name !== except)
+    .map(([, check]) => check);
+
+  return vehicles.filter((vehicle) =>
+    checks.every((check) => check(vehicle, filters)),
+  );
+}
+
+// The value each facet counts, null when a vehicle has none
+const FACET_VALUES: Record<
+  Exclude<keyof SearchFacets, "years">,
+  (vehicle: Vehicle) => string | null
+> = {
+  makes: (vehicle) => canonicalizeMake(vehicle.make),
+  models: (vehicle) => vehicle.model || null,
+  colors: (vehicle) => vehicle.color || null,
+  engines: (vehicle) => getEngineLabel(vehicle.decoded),
+  states: (vehicle) => vehicle.location.state,
+  salvageYards: (vehicle) => vehicle.location.name,
+};
+
+/**
+ * Count how many of `filteredVehicles` have each value that any of
+ * `allVehicles` has, in alphabetical order
+ */
+function countValues(
+  allVehicles: Vehicle[],
+  filteredVehicles: Vehicle[],
+  getValue: (vehicle: Vehicle) => string | null,
+): FacetBucket[] {
+  const counts = new Map<string, number>();
+  allVehicles.forEach((vehicle) => {
+    const value = getValue(vehicle);
+    if (value !== null) counts.set(value, 0);
+  });
+  filteredVehicles.forEach((vehicle) => {
+    const value = getValue(vehicle);
+    if (value !== null) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+}
+
+/**
+ * Count the vehicles per model year, with a bin for every year between
+ * the oldest and newest of `allVehicles`
+ */
+function countYears(
+  allVehicles: Vehicle[],
+  filteredVehicles: Vehicle[],
+): YearBin[] {
+  if (allVehicles.length === 0) return [];
+
+  const years = allVehicles.map((vehicle) => vehicle.year);
+  const minYear = Math.min(...years);
+  const bins = Array.from(
+    { length: Math.max(...years) - minYear + 1 },
+    (_, index): YearBin => ({ year: minYear + index, count: 0 }),
+  );
+  filteredVehicles.forEach((vehicle) => {
+    const bin = bins[vehicle.year - minYear];
+    if (bin) bin.count++;
+  });
+
+  return bins;
+}
+
+/**
+ * Count the results for every value of every filter
+ *
+ * Each facet is counted with all the other filters applied but not its
+ * own, so ticking one make still shows how many of each other make there
+ * are. Values that any match of the query has are always listed, with a
+ * count of zero when the other filters rule them out.
+ */
+export function getFacets(
+  vehicles: Vehicle[],
+  filters: SearchFilters,
+): SearchFacets {
+  const countFacet = (name: keyof typeof FACET_VALUES) =>
+    countValues(
+      vehicles,
+      filterVehicles(vehicles, filters, name),
+      FACET_VALUES[name],
+    );
+
+  return {
+    makes: countFacet("makes"),
+    models: countFacet("models"),
+    colors: countFacet("colors"),
+    engines: countFacet("engines"),
+    states: countFacet("states"),
+    salvageYards: countFacet("salvageYards"),
+    years: countYears(vehicles, filterVehicles(vehicles, filters, "yearRange")),
+  };
+}
+
+/**
+ * Pick the vehicles most like `vehicle` out of `candidates`: the same
+ * model first, then others of the same make, each closest in year
+ * Vehicles of other makes aren't considered similar at all.
+ */
+export function findSimilarVehicles<T extends ParsedVehicleData>(
+  vehicle: Pick<Vehicle, "id" | "make" | "model" | "year">,
+  candidates: T[],
+  limit: number,
+): T[] {
+  const make = canonicalizeMake(vehicle.make);
+  if (!make) return [];
+
+  return candidates
+    .filter(
+      (candidate) =>
+        candidate.id !== vehicle.id &&
+        canonicalizeMake(candidate.make) === make,
+    )
+    .map((candidate) => ({
+      candidate,
+      otherModel: candidate.model === vehicle.model ? 0 : 1,
+      yearGap: Math.abs(candidate.year - vehicle.year),
+    }))
+    .sort((a, b) => a.otherModel - b.otherModel || a.yearGap - b.yearGap)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
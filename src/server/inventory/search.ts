@@ -0,0 +1,196 @@
+import pLimit from "p-limit";
+import { expandUpstreamQueries } from "~/lib/aliases";
+import { SEARCH_CONFIG } from "~/lib/constants";
+import {
+  matchesSearchQuery,
+  parseSearchQuery,
+  withoutSyncedClauses,
+} from "~/lib/search-query";
+import type { InventoryFetchResult, Location, Vehicle } from "~/lib/types";
+import { calculateDistance } from "~/lib/utils";
+import { decodeVin } from "~/lib/vin";
+import { getWarmInventory } from "./crawler";
+import {
+  fetchLiveInventory,
+  fetchVehicleInventory,
+  listAllLocations,
+} from "./index";
+import { getSeenTimes } from "./snapshots";
+
+// Geographic center of the US, used when the user's location is unknown
+export const DEFAULT_USER_LOCATION: [number, number] = [39.8283, -98.5795];
+
+// Outcome of searching a single location
+export interface LocationSearchResult {
+  location: Location;
+  vehicles: Vehicle[];
+  pagesFetched: number;
+  truncated: boolean;
+  error: boolean;
+}
+
+// How a search treats crawled data
+export interface SearchOptions {
+  /** Skip crawled data and caches and ask the yard directly */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Get a location's inventory from the crawler's warm data when it's fresh
+ * enough, otherwise from the yard
+ */
+async function getInventory(
+  location: Location,
+  query: string,
+  { forceRefresh = false }: SearchOptions,
+): Promise<InventoryFetchResult> {
+  if (forceRefresh) {
+    return fetchLiveInventory(location, query);
+  }
+
+  const warmInventory = await getWarmInventory(location, query).catch(
+    (error: unknown) => {
+      console.error(
+        `Error reading crawled inventory for ${location.locationCode}:`,
+        error,
+      );
+      return null;
+    },
+  );
+
+  return warmInventory ?? fetchVehicleInventory(location, query);
+}
+
+/**
+ * Merge the results of several searches of one location, dropping
+ * vehicles that more than one of them found
+ */
+function mergeInventories(
+  inventories: InventoryFetchResult[],
+): InventoryFetchResult {
+  const vehicles = new Map(
+    inventories
+      .flatMap((inventory) => inventory.vehicles)
+      .map((vehicle) => [vehicle.id, vehicle]),
+  );
+
+  return {
+    vehicles: [...vehicles.values()],
+    pagesFetched: inventories.reduce(
+      (total, inventory) => total + inventory.pagesFetched,
+      0,
+    ),
+    truncated: inventories.some((inventory) => inventory.truncated),
+  };
+}
+
+/**
+ * Search a single location and attach location details to every vehicle
+ *
+ * The query is in the search box's query language: the part the yards
+ * understand is sent upstream, once per alternative and alias spelling,
+ * and the rest is applied to what comes back, except the make, color,
+ * state and year clauses, which the caller applies along with its other
+ * filters (see `withQueryFilters`).
+ */
+export async function searchLocation(
+  location: Location,
+  query: string,
+  userLocation: [number, number],
+  options: SearchOptions = {},
+): Promise<LocationSearchResult> {
+  try {
+    const parsedQuery = parseSearchQuery(query);
+    const localQuery = withoutSyncedClauses(parsedQuery);
+
+    // Search every alternative and alias spelling one after the other, to
+    // go easy on the yard
+    const inventories: InventoryFetchResult[] = [];
+    for (const upstreamQuery of expandUpstreamQueries(
+      parsedQuery.upstreamQueries,
+    )) {
+      inventories.push(await getInventory(location, upstreamQuery, options));
+    }
+    // A live fetch that got no page at all failed, even if its source
+    // didn't say so; crawled data is an answer of its own
+    if (
+      inventories.some(
+        (inventory) => inventory.pagesFetched === 0 && !inventory.warm,
+      )
+    ) {
+      throw new Error("No inventory pages could be fetched");
+    }
+    const inventory = mergeInventories(inventories);
+
+    // Always calculate distance from user's location
+    const distance = calculateDistance(
+      userLocation[0],
+      userLocation[1],
+      location.lat,
+      location.lng,
+    );
+
+    const seenTimes = await getSeenTimes(location, inventory.vehicles).catch(
+      (error: unknown) => {
+        console.error(
+          `Error reading inventory snapshots for ${location.locationCode}:`,
+          error,
+        );
+        return new Map<string, { firstSeenAt: string; lastSeenAt: string }>();
+      },
+    );
+
+    const vehicles = inventory.vehicles
+      .map(
+        (vehicle): Vehicle => ({
+          ...vehicle,
+          ...seenTimes.get(vehicle.stockNumber || vehicle.id),
+          decoded: decodeVin(vehicle.vin, vehicle.year) ?? undefined,
+          source: location.source,
+          location: {
+            ...location,
+            distance,
+          },
+        }),
+      )
+      .filter((vehicle) => matchesSearchQuery(vehicle, localQuery));
+
+    return {
+      location,
+      vehicles,
+      pagesFetched: inventory.pagesFetched,
+      truncated: inventory.truncated,
+      error: false,
+    };
+  } catch (error) {
+    console.error(
+      `Error fetching vehicles from ${location.locationCode}:`,
+      error,
+    );
+    return {
+      location,
+      vehicles: [],
+      pagesFetched: 0,
+      truncated: false,
+      error: true,
+    };
+  }
+}
+
+/**
+ * Search every location of every enabled source with a concurrency limit
+ */
+export async function searchAllLocations(
+  query: string,
+  userLocation: [number, number] = DEFAULT_USER_LOCATION,
+  options: SearchOptions = {},
+): Promise<LocationSearchResult[]> {
+  const locations = await listAllLocations();
+  const limit = pLimit(SEARCH_CONFIG.MAX_CONCURRENT_REQUESTS);
+
+  return Promise.all(
+    locations.map((location) =>
+      limit(() => searchLocation(location, query, userLocation, options)),
+    ),
+  );
+}
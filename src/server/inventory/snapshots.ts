@@ -0,0 +1,322 @@
+import type { InValue } from "@libsql/client";
+import type {
+  Location,
+  ParsedVehicleData,
+  VehicleFieldChange,
+  VehicleHistory,
+} from "~/lib/types";
+import { getDb } from "~/server/db";
+import { recordUnknownMakes } from "./makes";
+
+// Raw rows as returned by the snapshot queries below
+interface SnapshotRow {
+  stock_number: string;
+  data: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  removed_at: string | null;
+}
+
+interface FieldHistoryRow {
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  changed_at: string;
+}
+
+/**
+ * Key a vehicle by stock number, falling back to the listing id for
+ * vehicles that were scraped without one
+ */
+function getSnapshotKey(vehicle: ParsedVehicleData): string {
+  return vehicle.stockNumber || vehicle.id;
+}
+
+/**
+ * Flatten the fields whose changes are recorded in the field history
+ */
+function getTrackedFields(vehicle: ParsedVehicleData): Record<string, string> {
+  return {
+    id: vehicle.id,
+    year: String(vehicle.year),
+    make: vehicle.make,
+    model: vehicle.model,
+    color: vehicle.color,
+    vin: vehicle.vin,
+    availableDate: vehicle.availableDate,
+    section: vehicle.yardLocation.section,
+    row: vehicle.yardLocation.row,
+    space: vehicle.yardLocation.space,
+    images: String(vehicle.images.length),
+  };
+}
+
+/**
+ * Record every vehicle returned by an inventory fetch
+ *
+ * New vehicles get a first-seen timestamp, known vehicles have their
+ * last-seen timestamp bumped and any changed fields appended to the field
+ * history. When `complete` is set the fetch covered the whole yard, so any
+ * vehicle that wasn't in it is marked as removed. Makes the make dictionary
+ * didn't recognise are added to the unknown make report.
+ */
+export async function recordInventorySnapshot(
+  location: Location,
+  vehicles: ParsedVehicleData[],
+  { complete }: { complete: boolean },
+): Promise<void> {
+  const db = await getDb();
+  const now = new Date().toISOString();
+
+  const existing = await db.execute({
+    sql: `SELECT stock_number, data FROM vehicle_snapshots
+      WHERE source = ? AND location_code = ?`,
+    args: [location.source, location.locationCode],
+  });
+  const previousFields = new Map(
+    (
+      existing.rows as unknown as Pick<SnapshotRow, "stock_number" | "data">[]
+    ).map((row) => [
+      row.stock_number,
+      getTrackedFields(JSON.parse(row.data) as ParsedVehicleData),
+    ]),
+  );
+
+  const statements: Array<{ sql: string; args: InValue[] }> = [];
+
+  vehicles.forEach((vehicle) => {
+    const stockNumber = getSnapshotKey(vehicle);
+    const previous = previousFields.get(stockNumber);
+
+    if (previous) {
+      const current = getTrackedFields(vehicle);
+      Object.entries(current).forEach(([field, value]) => {
+        if (previous[field] !== value) {
+          statements.push({
+            sql: `INSERT INTO vehicle_field_history
+              (source, location_code, stock_number, field, old_value, new_value, changed_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              location.source,
+              location.locationCode,
+              stockNumber,
+              field,
+              previous[field] ?? null,
+              value,
+              now,
+            ],
+          });
+        }
+      });
+    }
+
+    statements.push({
+      sql: `INSERT INTO vehicle_snapshots
+        (source, location_code, stock_number, vehicle_id, year, make, model,
+          color, vin, available_date, data, first_seen_at, last_seen_at, removed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+        ON CONFLICT (source, location_code, stock_number) DO UPDATE SET
+          vehicle_id = excluded.vehicle_id,
+          year = excluded.year,
+          make = excluded.make,
+          model = excluded.model,
+          color = excluded.color,
+          vin = excluded.vin,
+          available_date = excluded.available_date,
+          data = excluded.data,
+          last_seen_at = excluded.last_seen_at,
+          removed_at = NULL`,
+      args: [
+        location.source,
+        location.locationCode,
+        stockNumber,
+        vehicle.id,
+        vehicle.year,
+        vehicle.make,
+        vehicle.model,
+        vehicle.color,
+        vehicle.vin,
+        vehicle.availableDate,
+        JSON.stringify(vehicle),
+        now,
+        now,
+      ],
+    });
+  });
+
+  if (complete) {
+    statements.push({
+      sql: `UPDATE vehicle_snapshots SET removed_at = ?
+        WHERE source = ? AND location_code = ?
+          AND removed_at IS NULL AND last_seen_at < ?`,
+      args: [now, location.source, location.locationCode, now],
+    });
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements, "write");
+  }
+
+  await recordUnknownMakes(vehicles);
+}
+
+/**
+ * Get every vehicle currently on a location's lot according to the
+ * snapshot store
+ */
+export async function getCurrentInventory(
+  location: Location,
+): Promise<ParsedVehicleData[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `SELECT data FROM vehicle_snapshots
+      WHERE source = ? AND location_code = ? AND removed_at IS NULL`,
+    args: [location.source, location.locationCode],
+  });
+  return (result.rows as unknown as Pick<SnapshotRow, "data">[]).map(
+    (row) => JSON.parse(row.data) as ParsedVehicleData,
+  );
+}
+
+/**
+ * Look up when each vehicle was first and last seen, keyed by stock number
+ */
+export async function getSeenTimes(
+  location: Location,
+  vehicles: ParsedVehicleData[],
+): Promise<Map<string, { firstSeenAt: string; lastSeenAt: string }>> {
+  const seenTimes = new Map<
+    string,
+    { firstSeenAt: string; lastSeenAt: string }
+  >();
+  if (vehicles.length === 0) return seenTimes;
+
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `SELECT stock_number, first_seen_at, last_seen_at FROM vehicle_snapshots
+      WHERE source = ? AND location_code = ?`,
+    args: [location.source, location.locationCode],
+  });
+
+  const wanted = new Set(vehicles.map(getSnapshotKey));
+  (result.rows as unknown as SnapshotRow[]).forEach((row) => {
+    if (wanted.has(row.stock_number)) {
+      seenTimes.set(row.stock_number, {
+        firstSeenAt: row.first_seen_at,
+        lastSeenAt: row.last_seen_at,
+      });
+    }
+  });
+
+  return seenTimes;
+}
+
+/**
+ * Get the recorded history of a single vehicle
+ */
+export async function getVehicleHistory(
+  source: string,
+  locationCode: string,
+  stockNumber: string,
+): Promise<VehicleHistory | null> {
+  const db = await getDb();
+
+  const snapshot = await db.execute({
+    sql: `SELECT first_seen_at, last_seen_at, removed_at FROM vehicle_snapshots
+      WHERE source = ? AND location_code = ? AND stock_number = ?`,
+    args: [source, locationCode, stockNumber],
+  });
+  const row = (snapshot.rows as unknown as SnapshotRow[])[0];
+  if (!row) return null;
+
+  const history = await db.execute({
+    sql: `SELECT field, old_value, new_value, changed_at FROM vehicle_field_history
+      WHERE source = ? AND location_code = ? AND stock_number = ?
+      ORDER BY id`,
+    args: [source, locationCode, stockNumber],
+  });
+
+  return {
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    removedAt: row.removed_at,
+    changes: (history.rows as unknown as FieldHistoryRow[]).map(
+      (change): VehicleFieldChange => ({
+        field: change.field,
+        oldValue: change.old_value,
+        newValue: change.new_value,
+        changedAt: change.changed_at,
+      }),
+    ),
+  };
+}
+
+// Identifies one vehicle in the snapshot store; any one of the ids is enough
+export interface VehicleLookup {
+  source?: string;
+  locationCode?: string;
+  vehicleId?: string;
+  stockNumber?: string;
+  vin?: string;
+}
+
+// A vehicle as last recorded in the snapshot store
+export interface StoredVehicle {
+  source: string;
+  locationCode: string;
+  vehicle: ParsedVehicleData;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  removedAt: string | null;
+}
+
+/**
+ * Find a vehicle in the snapshot store by listing id, stock number or VIN
+ *
+ * A VIN or, without a location, a stock number can match more than one
+ * snapshot, so a vehicle still on the lot wins over removed ones, then the
+ * most recently seen. Returns null when no id is given.
+ */
+export async function findStoredVehicle(
+  lookup: VehicleLookup,
+): Promise<StoredVehicle | null> {
+  if (!lookup.vehicleId && !lookup.stockNumber && !lookup.vin) return null;
+
+  const conditions: string[] = [];
+  const args: InValue[] = [];
+  const addCondition = (sql: string, value: string | undefined) => {
+    if (value === undefined) return;
+    conditions.push(sql);
+    args.push(value);
+  };
+  addCondition("source = ?", lookup.source);
+  addCondition("location_code = ?", lookup.locationCode);
+  addCondition("vehicle_id = ?", lookup.vehicleId);
+  addCondition("stock_number = ?", lookup.stockNumber);
+  addCondition("vin = ?", lookup.vin?.toUpperCase());
+
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `SELECT source, location_code, data, first_seen_at, last_seen_at, removed_at
+      FROM vehicle_snapshots
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY removed_at IS NOT NULL, last_seen_at DESC
+      LIMIT 1`,
+    args,
+  });
+  const row = (
+    result.rows as unknown as Array<
+      SnapshotRow & { source: string; location_code: string }
+    >
+  )[0];
+  if (!row) return null;
+
+  return {
+    source: row.source,
+    locationCode: row.location_code,
+    vehicle: JSON.parse(row.data) as ParsedVehicleData,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    removedAt: row.removed_at,
+  };
+}
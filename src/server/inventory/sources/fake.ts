@@ -0,0 +1,173 @@
+import type {
+  InventoryFetchResult,
+  Location,
+  ParsedVehicleData,
+} from "~/lib/types";
+import { matchesInventoryQuery } from "../query";
+import type { InventorySource, VehicleUrls } from "../types";
+
+const FAKE_SOURCE_ID = "fake";
+const FAKE_BASE_URL = "https://yard.example.com";
+const VEHICLES_PER_LOCATION = 60;
+
+// Small catalog the fake yards draw their inventory from
+const FAKE_CATALOG: Array<{ make: string; models: string[] }> = [
+  { make: "HONDA", models: ["ACCORD", "CIVIC", "CR-V", "ODYSSEY"] },
+  { make: "TOYOTA", models: ["CAMRY", "COROLLA", "TACOMA", "SIENNA"] },
+  { make: "FORD", models: ["F-150", "FOCUS", "ESCAPE", "EXPLORER"] },
+  { make: "CHEVROLET", models: ["SILVERADO 1500", "MALIBU", "IMPALA"] },
+  { make: "NISSAN", models: ["ALTIMA", "SENTRA", "FRONTIER"] },
+];
+const FAKE_COLORS = ["BLACK", "WHITE", "SILVER", "RED", "BLUE", "GRAY"];
+
+/**
+ * Build a fake location with the same shape as a real yard
+ */
+function createFakeLocation(
+  locationCode: string,
+  city: string,
+  state: string,
+  stateAbbr: string,
+  lat: number,
+  lng: number,
+): Location {
+  const slug = `${city.toLowerCase()}-${locationCode}`;
+
+  return {
+    source: FAKE_SOURCE_ID,
+    locationCode,
+    locationPageURL: `${FAKE_BASE_URL}/locations/${slug}/`,
+    name: `Fake Yard - ${city}`,
+    displayName: city,
+    address: "1 Test Yard Rd.",
+    city,
+    state,
+    stateAbbr,
+    zip: "00000",
+    phone: "(555) 555-0100",
+    lat,
+    lng,
+    distance: 0,
+    legacyCode: locationCode,
+    primo: "",
+    urls: {
+      store: `${FAKE_BASE_URL}/locations/${slug}/`,
+      interchange: `/parts/${slug}/`,
+      inventory: `/inventory/${slug}/`,
+      prices: `/prices/${slug}/`,
+      directions: `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`,
+      sellACar: `/sellacar/${slug}/`,
+      contact: `/contact/${slug}/`,
+      customerServiceChat: null,
+      carbuyChat: null,
+      deals: `/deals/${slug}/`,
+      parts: `/parts/${slug}/`,
+    },
+  };
+}
+
+const FAKE_LOCATIONS: Location[] = [
+  createFakeLocation(
+    "F001",
+    "Springfield",
+    "Illinois",
+    "IL",
+    39.7817,
+    -89.6501,
+  ),
+  createFakeLocation(
+    "F002",
+    "Riverside",
+    "California",
+    "CA",
+    33.9533,
+    -117.3962,
+  ),
+];
+
+/**
+ * Deterministic pseudo-random generator so every run sees the same inventory
+ */
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (const char of seed) {
+    state = (state * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function generateVehicleUrls(
+  { year, make, model }: { year: number; make: string; model: string },
+  location: Location,
+): VehicleUrls {
+  const slug = `${year}-${make}-${model}`.toLowerCase().replace(/\s+/g, "-");
+
+  return {
+    detailsUrl: `${FAKE_BASE_URL}${location.urls.inventory}${slug}/`,
+    partsUrl: `${FAKE_BASE_URL}${location.urls.parts}`,
+    pricesUrl: `${FAKE_BASE_URL}${location.urls.prices}`,
+  };
+}
+
+/**
+ * Generate the full inventory of a fake location
+ */
+function generateInventory(location: Location): ParsedVehicleData[] {
+  const random = createRandom(location.locationCode);
+  const now = Date.now();
+
+  return Array.from({ length: VEHICLES_PER_LOCATION }, (_, index) => {
+    const { make, models } = pick(FAKE_CATALOG, random);
+    const model = pick(models, random);
+    const year = 1998 + Math.floor(random() * 26);
+    const stockNumber = `${location.locationCode}-${1000 + index}`;
+    const availableDate = new Date(
+      now - Math.floor(random() * 60) * 24 * 60 * 60 * 1000,
+    ).toISOString();
+
+    return {
+      id: `${location.locationCode}${index}`,
+      year,
+      make,
+      model,
+      color: pick(FAKE_COLORS, random),
+      vin: "",
+      stockNumber,
+      availableDate,
+      yardLocation: {
+        section: pick(["A", "B", "C"], random),
+        row: String(1 + Math.floor(random() * 30)),
+        space: String(1 + Math.floor(random() * 12)),
+      },
+      images: [],
+      ...generateVehicleUrls({ year, make, model }, location),
+    };
+  });
+}
+
+/**
+ * Local fake inventory source for development and test runs
+ *
+ * Serves a couple of made-up yards with generated inventory and never
+ * touches the network.
+ */
+export const fakeSource: InventorySource = {
+  id: FAKE_SOURCE_ID,
+  name: "Fake Yards",
+  listLocations: async () => FAKE_LOCATIONS,
+  searchInventory: async (location, query): Promise<InventoryFetchResult> => ({
+    vehicles: generateInventory(location).filter((vehicle) =>
+      matchesInventoryQuery(vehicle, query),
+    ),
+    pagesFetched: 1,
+    truncated: false,
+  }),
+  buildVehicleUrls: generateVehicleUrls,
+};
@@ -0,0 +1,560 @@
+import * as cheerio from "cheerio";
+import { SEARCH_CONFIG } from "~/lib/constants";
+import { splitMakeAndModel } from "~/lib/makes";
+import type {
+  InventoryFetchResult,
+  Location,
+  ParsedVehicleData,
+  VehicleImage,
+} from "~/lib/types";
+import { delay, fetchWithRetry } from "../fetch";
+import type {
+  InventorySearchOptions,
+  InventorySource,
+  VehicleUrls,
+} from "../types";
+
+const LKQ_SOURCE_ID = "lkq";
+
+// LKQ Pick Your Part endpoints
+const LKQ_ENDPOINTS = {
+  BASE: "https://www.lkqpickyourpart.com",
+  VEHICLE_INVENTORY:
+    "/DesktopModules/pyp_vehicleInventory/getVehicleInventory.aspx",
+  LOCATION_PAGE: "/inventory/",
+} as const;
+
+/**
+ * Fetches location data from LKQ website with Next.js Data Cache
+ * - Uses 'force-cache' for persistent caching across requests
+ * - Revalidates every hour to ensure fresh data
+ * - Automatic request deduplication within render passes
+ * In a real implementation, this would scrape the actual location page
+ * For now, we'll use a mock implementation
+ */
+async function fetchLocationsFromLKQ(): Promise<Location[]> {
+  try {
+    // In production, this would fetch from the actual LKQ inventory page
+    // and parse the _locationList JavaScript variable
+    const response = await fetch(
+      `${LKQ_ENDPOINTS.BASE}${LKQ_ENDPOINTS.LOCATION_PAGE}`,
+      {
+        cache: "force-cache", // Use Next.js Data Cache
+        next: { revalidate: 3600 }, // Revalidate every hour
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const html = await response.text();
+
+    // Parse the _locationList variable from the HTML
+    // Handle both spaced and non-spaced formats: "var _locationList = [" and "var _locationList=["
+    const locationListMatch = /var _locationList\s*=\s*(\[.*?\]);/s.exec(html);
+
+    if (!locationListMatch) {
+      throw new Error("Could not find _locationList in HTML");
+    }
+
+    const locationData = JSON.parse(locationListMatch[1] ?? "[]") as Array<{
+      LocationCode: string;
+      LocationPageURL: string;
+      Name: string;
+      DisplayName: string;
+      Address: string;
+      City: string;
+      State: string;
+      StateAbbr: string;
+      Zip: string;
+      Phone: string;
+      Lat: number;
+      Lng: number;
+      Distance: number;
+      LegacyCode: string;
+      Primo: string;
+      Urls: {
+        Store: string;
+        Interchange: string;
+        Inventory: string;
+        Prices: string;
+        Directions: string;
+        SellACar: string;
+        Contact: string;
+        CustomerServiceChat: string | null;
+        CarbuyChat: string | null;
+        Deals: string;
+        Parts: string;
+      };
+    }>;
+
+    // Transform to our interface format
+    const locations: Location[] = locationData.map((loc) => ({
+      source: LKQ_SOURCE_ID,
+      locationCode: loc.LocationCode,
+      locationPageURL: loc.LocationPageURL,
+      name: loc.Name,
+      displayName: loc.DisplayName,
+      address: loc.Address,
+      city: loc.City,
+      state: loc.State,
+      stateAbbr: loc.StateAbbr,
+      zip: loc.Zip,
+      phone: loc.Phone,
+      lat: loc.Lat,
+      lng: loc.Lng,
+      distance: loc.Distance,
+      legacyCode: loc.LegacyCode,
+      primo: loc.Primo,
+      urls: {
+        store: loc.Urls.Store,
+        interchange: loc.Urls.Interchange,
+        inventory: loc.Urls.Inventory,
+        prices: loc.Urls.Prices,
+        directions: loc.Urls.Directions,
+        sellACar: loc.Urls.SellACar,
+        contact: loc.Urls.Contact,
+        customerServiceChat: loc.Urls.CustomerServiceChat,
+        carbuyChat: loc.Urls.CarbuyChat,
+        deals: loc.Urls.Deals,
+        parts: loc.Urls.Parts,
+      },
+    }));
+
+    return locations;
+  } catch (error) {
+    console.error("Error fetching locations from LKQ:", error);
+
+    // Fallback to hardcoded location data for development
+    return getMockLocations();
+  }
+}
+
+/**
+ * Mock location data for development
+ */
+function getMockLocations(): Location[] {
+  return [
+    {
+      source: LKQ_SOURCE_ID,
+      locationCode: "1223",
+      locationPageURL:
+        "https://locations.lkqpickyourpart.com/en-us/al/huntsville/6942-stringfield-rd-nw/",
+      name: "LKQ Pick Your Part - Huntsville",
+      displayName: "Huntsville",
+      address: "6942 Stringfield Rd.",
+      city: "Huntsville",
+      state: "Alabama",
+      stateAbbr: "AL",
+      zip: "35806",
+      phone: "(800) 962-2277",
+      lat: 34.77887,
+      lng: -86.652217,
+      distance: 0,
+      legacyCode: "223",
+      primo: "",
+      urls: {
+        store:
+          "https://locations.lkqpickyourpart.com/en-us/al/huntsville/6942-stringfield-rd-nw/",
+        interchange: "/parts/huntsville-1223/",
+        inventory: "/inventory/huntsville-1223/",
+        prices: "/prices/huntsville-1223/",
+        directions:
+          "https://www.google.com/maps/dir/?api=1&destination=6942+Stringfield+Rd.+Huntsville+Alabama+35806&dir_action=navigate",
+        sellACar: "/sellacar/huntsville-1223/",
+        contact: "/contact/huntsville-1223/",
+        customerServiceChat: null,
+        carbuyChat: null,
+        deals: "/deals/huntsville-1223/",
+        parts: "/parts/huntsville-1223/",
+      },
+    },
+    // Add more mock locations as needed
+  ];
+}
+
+/**
+ * Fetch and parse a single page of a location's inventory
+ */
+async function fetchVehicleInventoryPage(
+  location: Location,
+  searchQuery: string,
+  page: number,
+  fresh: boolean,
+): Promise<ParsedVehicleData[]> {
+  // Use the AJAX endpoint that returns search results HTML
+  const url = new URL(
+    `${LKQ_ENDPOINTS.BASE}${LKQ_ENDPOINTS.VEHICLE_INVENTORY}`,
+  );
+  url.searchParams.set("page", String(page));
+  url.searchParams.set("filter", searchQuery);
+  url.searchParams.set("store", location.locationCode);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    SEARCH_CONFIG.REQUEST_TIMEOUT,
+  );
+
+  try {
+    // Realistic browser headers to simulate AJAX request from the inventory page
+    const response = await fetchWithRetry(url.toString(), {
+      ...(fresh && { cache: "no-store" }),
+      signal: controller.signal,
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+        Accept:
+          "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+        "Accept-Language": "en-US,en;q=0.9",
+        "Accept-Encoding": "gzip, deflate, br",
+        "X-Requested-With": "XMLHttpRequest", // Important for AJAX requests
+        Referer: `${LKQ_ENDPOINTS.BASE}${location.urls.inventory}`,
+        Origin: LKQ_ENDPOINTS.BASE,
+        DNT: "1",
+        Connection: "keep-alive",
+        "Sec-Fetch-Dest": "empty",
+        "Sec-Fetch-Mode": "cors",
+        "Sec-Fetch-Site": "same-origin",
+        "Cache-Control": "no-cache",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const html = await response.text();
+
+    return parseVehicleInventoryHTML(html, location);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch a location's inventory without caching
+ *
+ * The inventory endpoint is paginated, so pages are walked until one comes
+ * back short or without any vehicles we haven't already seen, or until the
+ * configured page cap or deadline is reached. The result is only truncated
+ * when the last page walked was a full one.
+ */
+async function searchLKQInventory(
+  location: Location,
+  searchQuery: string,
+  {
+    maxPages = SEARCH_CONFIG.MAX_PAGES_PER_LOCATION,
+    fresh = false,
+    deadline = Infinity,
+  }: InventorySearchOptions = {},
+): Promise<InventoryFetchResult> {
+  const seenIds = new Set<string>();
+  const vehicles: ParsedVehicleData[] = [];
+  let pagesFetched = 0;
+  // Rows on the first page, taken as the yard's page size
+  let pageSize = 0;
+  let hasMorePages = true;
+
+  try {
+    while (
+      hasMorePages &&
+      pagesFetched < maxPages &&
+      (pagesFetched === 0 || Date.now() < deadline)
+    ) {
+      // Be polite between consecutive pages of the same yard
+      if (pagesFetched > 0) {
+        await delay(SEARCH_CONFIG.REQUEST_DELAY);
+      }
+
+      const pageVehicles = await fetchVehicleInventoryPage(
+        location,
+        searchQuery,
+        pagesFetched + 1,
+        fresh,
+      );
+      pagesFetched++;
+
+      // An empty page, or one that only repeats earlier rows, means we've
+      // walked past the last page of results. So does a page shorter than
+      // the first, which saves asking for one more page, and means a yard
+      // that ends right at the page cap isn't reported as cut short.
+      const newVehicles = pageVehicles.filter(
+        (vehicle) => !seenIds.has(vehicle.id),
+      );
+      newVehicles.forEach((vehicle) => {
+        seenIds.add(vehicle.id);
+        vehicles.push(vehicle);
+      });
+      if (pagesFetched === 1) pageSize = pageVehicles.length;
+      hasMorePages = newVehicles.length > 0 && pageVehicles.length >= pageSize;
+    }
+
+    return {
+      vehicles,
+      pagesFetched,
+      truncated: hasMorePages,
+    };
+  } catch (error) {
+    console.error(
+      `Error fetching inventory for location ${location.locationCode} (page ${pagesFetched + 1}):`,
+      error,
+    );
+
+    // Add delay even on error to avoid hammering the server
+    await delay(SEARCH_CONFIG.REQUEST_DELAY);
+
+    // Without a single page the yard didn't answer, and an empty result
+    // would pass for an empty yard (and be cached as one)
+    if (pagesFetched === 0) throw error;
+
+    // Keep whatever pages we already have; anything past the failed page is missing
+    return {
+      vehicles,
+      pagesFetched,
+      truncated: pagesFetched > 0,
+    };
+  }
+}
+
+/**
+ * Helper function to extract text after a label
+ */
+function extractAfterLabel(text: string, label: string): string {
+  const index = text.indexOf(label);
+  if (index === -1) return "";
+  return text
+    .substring(index + label.length)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Helper function to extract first word after a label
+ */
+function extractWordAfterLabel(text: string, label: string): string {
+  const afterLabel = extractAfterLabel(text, label);
+  return afterLabel.split(" ")[0] ?? "";
+}
+
+/**
+ * Determine image type from URL
+ */
+function getImageType(url: string): VehicleImage["type"] {
+  if (url.includes("CAR-FRONT-LEFT")) return "CAR-FRONT-LEFT";
+  if (url.includes("CAR-BACK-LEFT")) return "CAR-BACK-LEFT";
+  if (url.includes("CAR-BACK-RIGHT")) return "CAR-BACK-RIGHT";
+  if (url.includes("CAR-FRONT-RIGHT")) return "CAR-FRONT-RIGHT";
+  if (url.includes("CAR-BACK")) return "CAR-BACK";
+  if (url.includes("CAR-FRONT")) return "CAR-FRONT";
+  if (url.includes("CAR-LEFT")) return "CAR-LEFT";
+  if (url.includes("CAR-RIGHT")) return "CAR-RIGHT";
+  if (url.includes("ENGINE")) return "ENGINE";
+  if (url.includes("INTERIOR")) return "INTERIOR";
+  return "OTHER";
+}
+
+/**
+ * Remove crop parameters from image URL
+ */
+function removeCropParameters(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.searchParams.delete("w");
+    urlObj.searchParams.delete("h");
+    urlObj.searchParams.delete("mode");
+    return urlObj.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Convert text to URL-friendly slug by replacing spaces with hyphens
+ */
+function createSlug(text: string): string {
+  return text.toLowerCase().split(" ").join("-");
+}
+
+/**
+ * Generate vehicle URLs
+ */
+function generateVehicleUrls(
+  { year, make, model }: { year: number; make: string; model: string },
+  location: Location,
+): VehicleUrls {
+  const modelSlug = createSlug(model);
+
+  return {
+    detailsUrl: `${LKQ_ENDPOINTS.BASE}${location.urls.inventory}${year}-${createSlug(make)}-${modelSlug}/`,
+    partsUrl: `${LKQ_ENDPOINTS.BASE}${location.urls.parts}?year=${year}&make=${make}&model=${model}`,
+    pricesUrl: `${LKQ_ENDPOINTS.BASE}${location.urls.prices}`,
+  };
+}
+
+/**
+ * Parses vehicle inventory HTML to extract vehicle data using simplified Cheerio parsing
+ */
+function parseVehicleInventoryHTML(
+  html: string,
+  location: Location,
+): ParsedVehicleData[] {
+  const vehicles: ParsedVehicleData[] = [];
+
+  try {
+    const $ = cheerio.load(html);
+    const base = new URL(LKQ_ENDPOINTS.BASE);
+
+    $(".pypvi_resultRow[id]").each((_, el) => {
+      try {
+        const id = $(el).attr("id");
+        if (!id) return;
+
+        // Main image
+        const mainImageHref =
+          $(el).find("a.fancybox-thumb.pypvi_image").attr("href") ?? "";
+        const mainImageUrl = mainImageHref
+          ? new URL(mainImageHref, base).toString()
+          : "";
+
+        // Thumbnails
+        const thumbnails = $(el)
+          .find(".pypvi_images a[data-fancybox]")
+          .map((_, a) => {
+            const href = $(a).attr("href");
+            return href ? new URL(href, base).toString() : "";
+          })
+          .get()
+          .filter((url) => url !== "");
+
+        // Combine main image and thumbnails into VehicleImage array
+        const images: VehicleImage[] = [];
+
+        if (mainImageUrl) {
+          images.push({
+            url: removeCropParameters(mainImageUrl),
+            thumbnailUrl: mainImageUrl,
+            type: getImageType(mainImageUrl),
+          });
+        }
+
+        thumbnails.forEach((thumbnailUrl) => {
+          images.push({
+            url: removeCropParameters(thumbnailUrl),
+            thumbnailUrl,
+            type: getImageType(thumbnailUrl),
+          });
+        });
+
+        // Year, Make, Model
+        const ymmText = $(el).find(".pypvi_ymm").text().trim();
+        const normalizedYmm = ymmText.replace(/\s+/g, " ").trim();
+        const [yearStr = "", ...makeAndModel] = normalizedYmm.split(" ");
+        const { make, model } = splitMakeAndModel(makeAndModel.join(" "));
+        const year = parseInt(yearStr) || 0;
+
+        // Details
+        const colorText = $(el)
+          .find(".pypvi_detailItem:contains('Color:')")
+          .text();
+        const color = extractAfterLabel(colorText, "Color:");
+
+        const vinText = $(el).find(".pypvi_detailItem:contains('VIN:')").text();
+        const vin = extractAfterLabel(vinText, "VIN:");
+
+        const sectionText = $(el)
+          .find(".pypvi_detailItem:contains('Section:')")
+          .text();
+        const section = extractWordAfterLabel(sectionText, "Section:");
+
+        const rowText = $(el).find(".pypvi_detailItem:contains('Row:')").text();
+        const row = extractWordAfterLabel(rowText, "Row:");
+
+        const spaceText = $(el)
+          .find(".pypvi_detailItem:contains('Space:')")
+          .text();
+        const space = extractWordAfterLabel(spaceText, "Space:");
+
+        const stockText = $(el)
+          .find(".pypvi_detailItem:contains('Stock #:')")
+          .text();
+        const stockNumber = extractAfterLabel(stockText, "Stock #:");
+
+        // Available date
+        let availableDate = new Date().toISOString();
+        const datetimeAttr = $(el).find("time[datetime]").attr("datetime");
+        if (datetimeAttr) {
+          const parsedDate = new Date(datetimeAttr);
+          if (!isNaN(parsedDate.getTime())) {
+            availableDate = parsedDate.toISOString();
+          }
+        } else {
+          const availableText = $(el)
+            .find(".pypvi_detailItem:contains('Available:')")
+            .text();
+          const availableRaw = extractAfterLabel(availableText, "Available:");
+          if (availableRaw) {
+            const dateMatch = /(\d{1,2}\/\d{1,2}\/\d{4})/.exec(availableRaw);
+            if (dateMatch?.[1]) {
+              const parsedDate = new Date(dateMatch[1]);
+              if (!isNaN(parsedDate.getTime())) {
+                availableDate = parsedDate.toISOString();
+              }
+            }
+          }
+        }
+
+        // Generate URLs
+        const { detailsUrl, partsUrl, pricesUrl } = generateVehicleUrls(
+          { year, make, model },
+          location,
+        );
+
+        vehicles.push({
+          id,
+          year,
+          make,
+          model,
+          color,
+          vin,
+          stockNumber,
+          availableDate,
+          yardLocation: {
+            section,
+            row,
+            space,
+          },
+          images,
+          detailsUrl,
+          partsUrl,
+          pricesUrl,
+        });
+      } catch (error) {
+        console.error(`Error parsing vehicle element:`, error);
+      }
+    });
+  } catch (error) {
+    console.error("Error parsing vehicle inventory HTML:", error);
+  }
+
+  return vehicles;
+}
+
+/**
+ * LKQ Pick Your Part inventory source
+ *
+ * ⚠️  LEGAL WARNING: This adapter performs web scraping of LKQ's website.
+ * Before deploying to production, review LEGAL_CONSIDERATIONS.md and:
+ * - Seek legal counsel
+ * - Review LKQ's Terms of Service
+ * - Consider requesting official API access
+ * - Ensure compliance with applicable laws
+ */
+export const lkqSource: InventorySource = {
+  id: LKQ_SOURCE_ID,
+  name: "LKQ Pick Your Part",
+  listLocations: fetchLocationsFromLKQ,
+  searchInventory: searchLKQInventory,
+  buildVehicleUrls: generateVehicleUrls,
+};
@@ -0,0 +1,45 @@
+import type { InventoryFetchResult, Location } from "~/lib/types";
+
+// Knobs for a single inventory search
+export interface InventorySearchOptions {
+  /** Override SEARCH_CONFIG.MAX_PAGES_PER_LOCATION, e.g. for full crawls */
+  maxPages?: number;
+  /** Skip the upstream fetch cache and ask the yard for live data */
+  fresh?: boolean;
+  /** Stop walking pages at this time (ms since epoch), as if the page cap was reached */
+  deadline?: number;
+}
+
+// Outbound links generated for a vehicle on its source's website
+export interface VehicleUrls {
+  detailsUrl: string;
+  partsUrl: string;
+  pricesUrl: string;
+}
+
+/**
+ * An inventory source is one yard chain (LKQ, or any other self-service
+ * yard) that can list its locations and search a location's inventory.
+ *
+ * Locations returned by a source are tagged with its `id`, which is how
+ * searches are routed back to the right adapter.
+ */
+export interface InventorySource {
+  /** Stable identifier stored on every Location and Vehicle */
+  id: string;
+  /** Human readable name of the yard chain */
+  name: string;
+  /** List every location this source knows about */
+  listLocations(): Promise<Location[]>;
+  /** Search a single location's inventory, walking all result pages */
+  searchInventory(
+    location: Location,
+    query: string,
+    options?: InventorySearchOptions,
+  ): Promise<InventoryFetchResult>;
+  /** Build outbound links for a vehicle at one of this source's locations */
+  buildVehicleUrls(
+    vehicle: { year: number; make: string; model: string },
+    location: Location,
+  ): VehicleUrls;
+}
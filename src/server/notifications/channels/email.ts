@@ -0,0 +1,83 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { env } from "~/env";
+import {
+  DELIVERY_TIMEOUT,
+  type AlertNotification,
+  type NotificationChannel,
+} from "../types";
+
+let transporter: Transporter | undefined;
+
+function getTransporter(): Transporter {
+  transporter ??= nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    // Nodemailer waits minutes by default, long enough to stall a run
+    connectionTimeout: DELIVERY_TIMEOUT,
+    greetingTimeout: DELIVERY_TIMEOUT,
+    socketTimeout: DELIVERY_TIMEOUT,
+    auth: env.SMTP_USER
+      ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD }
+      : undefined,
+  });
+  return transporter;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderText(notification: AlertNotification): string {
+  const lines = notification.vehicles.map(
+    (vehicle) =>
+      `- ${vehicle.year} ${vehicle.make} ${vehicle.model} (${vehicle.color}) at ${vehicle.location.name}, stock #${vehicle.stockNumber}\n  ${vehicle.detailsUrl}`,
+  );
+  return [
+    `${notification.title}`,
+    "",
+    ...lines,
+    "",
+    `View your inbox: ${notification.url}`,
+  ].join("\n");
+}
+
+function renderHtml(notification: AlertNotification): string {
+  const items = notification.vehicles
+    .map(
+      (vehicle) =>
+        `<li><a href="${escapeHtml(vehicle.detailsUrl)}">${escapeHtml(
+          `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+        )}</a> (${escapeHtml(vehicle.color)}) at ${escapeHtml(
+          vehicle.location.name,
+        )}, stock #${escapeHtml(vehicle.stockNumber)}</li>`,
+    )
+    .join("");
+  return `<h2>${escapeHtml(notification.title)}</h2><ul>${items}</ul><p><a href="${escapeHtml(notification.url)}">View your inbox</a></p>`;
+}
+
+/**
+ * Email over SMTP, one message per recipient in ALERT_EMAIL_TO
+ */
+export const emailChannel: NotificationChannel = {
+  id: "email",
+  isConfigured: () => !!env.SMTP_HOST && !!env.ALERT_EMAIL_TO,
+  getTargets: async () =>
+    (env.ALERT_EMAIL_TO ?? "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean),
+  send: async (target, notification) => {
+    await getTransporter().sendMail({
+      from: env.SMTP_FROM,
+      to: target,
+      subject: notification.title,
+      text: renderText(notification),
+      html: renderHtml(notification),
+    });
+  },
+};
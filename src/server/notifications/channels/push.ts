@@ -0,0 +1,167 @@
+import webpush, { WebPushError } from "web-push";
+import { env } from "~/env";
+import { getDb } from "~/server/db";
+import {
+  DELIVERY_TIMEOUT,
+  PermanentDeliveryError,
+  type NotificationChannel,
+} from "../types";
+
+// Raw rows as returned by the subscription queries below
+interface PushSubscriptionRow {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// Keep undelivered pushes around for a day while the browser is offline
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Hosts of the browsers' push services; a subscription's endpoint must be
+// on one of them or one of their subdomains
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com", // Chrome, Edge and other Chromium browsers
+  "android.googleapis.com",
+  "updates.push.services.mozilla.com", // Firefox
+  "push.apple.com", // Safari
+  "notify.windows.com", // Legacy Edge
+];
+
+let vapidConfigured = false;
+
+function configureVapid(): void {
+  if (vapidConfigured) return;
+  webpush.setVapidDetails(
+    env.VAPID_SUBJECT,
+    env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+    env.VAPID_PRIVATE_KEY!,
+  );
+  vapidConfigured = true;
+}
+
+/**
+ * Whether an endpoint is an https URL on a known push service
+ *
+ * The server POSTs to every stored endpoint, so anything else would let
+ * a caller point those requests at an arbitrary host.
+ */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === "https:" &&
+    !url.username &&
+    !url.password &&
+    !url.port &&
+    PUSH_SERVICE_HOSTS.some(
+      (host) => url.hostname === host || url.hostname.endsWith(`.${host}`),
+    )
+  );
+}
+
+/**
+ * Store a browser's push subscription, replacing its keys if it re-subscribes
+ */
+export async function savePushSubscription(subscription: {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}): Promise<void> {
+  const db = await getDb();
+  await db.execute({
+    sql: `INSERT INTO push_subscriptions (endpoint, p256dh, auth, created_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (endpoint) DO UPDATE SET
+        p256dh = excluded.p256dh,
+        auth = excluded.auth`,
+    args: [
+      subscription.endpoint,
+      subscription.keys.p256dh,
+      subscription.keys.auth,
+      new Date().toISOString(),
+    ],
+  });
+}
+
+/**
+ * Forget a push subscription, given its auth secret as well as its
+ * endpoint so only the browser that holds it can remove it
+ */
+export async function deletePushSubscription(subscription: {
+  endpoint: string;
+  auth: string;
+}): Promise<void> {
+  const db = await getDb();
+  await db.execute({
+    sql: "DELETE FROM push_subscriptions WHERE endpoint = ? AND auth = ?",
+    args: [subscription.endpoint, subscription.auth],
+  });
+}
+
+async function getPushSubscription(
+  endpoint: string,
+): Promise<PushSubscriptionRow | null> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE endpoint = ?",
+    args: [endpoint],
+  });
+  return (result.rows as unknown as PushSubscriptionRow[])[0] ?? null;
+}
+
+/**
+ * Web Push to every subscribed browser, shown by the service worker in
+ * public/sw.js
+ */
+export const pushChannel: NotificationChannel = {
+  id: "push",
+  isConfigured: () =>
+    !!env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && !!env.VAPID_PRIVATE_KEY,
+  getTargets: async () => {
+    const db = await getDb();
+    const result = await db.execute(
+      "SELECT endpoint FROM push_subscriptions ORDER BY created_at",
+    );
+    return (
+      result.rows as unknown as Pick<PushSubscriptionRow, "endpoint">[]
+    ).map((row) => row.endpoint);
+  },
+  send: async (target, notification) => {
+    configureVapid();
+
+    const subscription = await getPushSubscription(target);
+    if (!subscription) {
+      throw new PermanentDeliveryError("Subscription no longer exists");
+    }
+
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify({
+          title: notification.title,
+          body: notification.body,
+          url: notification.url,
+        }),
+        { TTL: PUSH_TTL_SECONDS, timeout: DELIVERY_TIMEOUT },
+      );
+    } catch (error) {
+      // The browser unsubscribed or the subscription expired
+      if (
+        error instanceof WebPushError &&
+        (error.statusCode === 404 || error.statusCode === 410)
+      ) {
+        await deletePushSubscription(subscription);
+        throw new PermanentDeliveryError(
+          `Subscription expired: ${error.statusCode}`,
+        );
+      }
+      throw error;
+    }
+  },
+};
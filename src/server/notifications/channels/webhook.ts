@@ -0,0 +1,88 @@
+import { createHmac } from "node:crypto";
+import { env } from "~/env";
+import {
+  DELIVERY_TIMEOUT,
+  PermanentDeliveryError,
+  type AlertNotification,
+  type NotificationChannel,
+} from "../types";
+
+/**
+ * Sign a webhook body
+ *
+ * The timestamp is part of the signed content so receivers can reject
+ * replayed requests.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+function buildPayload(notification: AlertNotification): string {
+  return JSON.stringify({
+    type: "saved_search.new_matches",
+    savedSearch: notification.savedSearch,
+    title: notification.title,
+    url: notification.url,
+    vehicles: notification.vehicles,
+    sentAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * JSON POST to every URL in ALERT_WEBHOOK_URLS, signed with
+ * ALERT_WEBHOOK_SECRET
+ */
+export const webhookChannel: NotificationChannel = {
+  id: "webhook",
+  isConfigured: () => !!env.ALERT_WEBHOOK_URLS && !!env.ALERT_WEBHOOK_SECRET,
+  getTargets: async () =>
+    (env.ALERT_WEBHOOK_URLS ?? "")
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean),
+  send: async (target, notification) => {
+    const body = buildPayload(notification);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = signWebhookPayload(
+      env.ALERT_WEBHOOK_SECRET!,
+      timestamp,
+      body,
+    );
+
+    const response = await fetch(target, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${signature}`,
+      },
+      body,
+      cache: "no-store",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+    });
+
+    if (response.ok) return;
+
+    // Client errors won't change on retry, except timeouts and rate limits
+    if (
+      response.status >= 400 &&
+      response.status < 500 &&
+      response.status !== 408 &&
+      response.status !== 429
+    ) {
+      throw new PermanentDeliveryError(
+        `Client error: ${response.status} - ${response.statusText}`,
+      );
+    }
+
+    throw new Error(
+      `Server error: ${response.status} - ${response.statusText}`,
+    );
+  },
+};
@@ -0,0 +1,95 @@
+import type { NotificationDelivery } from "~/lib/types";
+import { getDb } from "~/server/db";
+
+// Raw rows as returned by the delivery log queries below
+interface NotificationDeliveryRow {
+  id: number;
+  saved_search_id: number;
+  channel: NotificationDelivery["channel"];
+  target: string;
+  title: string;
+  status: NotificationDelivery["status"];
+  attempts: number;
+  error: string | null;
+  created_at: string;
+}
+
+/**
+ * Append a delivery attempt to the log
+ */
+export async function logDelivery(
+  delivery: Omit<NotificationDelivery, "id" | "createdAt">,
+): Promise<NotificationDelivery> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `INSERT INTO notification_deliveries
+      (saved_search_id, channel, target, title, status, attempts, error, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
+    args: [
+      delivery.savedSearchId,
+      delivery.channel,
+      delivery.target,
+      delivery.title,
+      delivery.status,
+      delivery.attempts,
+      delivery.error,
+      new Date().toISOString(),
+    ],
+  });
+  return toNotificationDelivery(
+    (result.rows as unknown as NotificationDeliveryRow[])[0]!,
+  );
+}
+
+/**
+ * Shorten a delivery target for display: the first letter and domain of an
+ * email address, or the origin of a webhook URL or push endpoint, whose
+ * paths and queries often hold tokens
+ */
+function redactTarget(
+  channel: NotificationDelivery["channel"],
+  target: string,
+): string {
+  if (channel === "email") {
+    const at = target.lastIndexOf("@");
+    return at > 0 ? `${target[0]}…${target.slice(at)}` : "…";
+  }
+  try {
+    return new URL(target).origin;
+  } catch {
+    return "…";
+  }
+}
+
+/**
+ * List logged deliveries, newest first, with their targets redacted
+ */
+export async function listDeliveries(
+  limit: number,
+): Promise<NotificationDelivery[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM notification_deliveries ORDER BY id DESC LIMIT ?",
+    args: [limit],
+  });
+  return (result.rows as unknown as NotificationDeliveryRow[]).map((row) => ({
+    ...toNotificationDelivery(row),
+    target: redactTarget(row.channel, row.target),
+  }));
+}
+
+function toNotificationDelivery(
+  row: NotificationDeliveryRow,
+): NotificationDelivery {
+  return {
+    id: row.id,
+    savedSearchId: row.saved_search_id,
+    channel: row.channel,
+    target: row.target,
+    title: row.title,
+    status: row.status,
+    attempts: row.attempts,
+    error: row.error,
+    createdAt: row.created_at,
+  };
+}
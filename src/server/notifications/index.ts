@@ -0,0 +1,163 @@
+import { env } from "~/env";
+import type {
+  NotificationChannelId,
+  NotificationDelivery,
+  SavedSearch,
+  Vehicle,
+} from "~/lib/types";
+import { retryWithBackoff } from "~/server/retry";
+import { emailChannel } from "./channels/email";
+import { pushChannel } from "./channels/push";
+import { webhookChannel } from "./channels/webhook";
+import { logDelivery } from "./deliveries";
+import {
+  PermanentDeliveryError,
+  type AlertNotification,
+  type NotificationChannel,
+} from "./types";
+
+export {
+  deletePushSubscription,
+  isPushServiceEndpoint,
+  savePushSubscription,
+} from "./channels/push";
+export { listDeliveries } from "./deliveries";
+export type { AlertNotification, NotificationChannel } from "./types";
+
+// Every channel alerts can go out on; unconfigured ones are skipped
+const CHANNELS: NotificationChannel[] = [
+  emailChannel,
+  webhookChannel,
+  pushChannel,
+];
+
+// Number of vehicles listed in short notification bodies
+const BODY_VEHICLE_LIMIT = 3;
+
+/**
+ * Public URL of the app for links in notifications
+ */
+function getAppUrl(): string {
+  if (env.APP_URL) return env.APP_URL.replace(/\/$/, "");
+  if (env.VERCEL_URL) return `https://${env.VERCEL_URL}`;
+  return `http://localhost:${env.PORT}`;
+}
+
+function buildNotification(
+  savedSearch: SavedSearch,
+  vehicles: Vehicle[],
+): AlertNotification {
+  const summaries = vehicles.map((vehicle) => ({
+    id: vehicle.id,
+    year: vehicle.year,
+    make: vehicle.make,
+    model: vehicle.model,
+    color: vehicle.color,
+    stockNumber: vehicle.stockNumber,
+    availableDate: vehicle.availableDate,
+    location: {
+      source: vehicle.location.source,
+      locationCode: vehicle.location.locationCode,
+      name: vehicle.location.name,
+      city: vehicle.location.city,
+      stateAbbr: vehicle.location.stateAbbr,
+    },
+    detailsUrl: vehicle.detailsUrl,
+  }));
+
+  const listed = summaries
+    .slice(0, BODY_VEHICLE_LIMIT)
+    .map(
+      (vehicle) =>
+        `${vehicle.year} ${vehicle.make} ${vehicle.model} (${vehicle.location.city}, ${vehicle.location.stateAbbr})`,
+    );
+  if (summaries.length > BODY_VEHICLE_LIMIT) {
+    listed.push(`and ${summaries.length - BODY_VEHICLE_LIMIT} more`);
+  }
+
+  return {
+    savedSearch: {
+      id: savedSearch.id,
+      name: savedSearch.name,
+      query: savedSearch.query,
+    },
+    title: `${vehicles.length} new ${vehicles.length === 1 ? "match" : "matches"} for "${savedSearch.name}"`,
+    body: listed.join("\n"),
+    url: `${getAppUrl()}/inbox`,
+    vehicles: summaries,
+  };
+}
+
+/**
+ * Send to one target with retry and backoff, then log the outcome
+ */
+async function deliver(
+  channel: NotificationChannel,
+  target: string,
+  notification: AlertNotification,
+): Promise<NotificationDelivery> {
+  let attempts = 0;
+  let error: string | null = null;
+
+  try {
+    await retryWithBackoff(
+      (attemptNumber) => {
+        attempts = attemptNumber;
+        return channel.send(target, notification);
+      },
+      {
+        label: `${channel.id} notification`,
+        shouldRetry: (error) => !(error instanceof PermanentDeliveryError),
+      },
+    );
+  } catch (deliveryError) {
+    error =
+      deliveryError instanceof Error
+        ? deliveryError.message
+        : String(deliveryError);
+    console.error(`Error sending ${channel.id} notification:`, deliveryError);
+  }
+
+  return logDelivery({
+    savedSearchId: notification.savedSearch.id,
+    channel: channel.id,
+    target,
+    title: notification.title,
+    status: error ? "failed" : "sent",
+    attempts,
+    error,
+  });
+}
+
+/**
+ * Ids of the channels that have enough configuration to send
+ */
+export function getConfiguredChannels(): NotificationChannelId[] {
+  return CHANNELS.filter((channel) => channel.isConfigured()).map(
+    (channel) => channel.id,
+  );
+}
+
+/**
+ * Tell every configured channel about a saved search's new matches
+ */
+export async function notifyNewMatches(
+  savedSearch: SavedSearch,
+  vehicles: Vehicle[],
+): Promise<NotificationDelivery[]> {
+  if (vehicles.length === 0) return [];
+
+  const notification = buildNotification(savedSearch, vehicles);
+  const channels = CHANNELS.filter((channel) => channel.isConfigured());
+
+  const deliveries = await Promise.all(
+    channels.map(async (channel) => {
+      const targets = await channel.getTargets();
+      return Promise.all(
+        targets.map((target) => deliver(channel, target, notification)),
+      );
+    }),
+  );
+
+  return deliveries.flat();
+}
@@ -0,0 +1,57 @@
+import type { NotificationChannelId, SavedSearch } from "~/lib/types";
+
+// How long one delivery may wait on a receiver before it counts as failed,
+// so a hung receiver can't stall the whole run
+export const DELIVERY_TIMEOUT = 10_000;
+
+// Compact vehicle summary sent to every channel
+export interface NotificationVehicle {
+  id: string;
+  year: number;
+  make: string;
+  model: string;
+  color: string;
+  stockNumber: string;
+  availableDate: string;
+  location: {
+    source: string;
+    locationCode: string;
+    name: string;
+    city: string;
+    stateAbbr: string;
+  };
+  detailsUrl: string;
+}
+
+// New matches for one saved search, ready to be sent
+export interface AlertNotification {
+  savedSearch: Pick<SavedSearch, "id" | "name" | "query">;
+  title: string;
+  body: string;
+  url: string; // Inbox link
+  vehicles: NotificationVehicle[];
+}
+
+/**
+ * A way of getting alerts out of the browser
+ *
+ * Each target (recipient, webhook URL, push subscription) is sent to and
+ * logged on its own, so one bad target doesn't hold up the others.
+ */
+export interface NotificationChannel {
+  id: NotificationChannelId;
+  isConfigured(): boolean;
+  getTargets(): Promise<string[]>;
+  send(target: string, notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * Failure that retrying won't fix, e.g. a rejected webhook or an expired
+ * push subscription
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
@@ -0,0 +1,37 @@
+import { backOff } from "exponential-backoff";
+import { SEARCH_CONFIG } from "~/lib/constants";
+
+/**
+ * Run an operation with retry and exponential backoff
+ *
+ * Shares the attempt count and delays in SEARCH_CONFIG between upstream
+ * fetches and outbound notifications. `shouldRetry` can stop early on
+ * errors that won't go away by trying again.
+ */
+export async function retryWithBackoff<T>(
+  operation: (attemptNumber: number) => Promise<T>,
+  {
+    label,
+    shouldRetry = () => true,
+  }: { label: string; shouldRetry?: (error: Error) => boolean },
+): Promise<T> {
+  let attemptNumber = 0;
+
+  return backOff(
+    () => {
+      attemptNumber++;
+      return operation(attemptNumber);
+    },
+    {
+      numOfAttempts: SEARCH_CONFIG.MAX_RETRIES,
+      startingDelay: SEARCH_CONFIG.BASE_RETRY_DELAY,
+      maxDelay: SEARCH_CONFIG.MAX_RETRY_DELAY,
+      retry: (error: Error, attemptNumber: number) => {
+        console.log(
+          `${label} failed (attempt ${attemptNumber}/${SEARCH_CONFIG.MAX_RETRIES}): ${error.message}`,
+        );
+        return shouldRetry(error);
+      },
+    },
+  );
+}
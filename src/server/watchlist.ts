@@ -0,0 +1,147 @@
+import { createHash } from "node:crypto";
+import pLimit from "p-limit";
+import { SEARCH_CONFIG } from "~/lib/constants";
+import type {
+  WatchCheck,
+  WatchedVehicle,
+  WatchedVehicleRef,
+  WatchStatus,
+} from "~/lib/types";
+import { getWatchKey } from "~/lib/watchlist";
+import { getDb } from "~/server/db";
+import { findStoredVehicle, listAllLocations } from "~/server/inventory";
+import {
+  DEFAULT_USER_LOCATION,
+  searchLocation,
+} from "~/server/inventory/search";
+
+// Raw rows as returned by the queries below
+interface WatchlistRow {
+  vehicle: string;
+  added_at: string;
+}
+
+/**
+ * Who a synced watchlist belongs to, stored hashed so the database alone
+ * doesn't give away anyone's sync code
+ */
+function getOwner(syncCode: string): string {
+  return createHash("sha256").update(syncCode).digest("hex");
+}
+
+/**
+ * Get the watchlist synced under a sync code, most recently starred first
+ */
+export async function listWatchedVehicles(
+  syncCode: string,
+): Promise<WatchedVehicle[]> {
+  const db = await getDb();
+  const result = await db.execute({
+    sql: `SELECT vehicle, added_at FROM watchlist_vehicles
+      WHERE owner = ? ORDER BY added_at DESC`,
+    args: [getOwner(syncCode)],
+  });
+  return (result.rows as unknown as WatchlistRow[]).map((row) => ({
+    vehicle: JSON.parse(row.vehicle) as WatchedVehicle["vehicle"],
+    addedAt: row.added_at,
+  }));
+}
+
+/**
+ * Replace the watchlist synced under a sync code with a browser's copy of
+ * it, leaving every other list alone
+ */
+export async function saveWatchlist(
+  syncCode: string,
+  watchlist: WatchedVehicle[],
+): Promise<void> {
+  const db = await getDb();
+  const owner = getOwner(syncCode);
+  await db.batch(
+    [
+      { sql: "DELETE FROM watchlist_vehicles WHERE owner = ?", args: [owner] },
+      ...watchlist.map(({ vehicle, addedAt }) => ({
+        sql: `INSERT OR REPLACE INTO watchlist_vehicles
+          (owner, source, location_code, stock_number, vehicle, added_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [
+          owner,
+          vehicle.source,
+          vehicle.location.locationCode,
+          vehicle.stockNumber || vehicle.id,
+          JSON.stringify(vehicle),
+          addedAt,
+        ],
+      })),
+    ],
+    "write",
+  );
+}
+
+/**
+ * Fall back to the snapshot store for a vehicle the yard's answer can't
+ * settle, which knows it's gone once a full crawl stopped listing it
+ */
+async function getStoredStatus(ref: WatchedVehicleRef): Promise<WatchStatus> {
+  const stored = await findStoredVehicle(ref).catch((error: unknown) => {
+    console.error(`Error reading the snapshot of ${getWatchKey(ref)}:`, error);
+    return null;
+  });
+  return stored?.removedAt ? "gone" : "unknown";
+}
+
+/**
+ * Check whether each watched vehicle is still listed at its yard
+ *
+ * Each yard's whole inventory is fetched once, through the same caches as
+ * a search. A vehicle missing from it is only "gone" if the yard actually
+ * answered, with every page read or from a complete crawl; a yard that
+ * answered no page at all is an error, not an empty yard. Otherwise the
+ * snapshot store decides.
+ */
+export async function checkWatchedVehicles(
+  refs: WatchedVehicleRef[],
+): Promise<WatchCheck[]> {
+  const locations = await listAllLocations();
+  const byLocation = new Map<string, WatchedVehicleRef[]>();
+  refs.forEach((ref) => {
+    const key = `${ref.source}:${ref.locationCode}`;
+    byLocation.set(key, [...(byLocation.get(key) ?? []), ref]);
+  });
+
+  const limit = pLimit(SEARCH_CONFIG.MAX_CONCURRENT_REQUESTS);
+  const checks = await Promise.all(
+    [...byLocation.values()].map((locationRefs) =>
+      limit(async (): Promise<WatchCheck[]> => {
+        const { source, locationCode } = locationRefs[0]!;
+        const location = locations.find(
+          (candidate) =>
+            candidate.source === source &&
+            candidate.locationCode === locationCode,
+        );
+        // Only the distance would use the user's location
+        const result = location
+          ? await searchLocation(location, "", DEFAULT_USER_LOCATION)
+          : null;
+        const listed = new Set(
+          result?.vehicles.map((vehicle) => vehicle.stockNumber || vehicle.id),
+        );
+
+        return Promise.all(
+          locationRefs.map(async (ref): Promise<WatchCheck> => {
+            if (listed.has(ref.stockNumber)) {
+              return { ...ref, status: "listed" };
+            }
+            // searchLocation reports a fetch that got no page as an error
+            if (result && !result.error && !result.truncated) {
+              return { ...ref, status: "gone" };
+            }
+            return { ...ref, status: await getStoredStatus(ref) };
+          }),
+        );
+      }),
+    ),
+  );
+
+  return checks.flat();
+}